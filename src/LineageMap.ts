@@ -1,109 +1,751 @@
 import * as d3 from 'd3';
-import { LineageMapOptions, Position, Graph, Node, Edge, TableLevel, FieldNode, TableNode, PopupLine } from "./types/index"
+import { LineageMapOptions, ThemeName, Position, Graph, Node, TableLevel, FieldNode, TableNode, PopupLine, PopupSpan, PopupBox, PopupState, SqlHighlightType, LineageDirection, LineageMapCallbacks, SearchResult, SVGExportOptions, PNGExportOptions, SqlAnalysisResult, ValidationIssue, ValidationSeverity, LineageCycle, LineagePath, LineagePathOptions, RenderedEdge, EdgeKind, Bounds, LineageTheme, RenderSlot, RenderSlotHost, RenderSlotKind } from "./types/index"
+import { searchGraph } from "./search"
+import { extractTextBlocks } from "./textBlocks"
+import { parseMarkdownLines } from "./markdown"
+import { formatSql, highlightSqlLines } from "./sql/highlight"
+import { analyzeSqlLineage } from "./sql/lineage"
+import { formatDataType } from "./dataTypes"
+import { SEVERITY_ICONS, getHighestSeverity, groupIssuesByNode, runValidation } from "./validation/validate"
+import { FeedbackEdges, detectCycles, getFeedbackEdges } from "./cycles"
+import { findLineagePaths } from "./paths"
+import { computeEdgePaths, computePositions, computeTableLevels, computeTableRects, findOptimalTableY, getEdgeKind, getPathBounds, inferTableEdges, isVertical } from "./layout/engine"
+import { addBackground, inlineComputedStyles, isTransparent, serializeSVG, svgStringToPNG, unionBounds } from "./export"
+import { EDGE_KIND_STYLES, resolveTheme, themeColor, themeFont, themeShadow, themeToCss } from "./theme"
+import { Minimap } from "./minimap"
+import { getEdges, getFields, getGraphIndex, getQualifiedName, getStructureKey, traverseLineage } from "./graphIndex"
+import { resolveOptions } from "./options"
+
+const NO_ISSUES: ValidationIssue[] = [];
+
+function sameSlots(a: RenderSlot[], b: RenderSlot[]): boolean {
+    return a.length === b.length && a.every((slot, i) => {
+        const other = b[i];
+        return slot.key === other.key && slot.element === other.element && slot.node === other.node &&
+            slot.expanded === other.expanded && slot.selected === other.selected &&
+            slot.highlight === other.highlight && slot.issues === other.issues;
+    });
+}
 
 export class LineageMap {
     private container: HTMLElement;
     private options: Required<LineageMapOptions>;
+    private theme: LineageTheme;
+    private themeStyle: d3.Selection<HTMLStyleElement, unknown, null, undefined> | null = null;
     private expandedTables: Set<string> = new Set();
     private highlightedRelatedFields: Set<string> = new Set();
-    private showTableRelationships: boolean = false;
+    private highlightedDownstreamFields: Set<string> = new Set();
+    // Expanded tables to restore when the table-level view is left
+    private expandedBeforeTableView: string[] | null = null;
     private selectedField: string | null = null;
     private positions: Map<string, Position> = new Map();
-    private validationErrors: Map<string, string[]> = new Map();
+    private validationIssues: ValidationIssue[] = [];
+    private issuesByNode: Map<string, ValidationIssue[]> = new Map();
+    private validatedGraph: Graph | null = null;
+    private cycles: LineageCycle[] = [];
+    private cyclicNodes: Set<string> = new Set();
+    private feedbackEdges: FeedbackEdges = { tables: new Set(), edges: new Set() };
     private svg!: d3.Selection<SVGSVGElement, unknown, null, undefined>;
     private mainGroup!: d3.Selection<SVGGElement, unknown, null, undefined>;
+    private edgeLayer!: d3.Selection<SVGGElement, unknown, null, undefined>;
+    private nodeLayer!: d3.Selection<SVGGElement, unknown, null, undefined>;
     private zoom!: d3.ZoomBehavior<SVGSVGElement, unknown>;
     private currentGraph: Graph | null = null;
-    private static readonly SQL_START_TAG = '---startsql';
-    private static readonly SQL_END_TAG = '---endsql';
+    // The graph as supplied, before edges inferred from SQL are added
+    private sourceGraph: Graph | null = null;
+    private sqlAnalysis: SqlAnalysisResult | null = null;
+    private callbacks: LineageMapCallbacks = {};
+    private selectionControlled: boolean = false;
+    private expansionControlled: boolean = false;
+    // The graph, its structure and the key the positions were last computed for; a null key forces a new layout
+    private layoutGraph: Graph | null = null;
+    private layoutStructure: string | null = null;
+    private layoutKey: string | null = null;
+    private renderedSignatures: WeakMap<SVGGElement, string> = new WeakMap();
+    // Keeps ids of SVG definitions such as arrowhead markers unique between maps on one page
+    private static instanceCount = 0;
+    private readonly instanceId = ++LineageMap.instanceCount;
+    // Numbers the clip paths of popups, which are recreated each time one opens
+    private popupCount = 0;
+    private searchQuery: string = '';
+    private searchResults: SearchResult[] = [];
+    private searchIndex: number = -1;
+    private searchOverlay: d3.Selection<HTMLDivElement, unknown, null, undefined> | null = null;
+    // Ends of the path shown by showPath, which is recomputed on every render
+    private pathEnds: { source: string; target: string } | null = null;
+    private activePath: LineagePath | null = null;
+    // Nodes and field edges lit while a path is shown; tables of fields on the path count as on it
+    private pathNodes: Set<string> = new Set();
+    private pathEdges: Set<string> = new Set();
+    private pathMode: boolean = false;
+    // First field clicked in path mode, waiting for the second
+    private pathSource: string | null = null;
+    private pathOverlay: d3.Selection<HTMLDivElement, unknown, null, undefined> | null = null;
+    private hoveredEdge: string | null = null;
+    private minimap: Minimap | null = null;
+    // Node that takes keyboard focus when tabbing into the map
+    private focusedNode: string | null = null;
+    private liveRegion: d3.Selection<HTMLDivElement, unknown, null, undefined> | null = null;
+    // Area around the viewport, in graph coordinates, that nodes and edges were last drawn for;
+    // null when the whole graph is drawn
+    private cullingRect: Bounds | null = null;
+    private cullingFrame: number | null = null;
+    private lowDetail: boolean = false;
+    // Every rendered edge with its path and bounds, including those culled from the DOM
+    private edgePaths: RenderedEdge[] = [];
+    private edgeBounds: Map<string, Bounds> = new Map();
+    // Drawn elements by id, so highlighting only restyles the rows and edges whose state changed
+    private nodeElements: Map<string, SVGGElement> = new Map();
+    private edgeElements: Map<string, SVGPathElement> = new Map();
+    private drawnEdgesByField: Map<string, string[]> = new Map();
+    // Fields styled as highlighted by the last renderHighlights; null once a redraw added elements
+    private styledHighlights: Set<string> | null = null;
+    private highlightSource: string | null = null;
+    private slotHost: RenderSlotHost | null = null;
+    private slotElements: Map<string, { kind: RenderSlotKind; node: TableNode | FieldNode; element: HTMLDivElement }> = new Map();
+    // The slots last sent to the host, so hovering and popups only reach it when a slot changed
+    private publishedSlots: RenderSlot[] = [];
+    private static readonly SEVERITY_COLORS: Record<ValidationSeverity, string> = {
+        error: themeColor('error'),
+        warning: themeColor('warning'),
+        info: themeColor('info')
+    };
+    private static readonly SQL_TOKEN_COLORS: Record<SqlHighlightType, string> = {
+        keyword: themeColor('sqlKeyword'),
+        string: themeColor('sqlString'),
+        number: themeColor('sqlNumber'),
+        comment: themeColor('sqlComment'),
+        identifier: themeColor('code'),
+        plain: themeColor('text')
+    };
 
     constructor(container: HTMLElement, options: LineageMapOptions = {}) {
         this.container = container;
-        this.options = {
-            width: options.width || '100%',
-            height: options.height || '100%',
-            tableWidth: options.tableWidth || 150,
-            tableHeight: options.tableHeight || 40,
-            fieldHeight: options.fieldHeight || 20,
-            fieldSpacing: options.fieldSpacing || 4,
-            levelPadding: options.levelPadding || 100,
-            verticalPadding: options.verticalPadding || 50,
-            popUpWidth: options.popUpWidth || 300,
-            popUpFloat: options.popUpFloat || "high",
-            maxCurveOffset: options.maxCurveOffset || 100
-        };
+        this.options = resolveOptions(options);
+        this.theme = resolveTheme(this.options.theme);
 
         this.init();
     }
 
+    setOptions(options: LineageMapOptions): void {
+        const wasTableLevelView = this.options.tableLevelView;
+        this.options = resolveOptions(options);
+        if (this.options.tableLevelView !== wasTableLevelView) {
+            this.options.tableLevelView = wasTableLevelView;
+            this.setTableLevelView(!wasTableLevelView);
+        }
+        this.svg
+            .style('width', this.options.width)
+            .style('height', this.options.height);
+        this.theme = resolveTheme(this.options.theme);
+        this.applyTheme();
+        const svgNode = this.svg.node();
+        if (svgNode) {
+            this.updateLevelOfDetail(d3.zoomTransform(svgNode).k);
+        }
+
+        if (this.options.showSearch && !this.searchOverlay) {
+            this.initSearchOverlay();
+        } else if (!this.options.showSearch && this.searchOverlay) {
+            this.searchOverlay.remove();
+            this.searchOverlay = null;
+        }
+
+        if (this.options.minimap && this.minimap) {
+            this.minimap.setOptions(this.options.minimap);
+        } else if (this.options.minimap) {
+            this.initMinimap();
+        } else if (this.minimap) {
+            this.minimap.destroy();
+            this.minimap = null;
+        }
+
+        // Sizes feed both the layout and every rendered node, so force a full redraw
+        this.layoutKey = null;
+        this.renderedSignatures = new WeakMap();
+        this.validatedGraph = null;
+        if (this.sourceGraph) {
+            this.render(this.prepareGraph(this.sourceGraph));
+        }
+    }
+
     private init(): void {
+        d3.select(this.container).classed(this.getThemeClass(), true);
+        this.themeStyle = d3.select(this.container).append('style') as d3.Selection<HTMLStyleElement, unknown, null, undefined>;
+        this.applyTheme();
+
         // Create SVG container
         this.svg = d3.select(this.container)
             .append('svg')
             .style('width', this.options.width)
-            .style('height', this.options.height) as d3.Selection<SVGSVGElement, unknown, null, undefined>;
+            .style('height', this.options.height)
+            .style('background', themeColor('background'))
+            .style('font-family', themeFont('body'))
+            .attr('role', 'group')
+            .attr('aria-label', 'Lineage map')
+            .attr('aria-roledescription', 'lineage map') as d3.Selection<SVGSVGElement, unknown, null, undefined>;
 
         this.mainGroup = this.svg.append('g') as d3.Selection<SVGGElement, unknown, null, undefined>;
+        this.edgeLayer = this.mainGroup.append('g').attr('class', 'edge-layer') as d3.Selection<SVGGElement, unknown, null, undefined>;
+        this.nodeLayer = this.mainGroup.append('g')
+            .attr('class', 'node-layer')
+            .attr('role', 'tree')
+            .attr('aria-label', 'Tables and fields') as d3.Selection<SVGGElement, unknown, null, undefined>;
+        this.edgeLayer.attr('aria-hidden', 'true');
+
+        // Visually hidden, for screen readers only
+        this.liveRegion = d3.select(this.container).append('div')
+            .attr('class', 'lineage-live-region')
+            .attr('aria-live', 'polite')
+            .attr('role', 'status')
+            .style('position', 'absolute')
+            .style('width', '1px')
+            .style('height', '1px')
+            .style('overflow', 'hidden')
+            .style('clip', 'rect(0 0 0 0)')
+            .style('white-space', 'nowrap') as d3.Selection<HTMLDivElement, unknown, null, undefined>;
 
         // Setup zoom behavior with correct types
         this.zoom = d3.zoom<SVGSVGElement, unknown>()
             .scaleExtent([0.1, 22])
             .on('zoom', (event: d3.D3ZoomEvent<SVGSVGElement, unknown>) => {
                 this.mainGroup.attr('transform', event.transform.toString());
+                this.updateMinimapViewport();
+                this.updateLevelOfDetail(event.transform.k);
+                this.scheduleCulling();
             });
 
         this.svg.call(this.zoom as any)
             .on('dblclick.zoom', null);
+
+        if (this.options.showSearch) {
+            this.initSearchOverlay();
+        }
+        if (this.options.minimap) {
+            this.initMinimap();
+        }
     }
 
-    public validateTransformations(graph: Graph): Map<string, string[]> {
-        this.validationErrors.clear();
+    // Overlays are absolutely positioned in the container
+    private prepareOverlayContainer(): d3.Selection<HTMLElement, unknown, null, undefined> {
+        const container = d3.select(this.container);
+        if (getComputedStyle(this.container).position === 'static') {
+            container.style('position', 'relative');
+        }
+        return container;
+    }
 
-        // Build an index of incoming edges for each field
-        const incomingEdges = new Map<string, Set<string>>();
-        graph.edges.forEach(edge => {
-            if (!incomingEdges.has(edge.target)) {
-                incomingEdges.set(edge.target, new Set());
-            }
-            incomingEdges.get(edge.target)?.add(edge.source);
+    private initMinimap(): void {
+        this.prepareOverlayContainer();
+        this.minimap = new Minimap(this.container, this.options.minimap, point => {
+            this.svg.call(this.zoom.translateTo, point.x, point.y);
+        });
+        this.updateMinimap();
+    }
+
+    private updateMinimap(): void {
+        if (!this.minimap) return;
+        const rects = this.currentGraph ? computeTableRects(this.currentGraph, this.positions, this.options, this.expandedTables) : new Map();
+        this.minimap.update(Array.from(rects.values()));
+        this.updateMinimapViewport();
+    }
+
+    private updateMinimapViewport(): void {
+        const svgNode = this.svg.node();
+        if (!this.minimap || !svgNode) return;
+        this.minimap.setViewport(this.getViewportBounds(svgNode));
+    }
+
+    // The part of the map in view, in graph coordinates
+    private getViewportBounds(svgNode: SVGSVGElement): Bounds {
+        const transform = d3.zoomTransform(svgNode);
+        const [x0, y0] = transform.invert([0, 0]);
+        const [x1, y1] = transform.invert([svgNode.clientWidth, svgNode.clientHeight]);
+        return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+    }
+
+    // The viewport grown by half its size on every side, so short pans don't need a redraw.
+    // Null (draw everything) when culling is off or the map has not been laid out yet.
+    private getCullingRect(): Bounds | null {
+        const svgNode = this.svg.node();
+        if (!this.options.viewportCulling || !svgNode || !svgNode.clientWidth || !svgNode.clientHeight) {
+            return null;
+        }
+        const viewport = this.getViewportBounds(svgNode);
+        return {
+            x: viewport.x - viewport.width / 2,
+            y: viewport.y - viewport.height / 2,
+            width: viewport.width * 2,
+            height: viewport.height * 2
+        };
+    }
+
+    private static intersects(a: Bounds, b: Bounds): boolean {
+        return a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+    }
+
+    private scheduleCulling(): void {
+        if (!this.cullingRect || this.cullingFrame !== null) return;
+        this.cullingFrame = requestAnimationFrame(() => {
+            this.cullingFrame = null;
+            this.updateCulling();
         });
+    }
+
+    // Redraws once the viewport leaves the area drawn last time
+    private updateCulling(): void {
+        const graph = this.currentGraph;
+        const svgNode = this.svg.node();
+        if (!graph || !this.cullingRect || !svgNode) return;
+
+        const viewport = this.getViewportBounds(svgNode);
+        const drawn = this.cullingRect;
+        const covered = viewport.x >= drawn.x && viewport.y >= drawn.y &&
+            viewport.x + viewport.width <= drawn.x + drawn.width &&
+            viewport.y + viewport.height <= drawn.y + drawn.height;
+        if (!covered) {
+            this.drawVisible(graph);
+        }
+    }
+
+    // Draws the nodes and edges near the viewport, or all of them when `cull` is false, without
+    // recomputing the layout or edge routes
+    private drawVisible(graph: Graph, cull: boolean = true): void {
+        this.cullingRect = cull ? this.getCullingRect() : null;
+        this.drawEdges();
+        this.renderNodes(graph, this.positions);
+        this.setupEventListeners();
+        this.renderHighlights(this.highlightSource);
+        this.renderSearchHighlights();
+        this.renderFocusRing();
+    }
 
-        // Regular expression to find field references
-        const fieldRefRegex = /[a-zA-Z_]+:[a-zA-Z_]+\d*/g;
+    // Zoomed far out, text, badges and shadows are too small to read and the slowest parts to paint
+    private updateLevelOfDetail(scale: number): void {
+        const lowDetail = scale < this.options.lowDetailScale;
+        if (lowDetail === this.lowDetail) return;
+        this.lowDetail = lowDetail;
+        this.mainGroup.classed('low-detail', lowDetail);
+    }
 
-        // Validate each node's transformation
-        graph.nodes.forEach(node => {
-            if (node.type === 'field' && node.transformation) {
-                const errors: string[] = [];
+    private static getLowDetailCss(scope: string): string {
+        const hidden = ['.node-layer text', '.render-slot', '.edge-label', '.edge-badge']
+            .map(selector => `${scope} .low-detail ${selector}`);
+        return `${hidden.join(',\n')} {\n  display: none;\n}\n` +
+            `${scope} .low-detail .node-layer * {\n  filter: none !important;\n}`;
+    }
 
-                // Extract referenced fields from transformation
-                const referencedFields = (node.transformation.match(fieldRefRegex) || []) as string[];
+    // Lets a host such as the React component draw table headers, field rows or popups itself.
+    // Those parts get an empty element to mount into instead of the built-in content.
+    setRenderSlotHost(host: RenderSlotHost | null): void {
+        const previousKinds = this.slotHost ? this.slotHost.kinds.join() : '';
+        if (host !== this.slotHost) this.publishedSlots = [];
+        this.slotHost = host;
+        if ((host ? host.kinds.join() : '') !== previousKinds) {
+            this.hidePopups();
+            this.renderedSignatures = new WeakMap();
+            if (this.currentGraph) {
+                this.render(this.currentGraph);
+            }
+        }
+        this.publishSlots();
+    }
 
-                // Ensure uniqueness of referenced fields
-                const referencedFieldSet = new Set(referencedFields);
+    private hasCustomRenderer(kind: RenderSlotKind): boolean {
+        return !!this.slotHost && this.slotHost.kinds.includes(kind);
+    }
 
-                // Check each referenced field
-                const incomingFields = incomingEdges.get(node.id) || new Set();
-                referencedFieldSet.forEach(fieldRef => {
-                    if (!incomingFields.has(fieldRef)) {
-                        errors.push(`Field "${fieldRef}" is used in transformation but has no edge connecting to "${node.id}".`);
-                    }
-                });
+    private mountSlot(
+        parent: d3.Selection<SVGGElement, any, null, undefined>,
+        kind: RenderSlotKind,
+        node: TableNode | FieldNode,
+        width: number,
+        height: number
+    ): d3.Selection<SVGForeignObjectElement, any, null, undefined> {
+        const foreignObject = parent.append('foreignObject')
+            .attr('class', `render-slot ${kind}-slot`)
+            .attr('width', width)
+            .attr('height', height);
+        const element = foreignObject.append('xhtml:div')
+            .style('width', '100%')
+            .style('height', '100%')
+            .node() as HTMLDivElement;
+        this.slotElements.set(`${kind}:${node.id}`, { kind, node, element });
+        return foreignObject;
+    }
+
+    // Sends the host every mounted slot with its node's current state, unless none of them changed
+    // since the last call; slots whose element was removed from the map are dropped
+    private publishSlots(): void {
+        if (!this.slotHost) return;
+
+        const slots: RenderSlot[] = [];
+        this.slotElements.forEach((slot, key) => {
+            if (!slot.element.isConnected) {
+                this.slotElements.delete(key);
+                return;
+            }
+            const id = slot.node.id;
+            slots.push({
+                key,
+                ...slot,
+                expanded: this.expandedTables.has(id),
+                selected: this.selectedField === id,
+                highlight: this.highlightedRelatedFields.has(id) ? 'upstream' :
+                    this.highlightedDownstreamFields.has(id) ? 'downstream' : null,
+                issues: this.issuesByNode.get(id) || NO_ISSUES
+            });
+        });
+        if (sameSlots(slots, this.publishedSlots)) return;
+        this.publishedSlots = slots;
+        this.slotHost.onSlotsChange(slots);
+    }
+
+    private getThemeClass(): string {
+        return `lineage-map-${this.instanceId}`;
+    }
+
+    // Writes the theme's custom properties for this map; rendered elements only refer to them
+    private applyTheme(): void {
+        const scope = `.${this.getThemeClass()}`;
+        this.themeStyle?.text(`${themeToCss(scope, this.theme)}\n${LineageMap.getLowDetailCss(scope)}`);
+    }
+
+    // Switches theme in place. Colors, fonts and shadows update through the custom properties;
+    // radii are attributes, so a change there redraws the nodes.
+    setTheme(theme: ThemeName | LineageTheme): void {
+        const previous = this.theme;
+        this.options.theme = theme;
+        this.theme = resolveTheme(theme);
+        this.applyTheme();
+
+        if (JSON.stringify(previous.radii) !== JSON.stringify(this.theme.radii)) {
+            this.renderedSignatures = new WeakMap();
+            this.layoutKey = null;
+            if (this.currentGraph) {
+                this.render(this.currentGraph);
+            }
+        }
+    }
 
-                // Check if there are edges that aren't used in the transformation
-                incomingFields.forEach(sourceField => {
-                    if (!referencedFieldSet.has(sourceField)) {
-                        errors.push(`Field "${sourceField}" has an edge but isn't used in the transformation.`);
+    private initSearchOverlay(): void {
+        const container = this.prepareOverlayContainer();
+
+        const overlay = container.append('div')
+            .attr('class', 'lineage-search')
+            .style('position', 'absolute')
+            .style('top', '12px')
+            .style('right', '12px')
+            .style('display', 'flex')
+            .style('align-items', 'center')
+            .style('gap', '4px')
+            .style('padding', '4px')
+            .style('background', themeColor('surface'))
+            .style('border', `1px solid ${themeColor('border')}`)
+            .style('border-radius', '6px')
+            .style('filter', themeShadow('popup'))
+            .style('color', themeColor('text'))
+            .style('font-family', themeFont('body'))
+            .style('font-size', '12px') as d3.Selection<HTMLDivElement, unknown, null, undefined>;
+
+        overlay.append('input')
+            .attr('class', 'lineage-search-input')
+            .attr('type', 'search')
+            .attr('placeholder', 'Search tables and fields')
+            .style('width', '180px')
+            .style('border', 'none')
+            .style('outline', 'none')
+            .style('background', 'transparent')
+            .style('color', 'inherit')
+            .style('font', 'inherit')
+            .on('input', (event: Event) => {
+                this.search((event.target as HTMLInputElement).value);
+            })
+            .on('keydown', (event: KeyboardEvent) => {
+                if (event.key === 'Enter') {
+                    event.preventDefault();
+                    if (event.shiftKey) {
+                        this.previousSearchResult();
+                    } else {
+                        this.nextSearchResult();
                     }
-                });
+                } else if (event.key === 'Escape') {
+                    this.clearSearch();
+                }
+            });
+
+        overlay.append('span')
+            .attr('class', 'lineage-search-count')
+            .style('color', themeColor('textMuted'))
+            .style('min-width', '36px')
+            .style('text-align', 'right');
+
+        const addButton = (label: string, title: string, onClick: () => void) => {
+            overlay.append('button')
+                .attr('type', 'button')
+                .attr('title', title)
+                .style('border', `1px solid ${themeColor('controlBorder')}`)
+                .style('border-radius', '4px')
+                .style('background', themeColor('controlSurface'))
+                .style('color', themeColor('textMuted'))
+                .style('cursor', 'pointer')
+                .text(label)
+                .on('click', onClick);
+        };
+        addButton('‹', 'Previous match', () => this.previousSearchResult());
+        addButton('›', 'Next match', () => this.nextSearchResult());
+
+        this.searchOverlay = overlay;
+        this.updateSearchOverlay();
+    }
+
+    private updateSearchOverlay(): void {
+        if (!this.searchOverlay) return;
+
+        const input = this.searchOverlay.select<HTMLInputElement>('.lineage-search-input').node();
+        if (input && input.value !== this.searchQuery) {
+            input.value = this.searchQuery;
+        }
 
-                if (errors.length > 0) {
-                    this.validationErrors.set(node.id, errors);
+        const count = this.searchResults.length;
+        this.searchOverlay.select('.lineage-search-count')
+            .text(!this.searchQuery ? '' : count === 0 ? '0/0' : `${this.searchIndex + 1}/${count}`);
+    }
+
+    // Panel listing the shown path hop by hop, open in path mode and while a path is shown
+    private updatePathOverlay(): void {
+        if (!this.pathMode && !this.activePath) {
+            this.pathOverlay?.remove();
+            this.pathOverlay = null;
+            return;
+        }
+        const overlay = this.pathOverlay || this.initPathOverlay();
+        overlay.select<HTMLInputElement>('.lineage-path-shortest').property('checked', this.options.shortestPathOnly);
+
+        const index = this.currentGraph ? getGraphIndex(this.currentGraph) : null;
+        const name = (id: string) => index ? getQualifiedName(index, id) : id;
+        const body = overlay.select<HTMLDivElement>('.lineage-path-body');
+        body.selectAll('*').remove();
+
+        const path = this.activePath;
+        if (!path) {
+            body.append('div')
+                .style('color', themeColor('textMuted'))
+                .text(this.pathSource ? `From ${name(this.pathSource)}: click the other field` : 'Click the first field');
+            return;
+        }
+        body.append('div')
+            .style('color', themeColor('textMuted'))
+            .text(this.currentGraph ? this.describePath(this.currentGraph, path) : '');
+
+        path.paths.forEach((steps, i) => {
+            if (path.paths.length > 1) {
+                body.append('div')
+                    .style('margin-top', '8px')
+                    .style('font-weight', 'bold')
+                    .text(`Path ${i + 1}`);
+            }
+            const list = body.append('ol')
+                .attr('class', 'lineage-path-steps')
+                .style('margin', '4px 0 0')
+                .style('padding-left', '20px');
+            steps.forEach(step => {
+                const item = list.append('li')
+                    .style('margin-top', '4px')
+                    .style('cursor', 'pointer')
+                    .attr('title', 'Show in the map')
+                    .on('click', () => this.focusNode(step.target, 750, 1));
+                item.append('div').text(`${name(step.source)} → ${name(step.target)}`);
+                if (step.transformation) {
+                    item.append('code')
+                        .style('display', 'block')
+                        .style('white-space', 'pre-wrap')
+                        .style('color', themeColor('code'))
+                        .style('font-family', themeFont('mono'))
+                        .style('font-size', '11px')
+                        .text(step.transformation);
                 }
+            });
+        });
+    }
+
+    private initPathOverlay(): d3.Selection<HTMLDivElement, unknown, null, undefined> {
+        const container = this.prepareOverlayContainer();
+
+        const overlay = container.append('div')
+            .attr('class', 'lineage-path')
+            .attr('role', 'region')
+            .attr('aria-label', 'Path between fields')
+            .style('position', 'absolute')
+            .style('top', '12px')
+            .style('left', '12px')
+            .style('width', '280px')
+            .style('max-height', '60%')
+            .style('overflow', 'auto')
+            .style('padding', '8px')
+            .style('background', themeColor('surface'))
+            .style('border', `1px solid ${themeColor('border')}`)
+            .style('border-radius', '6px')
+            .style('filter', themeShadow('popup'))
+            .style('color', themeColor('text'))
+            .style('font-family', themeFont('body'))
+            .style('font-size', '12px') as d3.Selection<HTMLDivElement, unknown, null, undefined>;
+
+        const header = overlay.append('div')
+            .style('display', 'flex')
+            .style('align-items', 'center')
+            .style('gap', '8px')
+            .style('margin-bottom', '4px');
+        header.append('strong')
+            .style('flex', '1')
+            .text('Path');
+
+        const shortest = header.append('label')
+            .style('display', 'flex')
+            .style('align-items', 'center')
+            .style('gap', '4px')
+            .style('color', themeColor('textMuted'));
+        shortest.append('input')
+            .attr('class', 'lineage-path-shortest')
+            .attr('type', 'checkbox')
+            .on('change', (event: Event) => {
+                this.setShortestPathOnly((event.target as HTMLInputElement).checked);
+            });
+        shortest.append('span').text('Shortest only');
+
+        header.append('button')
+            .attr('type', 'button')
+            .attr('title', 'Close')
+            .attr('aria-label', 'Close')
+            .style('border', `1px solid ${themeColor('controlBorder')}`)
+            .style('border-radius', '4px')
+            .style('background', themeColor('controlSurface'))
+            .style('color', themeColor('textMuted'))
+            .style('cursor', 'pointer')
+            .text('×')
+            .on('click', () => {
+                this.setPathMode(false);
+                this.clearPath();
+            });
+
+        overlay.append('div')
+            .attr('class', 'lineage-path-body');
+
+        this.pathOverlay = overlay;
+        return overlay;
+    }
+
+    // Highlights every node matching the query; step through them with next/previousSearchResult
+    search(query: string): SearchResult[] {
+        this.searchQuery = query;
+        this.searchResults = this.currentGraph ? searchGraph(this.currentGraph, query) : [];
+        this.searchIndex = -1;
+        this.renderSearchHighlights();
+        this.updateSearchOverlay();
+        return this.searchResults;
+    }
+
+    nextSearchResult(): SearchResult | null {
+        return this.goToSearchResult(this.searchIndex + 1);
+    }
+
+    previousSearchResult(): SearchResult | null {
+        // Stepping back before the first result wraps to the last
+        return this.goToSearchResult(this.searchIndex <= 0 ? -1 : this.searchIndex - 1);
+    }
+
+    clearSearch(): void {
+        this.searchQuery = '';
+        this.searchResults = [];
+        this.searchIndex = -1;
+        this.renderSearchHighlights();
+        this.updateSearchOverlay();
+    }
+
+    private goToSearchResult(index: number): SearchResult | null {
+        const count = this.searchResults.length;
+        if (count === 0) return null;
+
+        this.searchIndex = ((index % count) + count) % count;
+        const result = this.searchResults[this.searchIndex];
+
+        const node = this.currentGraph ? getGraphIndex(this.currentGraph).nodes.get(result.nodeId) : undefined;
+        if (node?.type === 'field' && !this.expandedTables.has(node.tableId)) {
+            this.toggleTableExpansion(node.tableId);
+        }
+
+        this.renderSearchHighlights();
+        this.updateSearchOverlay();
+        this.focusNode(result.nodeId, 750, 1);
+        return result;
+    }
+
+    private renderSearchHighlights(): void {
+        const { tableWidth, tableHeight, fieldHeight } = this.options;
+        const index = this.currentGraph ? getGraphIndex(this.currentGraph) : null;
+        const current = this.searchResults[this.searchIndex]?.nodeId;
+
+        // Matches hidden in collapsed tables are shown on their table instead
+        const matches = new Set<string>();
+        this.searchResults.forEach(result => {
+            const node = index?.nodes.get(result.nodeId);
+            if (node?.type === 'field' && !this.expandedTables.has(node.tableId)) {
+                matches.add(node.tableId);
+            } else {
+                matches.add(result.nodeId);
             }
         });
 
-        return this.validationErrors;
+        this.nodeLayer.selectAll<SVGGElement, Node>('.node')
+            .each((d: Node, i: number, nodes: SVGGElement[] | ArrayLike<SVGGElement>) => {
+                const node = d3.select<SVGGElement, Node>(nodes[i]);
+                node.selectAll('.search-highlight').remove();
+                if (!matches.has(d.id)) return;
+
+                const isCurrent = d.id === current;
+                node.append('rect')
+                    .attr('class', 'search-highlight')
+                    .attr('x', -2)
+                    .attr('y', -2)
+                    .attr('width', tableWidth + 4)
+                    .attr('height', (d.type === 'table' ? tableHeight : fieldHeight) + 4)
+                    .attr('rx', this.theme.radii.table)
+                    .attr('fill', 'none')
+                    .style('stroke', themeColor(isCurrent ? 'searchCurrent' : 'searchMatch'))
+                    .attr('stroke-width', isCurrent ? 3 : 2)
+                    .style('pointer-events', 'none');
+            });
+    }
+
+    // Runs the built-in and custom validation rules, reusing the last result for an unchanged graph
+    public validate(graph: Graph): ValidationIssue[] {
+        if (graph === this.validatedGraph) {
+            return this.validationIssues;
+        }
+
+        this.validationIssues = runValidation(graph, this.options.validation, this.sqlAnalysis);
+        this.issuesByNode = groupIssuesByNode(this.validationIssues);
+        this.validatedGraph = graph;
+        this.callbacks.onValidate?.(this.validationIssues);
+        return this.validationIssues;
+    }
+
+    // Validation messages per node id; kept for callers of the original string-based API
+    public validateTransformations(graph: Graph): Map<string, string[]> {
+        this.validate(graph);
+        const messages = new Map<string, string[]>();
+        this.issuesByNode.forEach((issues, nodeId) => {
+            messages.set(nodeId, issues.map(issue => issue.message));
+        });
+        return messages;
+    }
+
+    getValidationIssues(): ValidationIssue[] {
+        return this.validationIssues;
+    }
+
+    private getNodeSeverity(nodeId: string): ValidationSeverity | null {
+        return getHighestSeverity(this.issuesByNode.get(nodeId) || []);
     }
 
     private renderTable(node: d3.Selection<SVGGElement, Node, null, undefined>, data: Node): void {
@@ -111,26 +753,18 @@ export class LineageMap {
 
         node.attr('data-table-id', data.id);
 
-        // Add drop shadow filter
         const defs = node.append('defs');
-        const dropShadowId = `dropShadow-${data.id}`;
-        defs.append('filter')
-            .attr('id', dropShadowId)
-            .append('feDropShadow')
-            .attr('dx', '0')
-            .attr('dy', '2')
-            .attr('stdDeviation', '3')
-            .attr('flood-opacity', '0.15');
+        const radius = this.theme.radii.table;
     
         // Add table background
         node.append('rect')
             .attr('width', tableWidth)
             .attr('height', tableHeight)
-            .attr('fill', '#ffffff')
-            .attr('stroke', '#E2E8F0')
+            .style('fill', themeColor('surface'))
+            .style('stroke', themeColor('border'))
             .attr('stroke-width', '1')
-            .attr('rx', 6)
-            .style('filter', `url(#${dropShadowId})`);
+            .attr('rx', radius)
+            .style('filter', themeShadow('table'));
     
         // Add table header with gradient
         const headerGradientId = `headerGradient-${data.id}`;
@@ -143,33 +777,57 @@ export class LineageMap {
         
         headerGradient.append('stop')
             .attr('offset', '0%')
-            .attr('stop-color', '#F8FAFC');
+            .style('stop-color', themeColor('headerStart'));
         
         headerGradient.append('stop')
             .attr('offset', '100%')
-            .attr('stop-color', '#F1F5F9');
+            .style('stop-color', themeColor('headerEnd'));
     
         node.append('rect')
             .attr('class', 'table-header clickable-area')
             .attr('width', tableWidth)
             .attr('height', tableHeight)
             .attr('fill', `url(#${headerGradientId})`)
-            .attr('stroke', '#E2E8F0')
-            .attr('rx', 6)
+            .style('stroke', themeColor('border'))
+            .attr('rx', radius)
             .attr('clip-path', `path('M0,0 h${tableWidth} v${tableHeight} h-${tableWidth} Z')`);
     
+        if (this.hasCustomRenderer('tableHeader')) {
+            // Clicks on the custom header still toggle the table unless its content stops them
+            this.mountSlot(node, 'tableHeader', data as TableNode, tableWidth, tableHeight)
+                .classed('table-header', true);
+            return;
+        }
+
         // Add table name
         node.append('text')
             .attr('class', 'clickable-area')
             .attr('x', 16)
             .attr('y', tableHeight / 2)
             .attr('dy', '0.35em')
-            .attr('fill', '#1E293B')
-            .style('font-family', '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif')
+            .style('fill', themeColor('text'))
+            .style('font-family', themeFont('body'))
             .style('font-size', '13px')
             .style('font-weight', '500')
             .text(data.name)
             .style('pointer-events', 'none');
+
+        // Mark tables that are part of a cycle
+        if (this.cyclicNodes.has(data.id)) {
+            const hasNote = 'note' in data && !!data.note;
+            node.append('text')
+                .attr('class', 'cycle-indicator')
+                .attr('x', tableWidth - (hasNote ? 44 : 20))
+                .attr('y', tableHeight / 2)
+                .attr('dy', '0.35em')
+                .attr('text-anchor', 'middle')
+                .style('fill', themeColor('warning'))
+                .style('font-family', themeFont('body'))
+                .style('font-size', '14px')
+                .text('↻')
+                .append('title')
+                .text('Part of a cycle');
+        }
     
         // Add info button only if there's a note
         if ('note' in data && data.note) {
@@ -185,9 +843,9 @@ export class LineageMap {
             infoButton.append('rect')
                 .attr('width', infoButtonSize)
                 .attr('height', infoButtonSize)
-                .attr('rx', 4)
-                .attr('fill', '#F8FAFC')
-                .attr('stroke', '#CBD5E1')
+                .attr('rx', this.theme.radii.control)
+                .style('fill', themeColor('controlSurface'))
+                .style('stroke', themeColor('controlBorder'))
                 .attr('stroke-width', '1');
     
             infoButton.append('text')
@@ -195,8 +853,8 @@ export class LineageMap {
                 .attr('y', infoButtonSize / 2)
                 .attr('text-anchor', 'middle')
                 .attr('dy', '0.35em')
-                .attr('fill', '#64748B')
-                .style('font-family', '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif')
+                .style('fill', themeColor('textMuted'))
+                .style('font-family', themeFont('body'))
                 .style('font-size', '12px')
                 .style('font-weight', '500')
                 .text('ⓘ')
@@ -204,11 +862,17 @@ export class LineageMap {
         }
     }
 
-    private showTableInfoPopup(table: TableNode): void {
+    showTableInfoPopup(table: TableNode): void {
         this.hideTransformationPopup(); // Hide any existing popups
 
         const pos = this.positions.get(table.id);
         if (!pos) return;
+        if (this.raisePinnedPopup('table-info-popup', table.id)) return;
+
+        if (this.hasCustomRenderer('popup')) {
+            this.showCustomPopup(table, 'table-info-popup');
+            return;
+        }
 
         // Create popup container
         const popup = this.mainGroup.append('g')
@@ -222,7 +886,7 @@ export class LineageMap {
 
         // Create temporary text element for measurements
         const tempText = popup.append('text')
-            .style('font-family', 'sans-serif')
+            .style('font-family', themeFont('body'))
             .style('font-size', '12px');
 
 
@@ -231,26 +895,8 @@ export class LineageMap {
 
         tempText.remove();
 
-        const { boxWidth, boxHeight, popupX, popupY } = this.calculatePopupPosition(table, lines, codeLineHeight, lineHeight, padding, maxWidth);
-
-        // Add semi-transparent overlay
-        popup.append('rect')
-            .attr('class', 'popup-overlay')
-            .attr('x', popupX)
-            .attr('y', popupY)
-            .attr('width', boxWidth)
-            .attr('height', boxHeight)
-            .attr('fill', 'rgba(255, 255, 255, 0.95)')
-            .attr('stroke', '#dee2e6')
-            .attr('rx', 4)
-            .attr('filter', 'drop-shadow(0 2px 4px rgba(0,0,0,0.1))');
-
-        // Add text
-        const textElement = popup.append('text')
-            .attr('x', popupX + padding)
-            .attr('y', popupY + padding + 12);
-    
-        this.formatPopupLines(lines, textElement, popupX, padding, codeLineHeight, lineHeight);
+        const box = this.calculatePopupPosition(table, lines, codeLineHeight, lineHeight, padding, maxWidth);
+        this.drawPopup(popup, lines, box, padding, codeLineHeight, lineHeight, table.id);
     }
 
     private generateNote(node: FieldNode | TableNode, textWidth: number, tempText: d3.Selection<SVGTextElement, unknown, null, undefined>): { text: string; isError: boolean; isCode?: boolean, extraSpace?: boolean }[] {
@@ -260,192 +906,717 @@ export class LineageMap {
         if (node.note) {
             lines.push({ text: `Note for ${node.name}: `, isError: false });
             lines.push({ text: '', isError: false, extraSpace: true });
-
-            const blocks = this.extractTextBlocks(node.note);
-            blocks.forEach((block, index) => {
-                if (index > 0) {
-                    // Add spacing between blocks
-                    lines.push({ text: '', isError: false });
-                }
-                if (block.type === 'sql') {
-                    // Format SQL blocks using monospace font and blue color
-                    lines.push(...this.formatSQLBlock(block.content));
-                } else {
-                    // Format regular text blocks
-                    lines.push(...this.formatTextBlock(block.content, textWidth, tempText));
-                }
-            });
+            lines.push(...this.formatNoteBlocks(node.note, textWidth, tempText));
         }
         return lines;
     }
 
-    private calculatePopupPosition(
-        node: Node, 
-        lines: PopupLine[], 
-        codeLineHeight: number, 
-        lineHeight: number, 
-        padding: number, 
-        maxWidth: number
-    ): { boxWidth: number, boxHeight: number, popupX: number, popupY: number } {
-        // Calculate box dimensions
+    // Text of a note as Markdown, with SQL and fenced code blocks set as code
+    private formatNoteBlocks(note: string, textWidth: number, tempText: d3.Selection<SVGTextElement, unknown, null, undefined>): PopupLine[] {
+        const lines: PopupLine[] = [];
+        extractTextBlocks(note).forEach((block, index) => {
+            if (index > 0) {
+                // Add spacing between blocks
+                lines.push({ text: '', isError: false });
+            }
+            if (block.type !== 'text') {
+                // Format SQL and code blocks using monospace font and blue color
+                lines.push(...this.formatSQLBlock(block.content, tempText));
+            } else {
+                // Format regular text blocks
+                lines.push(...this.formatTextBlock(block.content, textWidth, tempText));
+            }
+        });
+        return lines;
+    }
+
+    private getPopupSize(lines: PopupLine[], codeLineHeight: number, lineHeight: number, padding: number, maxWidth: number): { boxWidth: number, boxHeight: number } {
         const totalHeight = lines.reduce((acc, line) => {
             if (line.isCode) {
                 return acc + codeLineHeight;
             }
             return acc + (line.text ? lineHeight : lineHeight / 2);
-        }, 0);
+        }, LineageMap.getPopupHeaderOffset(padding));
     
-        const boxHeight = totalHeight + padding * 2;
+        // Long popups scroll rather than run off the screen
+        const maxHeight = this.options.popUpMaxHeight;
+        const boxHeight = maxHeight > 0 ? Math.min(totalHeight + padding * 2, maxHeight) : totalHeight + padding * 2;
         const boxWidth = Math.max(maxWidth,
-            Math.max(...lines.filter(l => l.isCode).map(l => l.text.length * 7)) + padding * 2
+            Math.max(...lines.filter(l => l.isCode).map(l => l.width !== undefined ? l.width : l.text.length * 7)) + padding * 2
         );
+        return { boxWidth, boxHeight };
+    }
+
+    private calculatePopupPosition(
+        node: Node, 
+        lines: PopupLine[], 
+        codeLineHeight: number, 
+        lineHeight: number, 
+        padding: number, 
+        maxWidth: number
+    ): PopupBox {
+        const { boxWidth, boxHeight } = this.getPopupSize(lines, codeLineHeight, lineHeight, padding, maxWidth);
     
-        // Find the corresponding group element and its bounding box
-        const group = node.type === "field" 
-            ? document.querySelector(`.field-group[data-field-id="${node.id}"]`) 
-            : document.querySelector(`g[data-table-id="${node.id}"]`);
-        if (!group) {
-            console.warn(`Group with id="${node.id}" not found`);
+        const rect = this.getPopupTarget(node.id);
+        if (!rect) {
+            console.warn(`Node with id="${node.id}" is not drawn`);
             return { boxWidth, boxHeight, popupX: 0, popupY: 0 };
         }
-        const bbox = group.getBoundingClientRect();
-    
-        // Get bounding box of the d3 canvas
+
+        // Right to left maps open popups on the left, away from the edges leaving the node.
+        // `popUpFloat` picks whether the popup rises above the row or hangs below it; either
+        // choice flips when the popup would leave the visible part of the map.
+        const sides = [rect.x + rect.width + 5, rect.x - boxWidth - 5];
+        if (this.options.orientation === 'RL') sides.reverse();
+        const rows = [rect.y + this.options.fieldHeight - boxHeight, rect.y];
+        if (this.options.popUpFloat !== 'high') rows.reverse();
+        return this.placePopup(sides, rows, boxWidth, boxHeight);
+    }
+
+    // The first candidate position that keeps the popup in view on each axis; when none does, the
+    // preferred one moved just far enough to fit
+    private placePopup(xs: number[], ys: number[], boxWidth: number, boxHeight: number): PopupBox {
         const svgNode = this.svg.node();
-        if (!svgNode) {
-            console.warn("SVG node is not available");
-            return { boxWidth, boxHeight, popupX: 0, popupY: 0 };
+        if (!svgNode || !svgNode.clientWidth || !svgNode.clientHeight) {
+            return { boxWidth, boxHeight, popupX: xs[0], popupY: ys[0] };
         }
-        const svgBbox = svgNode.getBoundingClientRect();
-    
-        // Get the current zoom/pan transformation
-        const transform = d3.zoomTransform(this.mainGroup.node() as SVGGraphicsElement);
-    
-        // Convert screen coordinates to SVG space
-        const popupX = transform.invertX(bbox.right - svgBbox.left) + 5;
-        const popupY = this.options.popUpFloat === "high" ? 
-            transform.invertY(bbox.top - svgBbox.top) - boxHeight + this.options.fieldHeight:
-            transform.invertY(bbox.top - svgBbox.top);
-    
-        return { boxWidth, boxHeight, popupX, popupY };
+        const viewport = this.getViewportBounds(svgNode);
+        const place = (candidates: number[], size: number, min: number, max: number) => {
+            const fitting = candidates.find(start => start >= min && start + size <= max);
+            return fitting !== undefined ? fitting : Math.max(min, Math.min(candidates[0], max - size));
+        };
+        return {
+            boxWidth,
+            boxHeight,
+            popupX: place(xs, boxWidth, viewport.x, viewport.x + viewport.width),
+            popupY: place(ys, boxHeight, viewport.y, viewport.y + viewport.height)
+        };
+    }
+
+    // Outline of the row or table header a popup points at. Fields of collapsed tables point at
+    // their table.
+    private getPopupTarget(nodeId: string): Bounds | null {
+        const node = this.currentGraph && getGraphIndex(this.currentGraph).nodes.get(nodeId);
+        if (!node) return null;
+        const { tableWidth, tableHeight, fieldHeight } = this.options;
+        if (node.type === 'field' && !this.expandedTables.has(node.tableId)) {
+            return this.getPopupTarget(node.tableId);
+        }
+        const pos = this.positions.get(node.id);
+        if (!pos) return null;
+        return { x: pos.x, y: pos.y, width: tableWidth, height: node.type === 'field' ? fieldHeight : tableHeight };
+    }
+
+    // Room above the first line for the pin and close buttons, beyond the popup's own padding
+    private static getPopupHeaderOffset(padding: number): number {
+        return Math.max(0, 18 - padding);
     }
 
-    private formatPopupLines(lines: PopupLine[], textElement: d3.Selection<SVGTextElement, unknown, null, undefined>, popupX: number, padding: number, codeLineHeight: number, lineHeight: number) {
+    // Draws the lines and returns how far the last baseline is below the first, along with where
+    // each code block starts so it can get a copy button
+    private formatPopupLines(
+        lines: PopupLine[],
+        textElement: d3.Selection<SVGTextElement, unknown, null, undefined>,
+        popupX: number,
+        padding: number,
+        codeLineHeight: number,
+        lineHeight: number
+    ): { height: number; codeBlocks: { y: number; text: string }[] } {
         let currentY = 0;
+        let baseline = 0;
+        const codeBlocks: { y: number; text: string }[] = [];
 
         lines.forEach((line) => {
             if (line.extraSpace) {
+                baseline += lineHeight;
                 textElement.append('tspan')
                     .attr('x', popupX + padding)
                     .attr('dy', lineHeight) // Move down one line
                     .text('\u00A0') // Non-breaking space
-                    .style('fill', 'white'); // Make it invisible
+                    .style('fill', 'transparent'); // Make it invisible
                 currentY += lineHeight * 2;
                 return;
             }
             
+            const dy = currentY === 0 ? 0 : (line.isCode ? codeLineHeight : lineHeight);
+            baseline += dy;
             const tspan = textElement.append('tspan')
-                .attr('x', popupX + padding)
-                .attr('dy', currentY === 0 ? 0 : (line.isCode ? codeLineHeight : lineHeight))
-                .text(line.text);
-    
+                .attr('x', popupX + padding + (line.indent || 0))
+                .attr('dy', dy);
+
+            if (line.spans) {
+                tspan.style('fill', themeColor('text'));
+                line.spans.forEach(span => {
+                    const part = LineageMap.styleSpan(tspan.append('tspan').text(span.text), span, line.heading);
+                    if (span.code) {
+                        part.style('fill', themeColor('code'));
+                    }
+                    if (span.href) {
+                        const href = span.href;
+                        part.attr('class', 'popup-link')
+                            .style('fill', themeColor('upstream'))
+                            .style('text-decoration', 'underline')
+                            .style('cursor', 'pointer')
+                            .style('pointer-events', 'auto')
+                            .on('click', (event: MouseEvent) => this.openLink(href, event))
+                            .append('title')
+                            .text(href);
+                    }
+                });
+                currentY += lineHeight;
+                return;
+            }
             if (line.isCode) {
+                // Indentation is kept, so formatted SQL lines up
                 tspan
-                    .style('font-family', 'monospace')
+                    .style('font-family', themeFont('mono'))
                     .style('font-size', '11px')
-                    .style('fill', '#2563eb'); // Blue color for code
+                    .style('fill', themeColor('code'))
+                    .style('white-space', 'pre');
+                if (line.copyText) {
+                    codeBlocks.push({ y: baseline, text: line.copyText });
+                }
+                if (line.lineNumber) {
+                    tspan.append('tspan')
+                        .attr('class', 'line-number')
+                        .style('fill', themeColor('textMuted'))
+                        .text(line.lineNumber);
+                }
+                if (line.tokens) {
+                    line.tokens.forEach(token => {
+                        tspan.append('tspan')
+                            .style('fill', LineageMap.SQL_TOKEN_COLORS[token.type])
+                            .style('font-style', token.type === 'comment' ? 'italic' : 'normal')
+                            .text(token.text);
+                    });
+                } else {
+                    tspan.append('tspan').text(line.text);
+                }
             } else {
                 tspan
-                    .style('font-family', 'sans-serif')
+                    .text(line.text)
+                    .style('font-family', themeFont('body'))
                     .style('font-size', '12px')
-                    .style('fill', line.isError ? '#ff9800' : '#1E293B');
+                    .style('fill', line.severity ? LineageMap.SEVERITY_COLORS[line.severity] :
+                        themeColor(line.isError ? 'warning' : 'text'));
             }
     
             currentY += line.isCode ? codeLineHeight : lineHeight;
         });
+        return { height: baseline, codeBlocks };
     }
 
-    private renderField(node: d3.Selection<SVGGElement, Node, null, undefined>, data: Node): void {
-        const { tableWidth, fieldHeight } = this.options;
+    // Box, text and buttons of a built-in popup. Content taller than the box is clipped and
+    // scrolls with the wheel or the scrollbar. Popups can be dragged, which pins them, and are
+    // joined to their target by a leader line once moved away from it.
+    private drawPopup(
+        popup: d3.Selection<SVGGElement, unknown, null, undefined>,
+        lines: PopupLine[],
+        box: PopupBox,
+        padding: number,
+        codeLineHeight: number,
+        lineHeight: number,
+        targetId: string,
+        target: Bounds | null = this.getPopupTarget(targetId),
+        stroke: string = themeColor('popupBorder')
+    ): void {
+        const { boxWidth, boxHeight, popupX, popupY } = box;
+        const state: PopupState = {
+            targetId,
+            target: target || { x: popupX, y: popupY, width: 0, height: 0 },
+            box,
+            offset: { x: 0, y: 0 },
+            pinned: false
+        };
+        const statePopup = popup.datum(state).attr('data-target-id', targetId);
 
-        // Create a group for the field
-        const fieldGroup = node.append('g')
-            .attr('class', 'field-group');
+        popup.append('line')
+            .attr('class', 'popup-leader')
+            .style('stroke', themeColor('textMuted'))
+            .attr('stroke-dasharray', '3,3')
+            .style('pointer-events', 'none');
+        const body = popup.append('g')
+            .attr('class', 'popup-body');
 
-        // Add field background
-        const background = fieldGroup.append('rect')
-            .attr('class', 'field-row')
-            .attr('width', tableWidth)
-            .attr('height', fieldHeight)
-            .attr('fill', this.highlightedRelatedFields.has(data.id) ? '#e3f2fd' : '#ffffff')
-            .attr('stroke', '#eeeeee')
-            .style('cursor', 'pointer');
+        // Add semi-transparent overlay
+        body.append('rect')
+            .attr('class', 'popup-overlay')
+            .attr('x', popupX)
+            .attr('y', popupY)
+            .attr('width', boxWidth)
+            .attr('height', boxHeight)
+            .style('fill', themeColor('popupSurface'))
+            .style('stroke', stroke)
+            .attr('rx', this.theme.radii.popup)
+            .style('filter', themeShadow('popup'))
+            .style('cursor', 'move');
+
+        const clipId = `lineage-popup-clip-${this.instanceId}-${++this.popupCount}`;
+        body.append('clipPath')
+            .attr('id', clipId)
+            .append('rect')
+            .attr('x', popupX)
+            .attr('y', popupY)
+            .attr('width', boxWidth)
+            .attr('height', boxHeight)
+            .attr('rx', this.theme.radii.popup);
 
-        // If there are validation errors, add a warning indicator
-        if (this.validationErrors.has(data.id)) {
-            background.attr('stroke', '#ff9800')
-                .attr('stroke-width', '2');
+        // The clip stays put while the content inside it moves
+        const content = body.append('g')
+            .attr('clip-path', `url(#${clipId})`)
+            .append('g')
+            .attr('class', 'popup-content');
 
-            fieldGroup.append('text')
-                .attr('class', 'warning-indicator')
-                .attr('x', tableWidth - 40)
-                .attr('y', fieldHeight / 2)
-                .attr('dy', '0.35em')
-                .attr('fill', '#ff9800')
-                .style('font-family', 'sans-serif')
-                .style('font-size', '11px')
-                .style('pointer-events', 'none')
-                .text('⚠');
+        const firstBaseline = popupY + LineageMap.getPopupHeaderOffset(padding) + padding + 12;
+        const textElement = content.append('text')
+            .attr('x', popupX + padding)
+            .attr('y', firstBaseline);
+    
+        const { height, codeBlocks } = this.formatPopupLines(lines, textElement, popupX, padding, codeLineHeight, lineHeight);
+
+        // Copy buttons sit on the line above their block, which is a label or a blank line
+        codeBlocks.forEach(block => {
+            this.drawCopyButton(content, block.text, popupX + boxWidth - padding / 2, firstBaseline + block.y - codeLineHeight);
+        });
+
+        const contentHeight = (firstBaseline - popupY) + height + padding;
+        if (contentHeight > boxHeight) {
+            this.makePopupScrollable(body, content, box, contentHeight);
         }
 
-        // Add field name
-        fieldGroup.append('text')
-            .attr('class', 'field-text')
-            .attr('x', 10)
-            .attr('y', fieldHeight / 2)
-            .attr('dy', '0.35em')
-            .attr('fill', '#666666')
-            .style('font-family', 'sans-serif')
-            .style('font-size', '11px')
-            .style('pointer-events', 'none')
-            .text(data.name);
+        this.drawPopupButtons(statePopup, body, box);
+        body.call(d3.drag<SVGGElement, unknown>()
+            .filter((event: MouseEvent) => !event.button &&
+                !(event.target as Element).closest('.popup-button, .copy-button, .popup-link, .popup-scrollbar'))
+            .subject((event: d3.D3DragEvent<SVGGElement, unknown, unknown>) => ({ x: event.x, y: event.y }))
+            .on('start', () => statePopup.raise())
+            .on('drag', (event: d3.D3DragEvent<SVGGElement, unknown, unknown>) => {
+                state.offset = { x: state.offset.x + event.dx, y: state.offset.y + event.dy };
+                this.setPopupPinned(statePopup, true);
+                this.positionPopup(statePopup);
+            }));
+        this.positionPopup(statePopup);
+    }
 
-        // Add transformation or note indicator
-        const fieldData = data as FieldNode;
-        if (fieldData.transformation || fieldData.note) {
-            const icon = fieldData.transformation ? 'ƒ' : 'ⓘ';
-            const color = this.validationErrors.has(data.id) ? '#ff9800' : '#666666';
+    // Pin and close buttons in the top right corner
+    private drawPopupButtons(
+        popup: d3.Selection<SVGGElement, PopupState, null, undefined>,
+        body: d3.Selection<SVGGElement, unknown, null, undefined>,
+        box: PopupBox
+    ): void {
+        const size = 14;
+        const buttons = [
+            { className: 'popup-pin', label: '📌', title: 'Pin', onClick: () => this.setPopupPinned(popup, !popup.datum().pinned) },
+            { className: 'popup-close', label: '×', title: 'Close', onClick: () => popup.remove() },
+        ];
+        buttons.forEach((button, index) => {
+            const group = body.append('g')
+                .attr('class', `popup-button ${button.className}`)
+                .attr('transform', `translate(${box.popupX + box.boxWidth - 4 - (buttons.length - index) * (size + 2)}, ${box.popupY + 3})`)
+                .attr('role', 'button')
+                .attr('tabindex', 0)
+                .attr('aria-label', button.title)
+                .style('cursor', 'pointer');
+
+            group.append('rect')
+                .attr('width', size)
+                .attr('height', size)
+                .attr('rx', this.theme.radii.control)
+                .style('fill', 'transparent');
+
+            group.append('text')
+                .attr('x', size / 2)
+                .attr('y', size / 2)
+                .attr('dy', '0.35em')
+                .attr('text-anchor', 'middle')
+                .style('fill', themeColor('textMuted'))
+                .style('font-family', themeFont('body'))
+                .style('font-size', '11px')
+                .style('pointer-events', 'none')
+                .text(button.label);
+
+            group.append('title').text(button.title);
+
+            // Keep the click away from the map, which would close unpinned popups
+            const activate = (event: Event) => {
+                event.preventDefault();
+                event.stopPropagation();
+                button.onClick();
+            };
+            group
+                .on('click', activate)
+                .on('keydown', (event: KeyboardEvent) => {
+                    if (event.key === 'Enter' || event.key === ' ') activate(event);
+                });
+        });
+        this.setPopupPinned(popup, popup.datum().pinned);
+    }
+
+    // Pinned popups stay open when the selection changes or other popups open
+    private setPopupPinned(popup: d3.Selection<SVGGElement, PopupState, null, undefined>, pinned: boolean): void {
+        popup.datum().pinned = pinned;
+        popup.classed('pinned', pinned);
+        popup.select('.popup-pin')
+            .attr('aria-pressed', pinned)
+            .attr('aria-label', pinned ? 'Unpin' : 'Pin')
+            .style('opacity', pinned ? 1 : 0.45)
+            .select('title')
+            .text(pinned ? 'Unpin' : 'Pin');
+    }
+
+    private positionPopup(popup: d3.Selection<SVGGElement, PopupState, null, undefined>): void {
+        const { target, box, offset } = popup.datum();
+        popup.select('.popup-body').attr('transform', `translate(${offset.x}, ${offset.y})`);
+
+        // From the point of the target nearest the popup's center to the nearest point of the popup
+        const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+        const left = box.popupX + offset.x;
+        const top = box.popupY + offset.y;
+        const from = {
+            x: clamp(left + box.boxWidth / 2, target.x, target.x + target.width),
+            y: clamp(top + box.boxHeight / 2, target.y, target.y + target.height)
+        };
+        const to = {
+            x: clamp(from.x, left, left + box.boxWidth),
+            y: clamp(from.y, top, top + box.boxHeight)
+        };
+        popup.select('.popup-leader')
+            .attr('x1', from.x)
+            .attr('y1', from.y)
+            .attr('x2', to.x)
+            .attr('y2', to.y)
+            .attr('visibility', Math.hypot(to.x - from.x, to.y - from.y) > 8 ? 'visible' : 'hidden');
+    }
+
+    // Brings an existing pinned popup for `targetId` to the front instead of opening another
+    private raisePinnedPopup(className: string, targetId: string): boolean {
+        const pinned = this.mainGroup.selectAll<SVGGElement, PopupState>(`.${className}.pinned`)
+            .filter(d => d.targetId === targetId);
+        pinned.raise();
+        return !pinned.empty();
+    }
+
+    // Pinned popups follow their target when the layout changes, and close when it is gone
+    private updatePinnedPopups(): void {
+        this.mainGroup.selectAll<SVGGElement, PopupState>('.pinned').each((state, i, groups) => {
+            const popup = d3.select<SVGGElement, PopupState>(groups[i]);
+            const target = popup.classed('edge-popup')
+                ? (this.edgePaths.some(d => d.id === state.targetId) ? state.target : null)
+                : this.getPopupTarget(state.targetId);
+            if (!target) {
+                popup.remove();
+                return;
+            }
+            state.offset = {
+                x: state.offset.x + target.x - state.target.x,
+                y: state.offset.y + target.y - state.target.y
+            };
+            state.target = target;
+            this.positionPopup(popup);
+        });
+    }
+
+    private drawCopyButton(
+        parent: d3.Selection<SVGGElement, unknown, null, undefined>,
+        text: string,
+        right: number,
+        baseline: number
+    ): void {
+        const width = 40;
+        const height = 16;
+        const button = parent.append('g')
+            .attr('class', 'copy-button')
+            .attr('transform', `translate(${right - width}, ${baseline - height + 4})`)
+            .attr('role', 'button')
+            .attr('tabindex', 0)
+            .attr('aria-label', 'Copy SQL to clipboard')
+            .style('cursor', 'pointer');
+
+        button.append('rect')
+            .attr('width', width)
+            .attr('height', height)
+            .attr('rx', this.theme.radii.control)
+            .style('fill', themeColor('controlSurface'))
+            .style('stroke', themeColor('controlBorder'));
+
+        const label = button.append('text')
+            .attr('x', width / 2)
+            .attr('y', height / 2)
+            .attr('dy', '0.35em')
+            .attr('text-anchor', 'middle')
+            .style('fill', themeColor('textMuted'))
+            .style('font-family', themeFont('body'))
+            .style('font-size', '10px')
+            .style('pointer-events', 'none')
+            .text('Copy');
+
+        const copy = (event: Event) => {
+            // Keep the popup open and the key away from map navigation
+            event.preventDefault();
+            event.stopPropagation();
+            this.copyToClipboard(text).then(copied => {
+                label.text(copied ? 'Copied' : 'Failed');
+                this.announce(copied ? 'SQL copied to clipboard' : 'Could not copy SQL');
+                setTimeout(() => label.text('Copy'), 1500);
+            });
+        };
+        button
+            .on('click', copy)
+            .on('keydown', (event: KeyboardEvent) => {
+                if (event.key === 'Enter' || event.key === ' ') copy(event);
+            });
+    }
+
+    private copyToClipboard(text: string): Promise<boolean> {
+        if (typeof navigator === 'undefined' || !navigator.clipboard) return Promise.resolve(false);
+        return navigator.clipboard.writeText(text).then(() => true, () => false);
+    }
+
+    private makePopupScrollable(
+        popup: d3.Selection<SVGGElement, unknown, null, undefined>,
+        content: d3.Selection<SVGGElement, unknown, null, undefined>,
+        box: PopupBox,
+        contentHeight: number
+    ): void {
+        const { boxWidth, boxHeight, popupX, popupY } = box;
+        const maxScroll = contentHeight - boxHeight;
+        // The scrollbar runs below the pin and close buttons
+        const trackTop = popupY + 20;
+        const track = boxHeight - 22;
+        const thumbHeight = Math.max(20, track * boxHeight / contentHeight);
+
+        const thumb = popup.append('rect')
+            .attr('class', 'popup-scrollbar')
+            .attr('x', popupX + boxWidth - 6)
+            .attr('width', 4)
+            .attr('height', thumbHeight)
+            .attr('rx', 2)
+            .style('fill', themeColor('controlBorder'))
+            .style('cursor', 'pointer')
+            // A click that ends a drag would otherwise close the popup
+            .on('click', (event: MouseEvent) => event.stopPropagation());
+
+        let scrollTop = 0;
+        const scrollTo = (value: number) => {
+            scrollTop = Math.max(0, Math.min(maxScroll, value));
+            content.attr('transform', `translate(0, ${-scrollTop})`);
+            thumb.attr('y', trackTop + (track - thumbHeight) * (scrollTop / maxScroll));
+        };
+
+        // Wheel events over the popup scroll it instead of zooming the map
+        popup.on('wheel', (event: WheelEvent) => {
+            event.preventDefault();
+            event.stopPropagation();
+            scrollTo(scrollTop + event.deltaY * (event.deltaMode === 1 ? 16 : 1));
+        });
+        thumb.call(d3.drag<SVGRectElement, unknown>()
+            .on('drag', (event: d3.D3DragEvent<SVGRectElement, unknown, unknown>) => {
+                scrollTo(scrollTop + event.dy * maxScroll / Math.max(track - thumbHeight, 1));
+            }));
+        scrollTo(0);
+    }
+
+    private renderField(node: d3.Selection<SVGGElement, Node, null, undefined>, data: Node): void {
+        const { tableWidth, fieldHeight } = this.options;
+
+        // Create a group for the field
+        const fieldGroup = node.append('g')
+            .attr('class', 'field-group');
+
+        // Add field background
+        const background = fieldGroup.append('rect')
+            .attr('class', 'field-row')
+            .attr('width', tableWidth)
+            .attr('height', fieldHeight)
+            .style('fill', themeColor(this.highlightedRelatedFields.has(data.id) ? 'upstreamSurface' :
+                this.highlightedDownstreamFields.has(data.id) ? 'downstreamSurface' : 'surface'))
+            .style('stroke', themeColor('fieldBorder'))
+            .style('cursor', 'pointer');
+
+        // If there are validation issues, add an indicator for the most severe one.
+        // Info issues don't change the outline.
+        const severity = this.getNodeSeverity(data.id);
+        if (severity) {
+            if (severity !== 'info') {
+                background.style('stroke', LineageMap.SEVERITY_COLORS[severity])
+                    .attr('stroke-width', '2');
+            }
+
+            fieldGroup.append('text')
+                .attr('class', `validation-indicator ${severity}-indicator`)
+                .attr('x', tableWidth - 40)
+                .attr('y', fieldHeight / 2)
+                .attr('dy', '0.35em')
+                .style('fill', LineageMap.SEVERITY_COLORS[severity])
+                .style('font-family', themeFont('body'))
+                .style('font-size', '11px')
+                .style('pointer-events', 'none')
+                .text(SEVERITY_ICONS[severity]);
+        }
+
+        // The row's background stays so highlights show through transparent custom content
+        if (this.hasCustomRenderer('fieldRow')) {
+            this.mountSlot(fieldGroup, 'fieldRow', data as FieldNode, tableWidth, fieldHeight);
+            return;
+        }
+
+        // Key badges go before the name
+        const fieldData = data as FieldNode;
+        const keyBadges = [
+            fieldData.isPrimaryKey ? { label: 'PK', className: 'primary-key-badge', color: themeColor('primaryKey') } : null,
+            fieldData.isForeignKey ? { label: 'FK', className: 'foreign-key-badge', color: themeColor('foreignKey') } : null,
+        ].filter(badge => badge !== null);
+        keyBadges.forEach((badge, index) => {
+            fieldGroup.append('text')
+                .attr('class', `key-badge ${badge.className}`)
+                .attr('x', 8 + index * 15)
+                .attr('y', fieldHeight / 2)
+                .attr('dy', '0.35em')
+                .style('fill', badge.color)
+                .style('font-family', themeFont('body'))
+                .style('font-size', '8px')
+                .style('font-weight', '700')
+                .style('pointer-events', 'none')
+                .text(badge.label);
+        });
+
+        // Add field name
+        fieldGroup.append('text')
+            .attr('class', 'field-text')
+            .attr('x', keyBadges.length > 0 ? 10 + keyBadges.length * 15 : 10)
+            .attr('y', fieldHeight / 2)
+            .attr('dy', '0.35em')
+            .style('fill', themeColor('fieldText'))
+            .style('font-family', themeFont('body'))
+            .style('font-size', '11px')
+            .style('pointer-events', 'none')
+            .text(data.name);
+
+        // Data type, right-aligned before the indicators
+        const hasIndicator = !!(fieldData.transformation || fieldData.note || fieldData.description);
+        if (fieldData.dataType) {
+            fieldGroup.append('text')
+                .attr('class', 'data-type')
+                .attr('x', severity ? tableWidth - 44 : hasIndicator ? tableWidth - 24 : tableWidth - 8)
+                .attr('y', fieldHeight / 2)
+                .attr('dy', '0.35em')
+                .attr('text-anchor', 'end')
+                .style('fill', themeColor('textMuted'))
+                .style('font-family', themeFont('mono'))
+                .style('font-size', '9px')
+                .style('pointer-events', 'none')
+                .text(formatDataType(fieldData));
+        }
+
+        // Add transformation or note indicator
+        if (hasIndicator) {
+            const icon = fieldData.transformation ? 'ƒ' : 'ⓘ';
+            const color = severity && severity !== 'info' ? LineageMap.SEVERITY_COLORS[severity] : themeColor('fieldText');
 
             fieldGroup.append('text')
                 .attr('class', fieldData.transformation ? 'transform-indicator' : 'note-indicator')
                 .attr('x', tableWidth - 20)
                 .attr('y', fieldHeight / 2)
                 .attr('dy', '0.35em')
-                .attr('fill', color)
-                .style('font-family', 'sans-serif')
+                .style('fill', color)
+                .style('font-family', themeFont('body'))
                 .style('font-size', '11px')
                 .style('pointer-events', 'none')
                 .text(icon);
         }
     }
 
+    private static hasMetadata(field: FieldNode): boolean {
+        return !!(field.dataType || field.description || field.isPrimaryKey || field.isForeignKey) ||
+            field.nullable !== undefined;
+    }
+
+    private formatMetadata(field: FieldNode, textWidth: number, tempText: d3.Selection<SVGTextElement, unknown, null, undefined>): PopupLine[] {
+        if (!LineageMap.hasMetadata(field)) return [];
+
+        const lines: PopupLine[] = [{ text: 'Column:', isError: false }];
+        if (field.dataType) {
+            lines.push({ text: `Type: ${field.dataType}`, isError: false });
+        }
+        const keys = [field.isPrimaryKey ? 'primary key' : null, field.isForeignKey ? 'foreign key' : null]
+            .filter(key => key !== null);
+        if (keys.length > 0) {
+            lines.push({ text: `Key: ${keys.join(', ')}`, isError: false });
+        }
+        if (field.nullable !== undefined) {
+            lines.push({ text: `Nullable: ${field.nullable ? 'yes' : 'no'}`, isError: false });
+        }
+        if (field.description) {
+            lines.push(...this.formatTextBlock(field.description, textWidth, tempText));
+        }
+        return lines;
+    }
+
     handleFieldClick(graph: Graph, fieldId: string) {
-        const field = graph.nodes.find(n => n.id === fieldId);
+        const field = getGraphIndex(graph).nodes.get(fieldId);
         if (!(field && 'tableId' in field)) return;
     
         // Narrowing `field` to a specific type
         const fieldNode = field as FieldNode;
+        this.callbacks.onFieldClick?.(fieldNode);
+
+        if (this.pathMode) {
+            this.pickPathField(fieldId);
+            return;
+        }
     
-        if (this.selectedField === fieldId) {
-            // Deselect if clicking the same field
-            this.selectedField = null;
-            this.hideTransformationPopup();
-        } else {
-            this.selectedField = fieldId;
-            this.showTransformationPopup(fieldNode, graph);
-            this.highlightedRelatedFields = this.getRelatedFields(graph, fieldId);
-            this.renderHighlights(fieldId);
+        // Deselect if clicking the same field
+        this.requestSelection(this.selectedField === fieldId ? null : fieldId);
+    }
+
+    setCallbacks(callbacks: LineageMapCallbacks): void {
+        this.callbacks = callbacks;
+    }
+
+    // When selection or expansion is controlled, user interactions only report the
+    // requested change through the callbacks and the owner applies it via selectField
+    // or setExpandedTables.
+    setControlled(controlled: { selection?: boolean; expansion?: boolean }): void {
+        this.selectionControlled = !!controlled.selection;
+        this.expansionControlled = !!controlled.expansion;
+    }
+
+    getSelectedField(): string | null {
+        return this.selectedField;
+    }
+
+    getExpandedTables(): string[] {
+        return Array.from(this.expandedTables);
+    }
+
+    private requestSelection(fieldId: string | null): void {
+        if (fieldId === this.selectedField) return;
+        this.callbacks.onSelectionChange?.(fieldId);
+        if (!this.selectionControlled) {
+            this.selectField(fieldId);
+        }
+    }
+
+    selectField(fieldId: string | null): void {
+        if (fieldId === null) {
+            this.hideFieldDetails();
+            return;
         }
+
+        const graph = this.currentGraph;
+        if (!graph) return;
+        const field = getGraphIndex(graph).nodes.get(fieldId);
+        if (field?.type !== 'field') return;
+
+        this.selectedField = fieldId;
+        this.showTransformationPopup(field, graph);
+        this.updateHighlightedFields(graph, fieldId);
+        this.renderHighlights(fieldId);
+        this.announce(this.describeLineage(graph, field));
+    }
+
+    clearSelection(): void {
+        this.requestSelection(null);
     }
 
     wrapText(
@@ -511,82 +1682,125 @@ export class LineageMap {
         return lines;
     }
 
-    private extractTextBlocks(text: string): { type: 'sql' | 'text', content: string }[] {
-        const blocks: { type: 'sql' | 'text', content: string }[] = [];
-        
-        // Convert to lowercase for case-insensitive matching but keep original for content
-        const lowerText = text.toLowerCase();
-        let currentPos = 0;
-    
-        while (true) {
-            const startTag = lowerText.indexOf(LineageMap.SQL_START_TAG, currentPos);
-            if (startTag === -1) {
-                // Add remaining text if there's any
-                const remaining = text.slice(currentPos).trim();
-                if (remaining) {
-                    blocks.push({ type: 'text', content: remaining });
-                }
-                break;
-            }
-    
-            // Add text before SQL block if there's any
-            const beforeSql = text.slice(currentPos, startTag).trim();
-            if (beforeSql) {
-                blocks.push({ type: 'text', content: beforeSql });
-            }
-    
-            // Find the end of SQL block
-            const sqlStart = startTag + LineageMap.SQL_START_TAG.length;
-            const endTag = lowerText.indexOf(LineageMap.SQL_END_TAG, sqlStart);
-            
-            if (endTag === -1) {
-                // If no end tag, treat rest as text
-                const remaining = text.slice(currentPos).trim();
-                if (remaining) {
-                    blocks.push({ type: 'text', content: remaining });
-                }
-                break;
-            }
-    
-            // Extract SQL content
-            const sql = text.slice(sqlStart, endTag).trim();
-            if (sql) {
-                blocks.push({ type: 'sql', content: sql });
-            }
-    
-            currentPos = endTag + LineageMap.SQL_END_TAG.length;
-        }
-    
-        return blocks;
-    }
-    
     private formatTextBlock(text: string, maxWidth: number, tempText: d3.Selection<SVGTextElement, unknown, null, undefined>): PopupLine[] {
-        // Split text by newline characters
-        const paragraphs = text.split('\n');
+        // Every line of the text is its own paragraph, heading or list item
+        const lines = parseMarkdownLines(text);
         const result: PopupLine[] = [];
     
-        for (let i = 0; i < paragraphs.length; i++) {
-            // For non-empty paragraphs, wrap text to fit inside popup
-            if (paragraphs[i].trim() !== '') {
-                const wrappedLines = this.wrapText(paragraphs[i], maxWidth, tempText, false)
-                    .map(line => ({ ...line, isCode: false }));
-                result.push(...wrappedLines);
-            } else {
+        lines.forEach((line, i) => {
+            if (line.type === 'blank') {
                 // For empty paragraphs (just \n with nothing else), still add an empty line
                 result.push({ text: '', isError: false, isCode: false, extraSpace: true });
+            } else if (line.type === 'listItem') {
+                result.push(...this.wrapSpans(line.spans, maxWidth, tempText, `${line.marker} `));
+            } else {
+                result.push(...this.wrapSpans(line.spans, maxWidth, tempText, '', line.type === 'heading' ? line.level : undefined));
             }
-            
-            // Add an empty line between paragraphs (except after the last one)
-            if (i < paragraphs.length - 1) {
+
+            // Add an empty line between paragraphs (except after the last one); items of a list stay together
+            const next = lines[i + 1];
+            if (next && !(line.type === 'listItem' && next.type === 'listItem')) {
                 result.push({ text: '', isError: false, isCode: false });
             }
-        }
+        });
         
         return result;
     }
+
+    // Wraps formatted text to `maxWidth`. A `prefix` such as a list marker goes before the first
+    // line and the following lines are indented to line up after it.
+    private wrapSpans(
+        spans: PopupSpan[],
+        maxWidth: number,
+        tempText: d3.Selection<SVGTextElement, unknown, null, undefined>,
+        prefix: string = '',
+        heading?: number
+    ): PopupLine[] {
+        const measure = tempText.append('tspan');
+        const getWidth = (span: PopupSpan) => {
+            LineageMap.styleSpan(measure.text(span.text), span, heading);
+            return measure.node()?.getComputedTextLength() || 0;
+        };
+
+        // Words keep the style of the span they came from; a word may span several styles
+        const words: PopupSpan[][] = [[]];
+        spans.forEach(span => {
+            span.text.split(/(\s+)/).forEach((part, index) => {
+                if (index % 2 === 1) {
+                    words.push([]);
+                } else if (part) {
+                    words[words.length - 1].push({ ...span, text: part });
+                }
+            });
+        });
+
+        const space = getWidth({ text: ' ' });
+        const indent = prefix ? getWidth({ text: prefix }) : 0;
+        const lines: PopupLine[] = [];
+        let line: PopupSpan[] = prefix ? [{ text: prefix }] : [];
+        let lineWidth = indent;
+        const pushLine = () => {
+            lines.push({
+                text: line.map(span => span.text).join(''),
+                isError: false,
+                isCode: false,
+                spans: line,
+                indent: lines.length > 0 ? indent : 0,
+                heading
+            });
+        };
+
+        words.filter(word => word.length > 0).forEach(word => {
+            const wordWidth = word.reduce((sum, span) => sum + getWidth(span), 0);
+            if (lineWidth > indent && lineWidth + space + wordWidth > maxWidth) {
+                // Too long words still get a line of their own
+                pushLine();
+                line = [];
+                lineWidth = indent;
+            }
+            if (lineWidth > indent) {
+                line.push({ ...word[0], text: ' ' });
+                lineWidth += space;
+            }
+            line.push(...word);
+            lineWidth += wordWidth;
+        });
+        if (line.length > 0) pushLine();
+
+        measure.remove();
+        return lines;
+    }
+
+    private static readonly HEADING_FONT_SIZES = [16, 14, 13];
+
+    // Font of a run of popup text
+    private static styleSpan(
+        tspan: d3.Selection<SVGTSpanElement, unknown, null, undefined>,
+        span: PopupSpan,
+        heading?: number
+    ): d3.Selection<SVGTSpanElement, unknown, null, undefined> {
+        const fontSize = heading ? LineageMap.HEADING_FONT_SIZES[Math.min(heading, 3) - 1] : 12;
+        return tspan
+            .style('font-family', themeFont(span.code ? 'mono' : 'body'))
+            .style('font-size', `${span.code ? fontSize - 1 : fontSize}px`)
+            .style('font-weight', span.bold || heading ? '600' : 'normal')
+            .style('font-style', span.italic ? 'italic' : 'normal');
+    }
+
+    // Links call `onLinkClick` when given and otherwise open in a new tab
+    private openLink(href: string, event: MouseEvent): void {
+        event.stopPropagation();
+        if (this.callbacks.onLinkClick) {
+            this.callbacks.onLinkClick(href, event);
+        } else {
+            window.open(href, '_blank', 'noopener,noreferrer');
+        }
+    }
     
-    private formatSQLBlock(sql: string): PopupLine[] {
-        return sql.split('\n')
+    // Highlighted SQL lines, measured so the popup fits the longest. Blocks of more than one line
+    // are numbered, and the first line carries the whole block for the copy button.
+    private formatSQLBlock(sql: string, tempText: d3.Selection<SVGTextElement, unknown, null, undefined>): PopupLine[] {
+        const text = (this.options.formatSql ? formatSql(sql) : sql).split('\n')
             .reduce((acc: string[], line: string) => {
                 const trimmedLine = line.trimRight();
                 if (acc.length === 0 || !(trimmedLine === '' && acc[acc.length - 1] === '')) {
@@ -594,20 +1808,50 @@ export class LineageMap {
                 }
                 return acc;
             }, [])
-            .map(line => ({
-                text: line,
+            .join('\n');
+
+        const tokenLines = highlightSqlLines(text);
+        const numbered = this.options.sqlLineNumbers && tokenLines.length > 1;
+        const digits = String(tokenLines.length).length;
+        const measure = tempText.append('tspan')
+            .style('font-family', themeFont('mono'))
+            .style('font-size', '11px')
+            .style('white-space', 'pre');
+
+        const lines = tokenLines.map((tokens, index): PopupLine => {
+            const lineText = tokens.map(token => token.text).join('');
+            const lineNumber = numbered ? `${String(index + 1).padStart(digits)}  ` : undefined;
+            measure.text(`${lineNumber || ''}${lineText}`);
+            return {
+                text: lineText,
                 isError: false,
-                isCode: true
-            }));
+                isCode: true,
+                tokens,
+                lineNumber,
+                width: measure.node()?.getComputedTextLength() || 0,
+                copyText: index === 0 ? text : undefined
+            };
+        });
+        measure.remove();
+        return lines;
     }
     
     private showTransformationPopup(field: FieldNode, graph: Graph) {
         this.hideTransformationPopup();
+
+        // A custom popup decides for itself what to show for every field
+        if (this.hasCustomRenderer('popup')) {
+            if (this.getFieldPosition(field.id)) {
+                this.showCustomPopup(field, 'transformation-popup');
+            }
+            return;
+        }
     
-        if (!field.transformation && !field.note) return;
+        if (!field.transformation && !field.note && !this.issuesByNode.has(field.id) && !LineageMap.hasMetadata(field)) return;
     
         const pos = this.getFieldPosition(field.id);
         if (!pos) return;
+        if (this.raisePinnedPopup('transformation-popup', field.id)) return;
     
         // Create popup container
         const popup = this.mainGroup.append('g')
@@ -621,10 +1865,14 @@ export class LineageMap {
     
         // Create temporary text element for measurements
         const tempText = popup.append('text')
-            .style('font-family', 'monospace')
+            .style('font-family', themeFont('mono'))
             .style('font-size', '12px');
     
-        const lines: PopupLine[] = [];
+        // Column metadata comes first
+        const lines: PopupLine[] = this.formatMetadata(field, textWidth, tempText);
+        if (lines.length > 0 && (field.transformation || field.note)) {
+            lines.push({ text: '', isError: false });
+        }
     
         // Add transformation if it exists
         if (field.transformation) {
@@ -636,8 +1884,8 @@ export class LineageMap {
             let formattedText = field.transformation;
     
             fieldRefs.forEach(fieldId => {
-                const referencedField = graph.nodes.find(n => n.id === fieldId && n.type === 'field');
-                if (referencedField) {
+                const referencedField = getGraphIndex(graph).nodes.get(fieldId);
+                if (referencedField?.type === 'field') {
                     formattedText = formattedText.replace(
                         new RegExp(`\\b${fieldId}\\b`, 'g'),
                         referencedField.name
@@ -645,7 +1893,7 @@ export class LineageMap {
                 }
             });
     
-            lines.push({ text: formattedText, isError: false });
+            lines.push(...this.formatSQLBlock(formattedText, tempText));
     
             // Add a blank line if both transformation and note exist
             if (field.note) {
@@ -656,49 +1904,134 @@ export class LineageMap {
         // Add note if it exists
         lines.push(...this.generateNote(field, textWidth, tempText));
     
-        // Add error messages if they exist
-        const errors = this.validationErrors.get(field.id);
-        if (errors && errors.length > 0) {
-            lines.push({ text: '', isError: false });
-            lines.push({ text: 'Validation Errors:', isError: true });
+        // Add validation issues if they exist, most severe first
+        const issues = this.issuesByNode.get(field.id) || [];
+        if (issues.length > 0) {
+            if (lines.length > 0) {
+                lines.push({ text: '', isError: false });
+            }
+            lines.push({ text: 'Validation Issues:', isError: true, severity: issues[0].severity });
     
-            errors.forEach(error => {
-                const wrappedError = this.wrapText(
-                    `• ${error}`,
+            issues.forEach(issue => {
+                const wrappedIssue = this.wrapText(
+                    `• ${issue.message}`,
                     textWidth,
                     tempText,
                     true
                 );
-                lines.push(...wrappedError.map(line => ({ ...line, isCode: false })));
+                lines.push(...wrappedIssue.map(line => ({ ...line, isCode: false, severity: issue.severity })));
             });
         }
     
         tempText.remove();
     
-        const { boxWidth, boxHeight, popupX, popupY } = this.calculatePopupPosition(field, lines, codeLineHeight, lineHeight, padding, maxWidth);
-    
-        // Add semi-transparent overlay
-        popup.append('rect')
-            .attr('class', 'popup-overlay')
+        const box = this.calculatePopupPosition(field, lines, codeLineHeight, lineHeight, padding, maxWidth);
+        this.drawPopup(popup, lines, box, padding, codeLineHeight, lineHeight, field.id, undefined,
+            issues.length > 0 && issues[0].severity !== 'info'
+                ? LineageMap.SEVERITY_COLORS[issues[0].severity]
+                : themeColor('popupBorder'));
+    }
+
+    // Custom popups size themselves, so the foreignObject follows the height of their content
+    private showCustomPopup(node: TableNode | FieldNode, className: string): void {
+        const popup = this.mainGroup.append('g')
+            .attr('class', className);
+
+        const width = this.options.popUpWidth;
+        const { popupX, popupY } = this.calculatePopupPosition(node, [], 0, 0, 0, width);
+        const foreignObject = this.mountSlot(popup, 'popup', node, width, 0)
             .attr('x', popupX)
             .attr('y', popupY)
-            .attr('width', boxWidth)
-            .attr('height', boxHeight)
-            .attr('fill', 'rgba(255, 255, 255, 0.95)')
-            .attr('stroke', errors ? '#ff9800' : '#dee2e6')
-            .attr('rx', 4)
-            .attr('filter', 'drop-shadow(0 2px 4px rgba(0,0,0,0.1))');
-    
-        // Add text
-        const textElement = popup.append('text')
-            .attr('x', popupX + padding)
-            .attr('y', popupY + padding + 12);
-    
-        this.formatPopupLines(lines, textElement, popupX, padding, codeLineHeight, lineHeight);
+            .style('overflow', 'visible');
+        const element = foreignObject.select<HTMLDivElement>('div')
+            .style('height', null)
+            .node() as HTMLDivElement;
+
+        if (typeof ResizeObserver !== 'undefined') {
+            const observer = new ResizeObserver(() => {
+                if (!element.isConnected) {
+                    observer.disconnect();
+                    return;
+                }
+                const height = element.offsetHeight;
+                foreignObject
+                    .attr('height', height)
+                    .attr('y', this.options.popUpFloat === 'high' ? popupY - height : popupY);
+            });
+            observer.observe(element);
+        }
+        this.publishSlots();
     }
 
+    // Pinned popups are left open; they close with their own button
     hideTransformationPopup() {
-        this.mainGroup.selectAll('.transformation-popup').remove();
+        this.mainGroup.selectAll('.transformation-popup:not(.pinned)').remove();
+        this.publishSlots();
+    }
+
+    hideTableInfoPopup(): void {
+        this.mainGroup.selectAll('.table-info-popup:not(.pinned)').remove();
+        this.publishSlots();
+    }
+
+    hideEdgePopup(): void {
+        this.mainGroup.selectAll('.edge-popup:not(.pinned)').remove();
+    }
+
+    hidePopups(): void {
+        this.hideTransformationPopup();
+        this.hideTableInfoPopup();
+        this.hideEdgePopup();
+    }
+
+    // Details of every field edge a rendered edge stands for, next to the point that was clicked
+    private showEdgePopup(rendered: RenderedEdge, anchor: Position): void {
+        this.hidePopups();
+        const graph = this.currentGraph;
+        if (!graph) return;
+        if (this.raisePinnedPopup('edge-popup', rendered.id)) return;
+
+        const popup = this.mainGroup.append('g')
+            .attr('class', 'edge-popup');
+
+        const padding = 12;
+        const maxWidth = this.options.popUpWidth;
+        const lineHeight = 20;
+        const codeLineHeight = 16;
+        const textWidth = maxWidth - (padding * 2);
+
+        const tempText = popup.append('text')
+            .style('font-family', themeFont('body'))
+            .style('font-size', '12px');
+
+        const index = getGraphIndex(graph);
+        const getName = (id: string) => getQualifiedName(index, id);
+
+        const lines: PopupLine[] = [];
+        rendered.edges.forEach((edge, index) => {
+            if (index > 0) {
+                lines.push({ text: '', isError: false });
+            }
+            lines.push(...this.wrapText(`${getName(edge.source)} → ${getName(edge.target)}`, textWidth, tempText));
+            const summary = [edge.kind, edge.label].filter(Boolean).join(': ');
+            if (summary) {
+                lines.push(...this.wrapText(summary, textWidth, tempText));
+            }
+            if (edge.transformation) {
+                lines.push({ text: 'Transformation:', isError: false });
+                lines.push(...this.formatSQLBlock(edge.transformation, tempText));
+            }
+            if (edge.note) {
+                lines.push({ text: 'Note:', isError: false });
+                lines.push(...this.formatNoteBlocks(edge.note, textWidth, tempText));
+            }
+        });
+
+        tempText.remove();
+
+        const { boxWidth, boxHeight } = this.getPopupSize(lines, codeLineHeight, lineHeight, padding, maxWidth);
+        const box = this.placePopup([anchor.x + 8, anchor.x - boxWidth - 8], [anchor.y + 8, anchor.y - boxHeight - 8], boxWidth, boxHeight);
+        this.drawPopup(popup, lines, box, padding, codeLineHeight, lineHeight, rendered.id, { ...anchor, width: 0, height: 0 });
     }
 
     getFieldPosition(fieldId: string) {
@@ -712,485 +2045,1032 @@ export class LineageMap {
     }
 
     inferTableRelationships(graph: Graph) {
-        const tableRelations = new Set();
-        const inferredEdges: Edge[] = [];
-
-        graph.edges.forEach(edge => {
-            const sourceField = graph.nodes.find(n => n.id === edge.source) as FieldNode;
-            const targetField = graph.nodes.find(n => n.id === edge.target) as FieldNode;
-
-            if (sourceField?.tableId && targetField?.tableId && sourceField.tableId !== targetField.tableId) {
-                const relationKey = `${sourceField.tableId}->${targetField.tableId}`;
-                if (!tableRelations.has(relationKey)) {
-                    tableRelations.add(relationKey);
-                    inferredEdges.push({
-                        id: `table-${relationKey}`,
-                        source: sourceField.tableId,
-                        target: targetField.tableId,
-                        type: 'table-table'
-                    });
-                }
-            }
-        });
+        return inferTableEdges(graph);
+    }
 
-        return inferredEdges;
+    getTableLevels(graph: Graph, feedbackEdges: FeedbackEdges = getFeedbackEdges(graph)): TableLevel[] {
+        return computeTableLevels(graph, feedbackEdges);
     }
 
-    getTableLevels(graph: Graph): TableLevel[] {
-        const upstreamTableDependencies = new Map<string, Set<string>>();
-        const tableNodes = graph.nodes.filter(node => node.type === 'table');
-        const inferredEdges: Edge[] = this.inferTableRelationships(graph);
-    
-        // Initialize dependencies for all tables
-        tableNodes.forEach(table => {
-            upstreamTableDependencies.set(table.id, new Set());
-        });
-    
-        // Build dependencies based on inferred edges
-        inferredEdges.forEach(edge => {
-            const upstreamDeps = upstreamTableDependencies.get(edge.source);
-            if (upstreamDeps) {
-                upstreamDeps.add(edge.target);
-            }
-        });
+    // The field and every field that feeds into it
+    getRelatedFields(graph: Graph, fieldId: string) {
+        return traverseLineage(getGraphIndex(graph), fieldId, 'upstream');
+    }
 
-        const levels: TableLevel[] = [];
-        const processed = new Set<string>();
-    
-        // First, identify tables with no connections
-        const tablesWithNoConnections = tableNodes.filter(table => {
-            const hasIncomingEdges = inferredEdges.some(edge => edge.target === table.id);
-            const hasOutgoingEdges = inferredEdges.some(edge => edge.source === table.id);
-            return !hasIncomingEdges && !hasOutgoingEdges;
+    // The field and every field it feeds into
+    getDownstreamFields(graph: Graph, fieldId: string) {
+        return traverseLineage(getGraphIndex(graph), fieldId, 'downstream');
+    }
+
+    // The fields and edges on the paths from one field down to another, without showing them
+    findPaths(sourceId: string, targetId: string, options: LineagePathOptions = {}): LineagePath | null {
+        if (!this.currentGraph) return null;
+        return findLineagePaths(this.currentGraph, sourceId, targetId, {
+            shortestOnly: this.options.shortestPathOnly,
+            ...options
         });
-    
-        // Add tables with no connections to a separate level (level 0)
-        tablesWithNoConnections.forEach(table => {
-            levels.push({
-                id: table.id,
-                level: 0,
-                dependencies: []
-            });
-            processed.add(table.id);
+    }
+
+    // Highlights only the fields and edges on the paths from `sourceId` down to `targetId` and dims
+    // everything else, expanding the tables the paths run through
+    showPath(sourceId: string, targetId: string): LineagePath | null {
+        const graph = this.currentGraph;
+        const path = this.findPaths(sourceId, targetId);
+        if (!graph || !path) return null;
+
+        this.pathEnds = { source: sourceId, target: targetId };
+        this.pathSource = null;
+        this.applyPath(path);
+
+        const index = getGraphIndex(graph);
+        const collapsed = new Set<string>();
+        path.nodeIds.forEach(id => {
+            const node = index.nodes.get(id);
+            if (node?.type === 'field' && !this.expandedTables.has(node.tableId)) collapsed.add(node.tableId);
         });
-    
-        // Process remaining tables with connections
-        let currentLevel = 1;
-        let maxLevel = 1;
-    
-        while (processed.size < tableNodes.length) {
-            const currentLevelTables = Array.from(upstreamTableDependencies.entries())
-                .filter(([tableId, deps]) => (
-                    !processed.has(tableId) &&
-                    Array.from(deps).every(dep => processed.has(dep))
-                ));
-    
-            if (currentLevelTables.length === 0 && processed.size < tableNodes.length) {
-                // Handle any remaining tables (cyclic dependencies)
-                tableNodes
-                    .filter(table => !processed.has(table.id))
-                    .forEach(table => {
-                        levels.push({
-                            id: table.id,
-                            level: currentLevel,
-                            dependencies: Array.from(upstreamTableDependencies.get(table.id) || [])
-                        });
-                        processed.add(table.id);
-                    });
-            } else {
-                currentLevelTables.forEach(([tableId, deps]) => {
-                    levels.push({
-                        id: tableId,
-                        level: currentLevel,
-                        dependencies: Array.from(deps)
-                    });
-                    if (currentLevel > maxLevel) maxLevel = currentLevel;
-                    processed.add(tableId);
-                });
-            }
-            currentLevel++;
+        if (collapsed.size > 0) {
+            this.requestExpansion([...this.expandedTables, ...collapsed]);
         }
-    
-        // Reverse the level numbers (excluding level 0)  
-        // because the above logic assigns levels based on  
-        // upstream dependencies (i.e., a table's dependencies  
-        // determine its level). Reversing ensures that  
-        // higher-level tables (with more dependencies)  
-        // appear later in the hierarchy.
-        levels.forEach(node => {
-            if (node.level !== 0) {
-                node.level = maxLevel - node.level + 1;
-            }
+        this.renderHighlights(this.highlightSource);
+        this.updatePathOverlay();
+        this.callbacks.onPathChange?.(path);
+        this.announce(this.describePath(graph, path));
+        return path;
+    }
+
+    clearPath(): void {
+        const wasShown = this.pathEnds !== null;
+        this.pathEnds = null;
+        this.pathSource = null;
+        this.applyPath(null);
+        this.renderHighlights(this.highlightSource);
+        this.updatePathOverlay();
+        if (wasShown) {
+            this.callbacks.onPathChange?.(null);
+        }
+    }
+
+    isPathMode(): boolean {
+        return this.pathMode;
+    }
+
+    // In path mode, clicking fields picks the two ends of a path instead of selecting them
+    setPathMode(enabled: boolean): void {
+        this.pathMode = enabled;
+        this.pathSource = null;
+        this.renderHighlights(this.highlightSource);
+        this.updatePathOverlay();
+    }
+
+    private setShortestPathOnly(shortestOnly: boolean): void {
+        this.options.shortestPathOnly = shortestOnly;
+        if (this.pathEnds) {
+            this.showPath(this.pathEnds.source, this.pathEnds.target);
+        }
+    }
+
+    // The first click picks one end and the second the other, in either order
+    private pickPathField(fieldId: string): void {
+        const first = this.pathSource;
+        if (!first || first === fieldId) {
+            this.clearPath();
+            this.pathSource = first === fieldId ? null : fieldId;
+            this.renderHighlights(this.highlightSource);
+            this.updatePathOverlay();
+            return;
+        }
+
+        const forward = this.findPaths(first, fieldId);
+        const backward = forward && forward.edgeIds.length === 0 ? this.findPaths(fieldId, first) : null;
+        if (backward && backward.edgeIds.length > 0) {
+            this.showPath(fieldId, first);
+        } else {
+            this.showPath(first, fieldId);
+        }
+    }
+
+    // Updates the state the highlights are drawn from; callers redraw them
+    private applyPath(path: LineagePath | null): void {
+        this.activePath = path;
+        this.pathNodes = new Set(path ? [path.source, path.target, ...path.nodeIds] : []);
+        this.pathEdges = new Set(path ? path.edgeIds : []);
+        const index = path && this.currentGraph ? getGraphIndex(this.currentGraph) : null;
+        Array.from(this.pathNodes).forEach(id => {
+            const node = index?.nodes.get(id);
+            if (node?.type === 'field') this.pathNodes.add(node.tableId);
         });
-    
-        // Group nodes by level
-        const levelMap = levels.reduce((map, node) => {
-            if (!map.has(node.level)) map.set(node.level, []);
-            map.get(node.level)!.push(node);
-            return map;
-        }, new Map<number, TableLevel[]>());
-    
-        // Sort levels in ascending order and flatten results
-        return [...levelMap.entries()]
-            .sort(([a], [b]) => a - b)
-            .flatMap(([_, nodes]) => nodes);;
+        // Dimming changes every element, not only those entering or leaving a highlight
+        this.styledHighlights = null;
     }
 
-    getRelatedFields(graph: Graph, fieldId: string) {
-        const related = new Set([fieldId]); // Only store fields that feed into the current field
-        const visited = new Set();
+    // Recomputes the shown path for a new graph or layout, and clears it when either end is gone
+    private refreshPath(graph: Graph): void {
+        if (!this.pathEnds) return;
+        const { source, target } = this.pathEnds;
+        const index = getGraphIndex(graph);
+        if (!index.nodes.has(source) || !index.nodes.has(target)) {
+            this.clearPath();
+            return;
+        }
+        this.applyPath(findLineagePaths(graph, source, target, { shortestOnly: this.options.shortestPathOnly }));
+        this.updatePathOverlay();
+    }
+
+    // e.g. "2 paths from raw.amount to mart.total, the shortest with 3 hops"
+    private describePath(graph: Graph, path: LineagePath): string {
+        const index = getGraphIndex(graph);
+        const ends = `from ${getQualifiedName(index, path.source)} to ${getQualifiedName(index, path.target)}`;
+        const count = path.paths.length;
+        if (count === 0) return `No path ${ends}`;
+        const hops = path.paths[0].length;
+        return `${count}${path.truncated ? '+' : ''} ${count === 1 ? 'path' : 'paths'} ${ends}, ` +
+            `${count === 1 ? 'with' : 'the shortest with'} ${hops} ${hops === 1 ? 'hop' : 'hops'}`;
+    }
 
-        const traverse = (id: string) => {
-            if (visited.has(id)) return;
-            visited.add(id);
+    private updateHighlightedFields(graph: Graph, fieldId: string): void {
+        const { lineageDirection } = this.options;
+        this.highlightedRelatedFields = lineageDirection !== 'downstream'
+            ? this.getRelatedFields(graph, fieldId)
+            : new Set();
+        this.highlightedDownstreamFields = lineageDirection !== 'upstream'
+            ? this.getDownstreamFields(graph, fieldId)
+            : new Set();
+    }
 
-            graph.edges.forEach(edge => {
-                if (edge.target === id) { // Only follow edges feeding into the current field
-                    related.add(edge.source);
-                    traverse(edge.source);
-                }
-            });
-        };
+    getLineageDirection(): LineageDirection {
+        return this.options.lineageDirection;
+    }
+
+    setLineageDirection(direction: LineageDirection): void {
+        this.options.lineageDirection = direction;
 
-        traverse(fieldId);
-        return related;
+        // Recompute highlights for the selected field so the switch is visible immediately
+        if (this.selectedField && this.currentGraph) {
+            this.updateHighlightedFields(this.currentGraph, this.selectedField);
+            this.renderHighlights(this.selectedField);
+        }
     }
 
     toggleTableExpansion(tableId: string): void {
-        if (this.expandedTables.has(tableId)) {
-            this.expandedTables.delete(tableId);
-        } else {
+        const expanded = !this.expandedTables.has(tableId);
+        this.callbacks.onTableToggle?.(tableId, expanded);
+        if (this.expansionControlled) return;
+
+        if (expanded) {
             this.expandedTables.add(tableId);
+        } else {
+            this.expandedTables.delete(tableId);
         }
         if (this.currentGraph) {
             this.render(this.currentGraph);
         }
     }
 
+    setExpandedTables(tableIds: string[]): void {
+        const next = new Set(tableIds);
+        const unchanged = next.size === this.expandedTables.size &&
+            tableIds.every(id => this.expandedTables.has(id));
+        if (unchanged) return;
+
+        this.expandedTables = next;
+        if (this.currentGraph) {
+            this.render(this.currentGraph);
+        }
+    }
+
+    private requestExpansion(tableIds: string[]): void {
+        const next = new Set(tableIds);
+        const tableNodes = this.currentGraph ? getGraphIndex(this.currentGraph).tables : [];
+        tableNodes.forEach(table => {
+            if (next.has(table.id) !== this.expandedTables.has(table.id)) {
+                this.callbacks.onTableToggle?.(table.id, next.has(table.id));
+            }
+        });
+        if (!this.expansionControlled) {
+            this.setExpandedTables(tableIds);
+        }
+    }
+
+    expandAll(): void {
+        const tableIds = this.currentGraph
+            ? getGraphIndex(this.currentGraph).tables.map(n => n.id)
+            : [];
+        this.requestExpansion(tableIds);
+    }
+
+    collapseAll(): void {
+        this.requestExpansion([]);
+    }
+
+    isTableLevelView(): boolean {
+        return this.options.tableLevelView;
+    }
+
+    // Collapses every table so only table-to-table lineage is drawn; leaving restores the
+    // tables that were expanded before
+    setTableLevelView(enabled: boolean): void {
+        if (enabled === this.options.tableLevelView) return;
+        this.options.tableLevelView = enabled;
+
+        if (enabled) {
+            this.expandedBeforeTableView = Array.from(this.expandedTables);
+            this.requestExpansion([]);
+        } else {
+            const restored = this.expandedBeforeTableView || [];
+            this.expandedBeforeTableView = null;
+            this.requestExpansion(restored);
+        }
+    }
+
+    focusNode(nodeId: string, duration: number = 500, minScale: number = 0): void {
+        const transform = this.getFocusTransform(nodeId, minScale);
+        if (!transform) return;
+
+        this.svg.transition()
+            .duration(duration)
+            .call(this.zoom.transform as any, transform);
+    }
+
+    // Zoom transform that centers a node, at the current scale or `minScale` if larger
+    private getFocusTransform(nodeId: string, minScale: number = 0): d3.ZoomTransform | null {
+        const graph = this.currentGraph;
+        const svgNode = this.svg.node();
+        if (!graph || !svgNode) return null;
+
+        const node = getGraphIndex(graph).nodes.get(nodeId);
+        if (!node) return null;
+
+        // Fields inside collapsed tables have no position of their own, so focus the table
+        const targetId = node.type === 'field' && !this.expandedTables.has(node.tableId)
+            ? node.tableId
+            : node.id;
+        const pos = this.positions.get(targetId);
+        if (!pos) return null;
+
+        const nodeHeight = targetId === node.id && node.type === 'field'
+            ? this.options.fieldHeight
+            : this.options.tableHeight;
+        const centerX = pos.x + this.options.tableWidth / 2;
+        const centerY = pos.y + nodeHeight / 2;
+
+        const { width, height } = svgNode.getBoundingClientRect();
+        const scale = Math.max(d3.zoomTransform(svgNode).k, minScale);
+        return d3.zoomIdentity
+            .translate(width / 2, height / 2)
+            .scale(scale)
+            .translate(-centerX, -centerY);
+    }
+
     handleMouseEnterField(graph: Graph, fieldId: string): void {
+        const field = getGraphIndex(graph).nodes.get(fieldId);
+        if (field?.type === 'field') {
+            this.callbacks.onFieldHover?.(field);
+        }
         if (!this.selectedField) {
-            this.highlightedRelatedFields = this.getRelatedFields(graph, fieldId);
+            this.updateHighlightedFields(graph, fieldId);
             this.renderHighlights(fieldId);
         }
     } 
 
     handleMouseLeaveField() {
+        this.callbacks.onFieldHover?.(null);
         if (!this.selectedField) {
             this.highlightedRelatedFields.clear();
+            this.highlightedDownstreamFields.clear();
             this.renderHighlights(null);
         }
     }
 
     renderHighlights(sourceFieldId: string | null): void {
+        this.highlightSource = sourceFieldId;
+        // A shown path takes the place of the selected or hovered field's lineage
+        const path = this.activePath;
+        const related = path ? this.pathNodes : this.highlightedRelatedFields;
+        const downstream = path ? new Set<string>() : this.highlightedDownstreamFields;
+        const outlined = new Set(path ? [path.source, path.target] : [sourceFieldId, this.pathSource]);
+        const highlighted = new Set([...related, ...downstream]);
+        [sourceFieldId, this.selectedField, this.pathSource].forEach(id => {
+            if (id) highlighted.add(id);
+        });
+        // Only fields entering or leaving a highlight change, unless a redraw added unstyled elements
+        const changed = this.styledHighlights ? new Set([...this.styledHighlights, ...highlighted]) : null;
+        this.styledHighlights = highlighted;
+
+        const elements = changed
+            ? Array.from(changed, id => this.nodeElements.get(id)).filter((element): element is SVGGElement => !!element)
+            : Array.from(this.nodeElements.values());
+        const nodes = d3.selectAll<SVGGElement, Node>(elements)
+            .attr('aria-selected', d => d.type === 'field' ? String(d.id === this.selectedField) : null)
+            .style('opacity', d => path && !this.pathNodes.has(d.id) ? 0.25 : 1);
+
         // Update field backgrounds
-        this.mainGroup.selectAll<SVGElement, Node>('.field-row')
+        nodes.select<SVGElement>('.field-row')
             .style('fill', d => {
                 // highlight related fields in blue
-                if (this.highlightedRelatedFields.has(d.id)) {
-                    return '#e3f2fd'; // Blue
+                if (related.has(d.id)) {
+                    return themeColor('upstreamSurface');
+                }
+                // highlight downstream (impacted) fields in green
+                if (downstream.has(d.id)) {
+                    return themeColor('downstreamSurface');
                 }
-                return '#ffffff'; // Default background
+                return themeColor('surface');
             })
             .style('stroke', d => {
-                // If this is the source field, use blue outline
-                if (sourceFieldId && d.id === sourceFieldId) {
-                    return '#2196f3';
+                // If this is the source field, or an end of the path, use blue outline
+                if (outlined.has(d.id)) {
+                    return themeColor('upstream');
                 }
-                // If there are validation errors, use orange outline
-                else if (this.validationErrors.has(d.id)) {
-                    return '#ff9800';
+                // If there are validation errors or warnings, use the severity's outline
+                const severity = this.getNodeSeverity(d.id);
+                if (severity && severity !== 'info') {
+                    return LineageMap.SEVERITY_COLORS[severity];
                 }
-                return '#eeeeee'; // default to grey outline
+                return themeColor('fieldBorder');
             })
             .style('stroke-width', d => {
                 // Source field or field with validation error gets 2px width
-                if (d.id === sourceFieldId || this.validationErrors.has(d.id)) {
+                const severity = this.getNodeSeverity(d.id);
+                if (outlined.has(d.id) || (severity && severity !== 'info')) {
                     return 2;
                 }
                 return 1; // default to 1px
             });
-    
-        // Update edges
-        this.mainGroup.selectAll<SVGElement, Edge>('.edge')
-            .attr('stroke', (d, i, nodes) => {
-                // Cast the node to SVGElement to ensure getAttribute is available
-                const element = nodes[i] as SVGElement;
-                const source = element.getAttribute('data-source');
-                const target = element.getAttribute('data-target');
-                if (source && target) {
-                    const isHighlighted = this.highlightedRelatedFields.has(source) &&
-                        this.highlightedRelatedFields.has(target);
-                    return isHighlighted ? '#2196f3' : '#bbbbbb';
-                }
-                return '#bbbbbb';
-            })
-            .attr('stroke-width', (d, i, nodes) => {
-                // Cast the node to SVGElement to ensure getAttribute is available
-                const element = nodes[i] as SVGElement;
-                const source = element.getAttribute('data-source');
-                const target = element.getAttribute('data-target');
-                if (source && target) {
-                    const isHighlighted = this.highlightedRelatedFields.has(source) &&
-                        this.highlightedRelatedFields.has(target);
-                    return isHighlighted ? 2 : 1;
-                }
-                return 1;
+
+        this.renderEdgeHighlights(changed && Array.from(changed).flatMap(id => this.drawnEdgesByField.get(id) || []));
+        this.publishSlots();
+    }
+
+
+    // Restyles the given drawn edges, or all of them
+    private renderEdgeHighlights(edgeIds: string[] | null = null): void {
+        // An aggregated edge is highlighted when any field edge it stands for is
+        const isHighlighted = (d: RenderedEdge, fields: Set<string>) =>
+            d.edges.some(edge => fields.has(edge.source) && fields.has(edge.target));
+        // While a path is shown only its edges are highlighted, and the others are dimmed
+        const onPath = (d: RenderedEdge) => d.edges.some(edge => this.pathEdges.has(edge.id));
+        const isUpstream = (d: RenderedEdge) => this.activePath ? onPath(d) : isHighlighted(d, this.highlightedRelatedFields);
+        const isDownstream = (d: RenderedEdge) => !this.activePath && isHighlighted(d, this.highlightedDownstreamFields);
+        const opacity = (d: RenderedEdge) => this.activePath && !onPath(d) ? 0.15 : 1;
+        const edgeColor = (d: RenderedEdge) => {
+            if (isUpstream(d)) {
+                return themeColor('upstream');
+            }
+            if (isDownstream(d)) {
+                return themeColor('downstream');
+            }
+            if (d.id === this.hoveredEdge) {
+                return themeColor('textMuted');
+            }
+            const kind = getEdgeKind(d);
+            return themeColor(kind ? EDGE_KIND_STYLES[kind].color : 'edge');
+        };
+        const elements = edgeIds
+            ? edgeIds.map(id => this.edgeElements.get(id)).filter((element): element is SVGPathElement => !!element)
+            : Array.from(this.edgeElements.values());
+        d3.selectAll<SVGPathElement, RenderedEdge>(elements)
+            .style('stroke', edgeColor)
+            .style('opacity', opacity)
+            .attr('marker-end', d => this.options.arrowheads ? this.getArrowMarker(edgeColor(d)) : null)
+            .attr('stroke-width', d => {
+                const highlighted = isUpstream(d) || isDownstream(d);
+                return (highlighted ? 2 : 1) + (d.aggregated ? 0.5 : 0) + (d.id === this.hoveredEdge ? 1 : 0);
             });
+        if (!edgeIds) {
+            this.edgeLayer.selectAll<SVGElement, RenderedEdge>('.edge-label, .edge-badge')
+                .style('opacity', opacity);
+        }
     }
 
-    renderBase(graph: Graph): void {
+    renderBase(graph: Graph, expandedTableIds?: string[]): void {
         this.currentGraph = graph;
+        this.sourceGraph = graph;
+
+        if (expandedTableIds) {
+            this.expandedTables = new Set(expandedTableIds);
+        } else if (this.options.tableLevelView) {
+            // Start collapsed, with every table expanded once the table-level view is left
+            this.expandedBeforeTableView = graph.nodes.filter(node => node.type === 'table').map(node => node.id);
+            this.expandedTables = new Set();
+        } else {
+            // Expand all tables by default
+            graph.nodes
+                .filter(node => node.type === 'table')
+                .forEach(node => this.expandedTables.add(node.id));
+        }
+        this.render(this.prepareGraph(graph));
+    }
+
+    // Adds the edges implied by SQL in transformations and notes when `inferEdgesFromSql` is on
+    private prepareGraph(graph: Graph): Graph {
+        if (!this.options.inferEdgesFromSql) {
+            this.sqlAnalysis = null;
+            return graph;
+        }
+
+        const analysis = analyzeSqlLineage(graph);
+        this.sqlAnalysis = analysis;
+        this.callbacks.onSqlAnalysis?.(analysis);
+        if (analysis.edges.length === 0) return graph;
+
+        return {
+            ...graph,
+            edges: [
+                ...graph.edges,
+                ...analysis.edges.map(edge => ({ ...edge, id: `sql:${edge.source}->${edge.target}` }))
+            ]
+        };
+    }
+
+    getSqlAnalysis(): SqlAnalysisResult | null {
+        return this.sqlAnalysis;
+    }
+
+    // Applies a new version of the graph while keeping zoom, expansion and selection.
+    // Tables that are new to the graph are expanded like they are on the first render.
+    update(graph: Graph): void {
+        const previousGraph = this.currentGraph;
+        if (!previousGraph) {
+            this.renderBase(graph);
+            return;
+        }
+
+        const previousTableIds = new Set(previousGraph.nodes.filter(n => n.type === 'table').map(n => n.id));
+        const tableIds = new Set(graph.nodes.filter(n => n.type === 'table').map(n => n.id));
+        if (!this.expansionControlled) {
+            const added = Array.from(tableIds).filter(id => !previousTableIds.has(id));
+            if (this.options.tableLevelView) {
+                // Tables stay collapsed in the table-level view; new ones expand once it is left
+                this.expandedBeforeTableView = [...(this.expandedBeforeTableView || []), ...added];
+            } else {
+                added.forEach(id => this.expandedTables.add(id));
+            }
+        }
+        this.expandedTables.forEach(id => {
+            if (!tableIds.has(id)) this.expandedTables.delete(id);
+        });
+        if (this.expandedBeforeTableView) {
+            this.expandedBeforeTableView = this.expandedBeforeTableView.filter(id => tableIds.has(id));
+        }
+
+        if (this.selectedField && !getGraphIndex(graph).nodes.has(this.selectedField)) {
+            this.callbacks.onSelectionChange?.(null);
+            this.hideFieldDetails();
+        }
+
+        if (this.searchQuery) {
+            this.searchResults = searchGraph(graph, this.searchQuery);
+            this.searchIndex = Math.min(this.searchIndex, this.searchResults.length - 1);
+            this.updateSearchOverlay();
+        }
 
-        // Expand all tables by default
-        graph.nodes
-            .filter(node => node.type === 'table')
-            .forEach(node => this.expandedTables.add(node.id));
-        this.render(graph);
+        this.sourceGraph = graph;
+        this.render(this.prepareGraph(graph));
     }
 
     render(graph: Graph): void {
-        // Validate transformations before rendering
-        this.validateTransformations(graph);
+        // Validate the graph before rendering
+        this.validate(graph);
 
         // Continue with normal render
         this.currentGraph = graph;
-        const tableLevels = this.getTableLevels(graph);
-        const positions = this.calculatePositions(graph, tableLevels);
-        this.mainGroup.selectAll('*').remove();
+        const positions = this.layout(graph);
+        this.hideTableInfoPopup();
+        this.hideEdgePopup();
+        this.cullingRect = this.getCullingRect();
         this.renderEdges(graph, positions);
         this.renderNodes(graph, positions);
         this.setupEventListeners();
+        this.refreshPath(graph);
+        this.restoreSelection(graph);
+        this.updatePinnedPopups();
+        this.renderSearchHighlights();
+        this.renderFocusRing();
+        this.updateMinimap();
     }
 
-    getOptimalTableY = (graph: Graph, tableId: string, positions: Map<string, Position>): number | null => {
-        const incomingEdges = graph.edges.filter(e => e.target.startsWith(tableId));
-        if (incomingEdges.length === 0) return null;
-        
-        const edgeSourceSet: Set<string> = new Set();
-        const tableSourceSet: Set<string> = new Set();
-        let totalY: number = 0;
-        let minY: number | null = null;
-        for (const edge of incomingEdges) {
-            tableSourceSet.add(edge.source.split(":")[0])
-            if (!edgeSourceSet.has(edge.source)) {
-                edgeSourceSet.add(edge.source);
-                const fieldPositionY = positions.get(edge.source)?.y;
-                if (fieldPositionY) {
-                    totalY += fieldPositionY;
-                    if (minY === null || fieldPositionY < minY) {
-                        minY = fieldPositionY;
-                    }
-                }
-            }
+    // Only recompute levels and positions when tables, fields, edges, expansion or layout options
+    // changed. The same graph object is known to have the same structure without comparing keys.
+    private layout(graph: Graph): Map<string, Position> {
+        const layoutKey = this.getLayoutKey();
+        if (layoutKey === this.layoutKey && (graph === this.layoutGraph || getStructureKey(graph) === this.layoutStructure)) {
+            this.layoutGraph = graph;
+            return this.positions;
         }
-        // if theres only 1 table feeding into this table
-        // we dont want to have this tables y position start at the average
-        // incoming y position, so we put this tables y position to the min
-        // incoming y position.
-        if (tableSourceSet.size === 1) {
-            return minY;
+        this.layoutGraph = graph;
+        this.layoutStructure = getStructureKey(graph);
+        this.layoutKey = layoutKey;
+        this.feedbackEdges = getFeedbackEdges(graph);
+        this.cycles = detectCycles(graph);
+        this.cyclicNodes = new Set(this.cycles.flatMap(cycle => cycle.nodeIds));
+        const tableLevels = this.getTableLevels(graph, this.feedbackEdges);
+        return this.calculatePositions(graph, tableLevels);
+    }
+
+    private getLayoutKey(): string {
+        const { tableWidth, tableHeight, fieldHeight, fieldSpacing, levelPadding, verticalPadding, layoutAlgorithm, orientation } = this.options;
+        return JSON.stringify([
+            Array.from(this.expandedTables).sort(),
+            [tableWidth, tableHeight, fieldHeight, fieldSpacing, levelPadding, verticalPadding, layoutAlgorithm, orientation]
+        ]);
+    }
+
+    private getNodeSignature(node: Node): string {
+        return JSON.stringify([node, this.issuesByNode.get(node.id) || null, this.cyclicNodes.has(node.id)]);
+    }
+
+    private restoreSelection(graph: Graph): void {
+        if (this.selectedField) {
+            const field = getGraphIndex(graph).nodes.get(this.selectedField);
+            if (field?.type === 'field' && this.expandedTables.has(field.tableId)) {
+                this.showTransformationPopup(field, graph);
+            } else {
+                this.hideTransformationPopup();
+            }
+            this.updateHighlightedFields(graph, this.selectedField);
+            this.renderHighlights(this.selectedField);
         } else {
-            return totalY / edgeSourceSet.size;
+            this.hideTransformationPopup();
+            this.highlightedRelatedFields.clear();
+            this.highlightedDownstreamFields.clear();
+            this.renderHighlights(null);
         }
-    };
+    }
+
+    getOptimalTableY = (graph: Graph, tableId: string, positions: Map<string, Position>): number | null =>
+        findOptimalTableY(graph, tableId, positions);
 
     calculatePositions(graph: Graph, tableLevels: TableLevel[]): Map<string, Position> {
-        const positions = new Map();
-        const {
-            tableWidth,
-            tableHeight,
-            fieldHeight,
-            fieldSpacing,
-            levelPadding,
-            verticalPadding
-        } = this.options;
-
-        // Group tables by level
-        const tablesByLevel = new Map();
-        tableLevels.forEach((tableLevel: TableLevel) => {
-            if (!tablesByLevel.has(tableLevel.level)) {
-                tablesByLevel.set(tableLevel.level, []);
-            }
-            tablesByLevel.get(tableLevel.level).push(tableLevel.id);
+        this.positions = computePositions(graph, tableLevels, this.options, this.expandedTables);
+        return this.positions;
+    }
+
+    renderEdges(graph: Graph, positions: Map<string, Position>): void {
+        this.edgePaths = computeEdgePaths(graph, positions, this.options, this.expandedTables);
+        this.edgeBounds = new Map();
+        this.edgePaths.forEach(rendered => {
+            const bounds = getPathBounds(rendered.path);
+            if (bounds) this.edgeBounds.set(rendered.id, bounds);
         });
+        this.drawEdges();
+    }
 
-        // Calculate table heights (including expanded fields)
-        const getTableHeight = (tableId: string) => {
-            if (!this.expandedTables.has(tableId)) {
-                return tableHeight;
-            }
-            const fieldCount = graph.nodes.filter(n => n.type === "field" && n.tableId === tableId).length;
-            return tableHeight + (fieldCount * (fieldHeight + fieldSpacing));
+    // Joins the routed edges near the viewport (see `cullingRect`) to their elements
+    private drawEdges(): void {
+        const cullingRect = this.cullingRect;
+        const edgePaths = cullingRect
+            ? this.edgePaths.filter(d => {
+                const bounds = this.edgeBounds.get(d.id);
+                return !bounds || LineageMap.intersects(bounds, cullingRect);
+            })
+            : this.edgePaths;
+
+        const isFeedback = (d: RenderedEdge) => d.edges.some(edge => this.feedbackEdges.edges.has(edge.id));
+        const describe = (d: RenderedEdge) => [
+            `${d.edges.length} field edge${d.edges.length === 1 ? '' : 's'}:`,
+            ...d.edges.map(edge => `${edge.source} → ${edge.target}${edge.kind ? ` (${edge.kind})` : ''}`)
+        ].join('\n');
+        // Kinds have their own dash pattern; feedback edges are dashed when their kind has none
+        const dasharray = (d: RenderedEdge) => {
+            const kind = getEdgeKind(d);
+            const kindDash = kind ? EDGE_KIND_STYLES[kind].dasharray : null;
+            return kindDash || (isFeedback(d) ? '5,4' : null);
         };
 
-        // Calculate total height needed for each level
-        const levelHeights = new Map();
-        tablesByLevel.forEach((tablesInLevel, level) => {
-            const totalHeight = tablesInLevel.reduce((acc: number, tableId: string) => {
-                return acc + getTableHeight(tableId) + verticalPadding;
-            }, 0);
-            levelHeights.set(level, totalHeight);
+        // Keyed join so unchanged edges keep their element and highlight state
+        const paths = this.edgeLayer
+            .selectAll<SVGPathElement, RenderedEdge>('.edge')
+            .data(edgePaths, d => d.id)
+            .join(enter => enter.append('path')
+                .attr('class', 'edge')
+                .style('stroke', themeColor('edge'))
+                .attr('stroke-width', 1)
+                .attr('fill', 'none'))
+            .attr('data-source', d => d.source)
+            .attr('data-target', d => d.target)
+            .classed('feedback-edge', isFeedback)
+            .classed('aggregated-edge', d => d.aggregated)
+            .attr('data-kind', d => getEdgeKind(d))
+            .attr('stroke-dasharray', dasharray)
+            .attr('d', d => d.path);
+
+        this.edgeElements = new Map();
+        this.drawnEdgesByField = new Map();
+        paths.each((d, i, nodes) => {
+            this.edgeElements.set(d.id, nodes[i]);
+            d.edges.forEach(edge => [edge.source, edge.target].forEach(fieldId => {
+                if (!this.drawnEdgesByField.has(fieldId)) this.drawnEdgesByField.set(fieldId, []);
+                this.drawnEdgesByField.get(fieldId)!.push(d.id);
+            }));
         });
-
-        // Find maximum level height for vertical centering
-        const maxLevelHeight = Math.max(...Array.from(levelHeights.values()));
-
-        tablesByLevel.forEach((tablesInLevel, level) => {
-            const levelX = level * (tableWidth + levelPadding);
-            const levelHeight = levelHeights.get(level) || 0;
-            let currentY = (maxLevelHeight - levelHeight) / 2;
-        
-            tablesInLevel.forEach((tableId: string, idx: number) => {
-                const tableNode = graph.nodes.find(n => n.id === tableId);
-                if (!tableNode) return;
-        
-                // Determine Y position for the table
-                let yPosition = currentY + verticalPadding;
-                if (idx === 0) {
-                    const optimalTableY = this.getOptimalTableY(graph, tableId, positions);
-                    if (optimalTableY != null) {
-                        yPosition = optimalTableY;
-                    }
-                }
-                
-                // Set table position
-                positions.set(tableId, { x: levelX, y: yPosition });
-
-                // Position fields if table is expanded
-                if (this.expandedTables.has(tableId)) {
-                    const fields = graph.nodes.filter(n => n.type === "field" && n.tableId === tableId);
-                    fields.forEach((field, index) => {
-                        positions.set(field.id, {
-                            x: levelX,
-                            y: yPosition + tableHeight + index * (fieldHeight + fieldSpacing),
-                        });
-                    });
-                }
-
-                // Update Y position for next table
-                currentY = yPosition + getTableHeight(tableId) + verticalPadding;
+        this.styledHighlights = null;
+
+        // Thin edges are hard to point at, so a wider invisible copy takes hover and clicks
+        const hitPaths = this.edgeLayer
+            .selectAll<SVGPathElement, RenderedEdge>('.edge-hit')
+            .data(edgePaths, d => d.id)
+            .join(enter => enter.append('path')
+                .attr('class', 'edge-hit')
+                .attr('fill', 'none')
+                .style('stroke', 'transparent')
+                .attr('stroke-width', 10)
+                .style('pointer-events', 'stroke')
+                .style('cursor', 'pointer'))
+            .attr('d', d => d.path)
+            .on('mouseenter', (event: MouseEvent, d: RenderedEdge) => {
+                this.hoveredEdge = d.id;
+                this.renderEdgeHighlights([d.id]);
+            })
+            .on('mouseleave', (event: MouseEvent, d: RenderedEdge) => {
+                this.hoveredEdge = null;
+                this.renderEdgeHighlights([d.id]);
+            })
+            .on('click', (event: MouseEvent, d: RenderedEdge) => {
+                // Keep the map's click handler from closing the popup straight away
+                event.stopPropagation();
+                const [x, y] = d3.pointer(event, this.mainGroup.node());
+                this.showEdgePopup(d, { x, y });
             });
-        });
 
-        // Add positions for any remaining nodes (if any)
-        graph.nodes.forEach(node => {
-            if (!positions.has(node.id)) {
-                // Set default position for any nodes not yet positioned
-                positions.set(node.id, { x: 0, y: 0 });
+        hitPaths.selectAll('title')
+            .data(d => d.aggregated ? [describe(d)] : [])
+            .join('title')
+            .text(d => d);
+
+        // Aggregated edges show how many field edges they stand for at their midpoint, and
+        // labeled edges their label
+        const midpoints = new Map<string, DOMPoint>();
+        paths.each((d, i, nodes) => {
+            const path = nodes[i];
+            if ((d.aggregated || d.edges[0].label) && typeof path.getTotalLength === 'function') {
+                midpoints.set(d.id, path.getPointAtLength(path.getTotalLength() / 2));
             }
         });
 
-        this.positions = positions;
-        return positions;
+        this.edgeLayer
+            .selectAll<SVGTextElement, RenderedEdge>('.edge-label')
+            .data(edgePaths.filter(d => !d.aggregated && midpoints.has(d.id)), d => d.id)
+            .join(enter => enter.append('text')
+                .attr('class', 'edge-label')
+                .attr('text-anchor', 'middle')
+                .attr('dy', '-0.4em')
+                .style('fill', themeColor('textMuted'))
+                .style('stroke', themeColor('surface'))
+                .style('stroke-width', '3px')
+                .style('paint-order', 'stroke')
+                .style('font-family', themeFont('body'))
+                .style('font-size', '10px')
+                .style('pointer-events', 'none'))
+            .attr('x', d => midpoints.get(d.id)!.x)
+            .attr('y', d => midpoints.get(d.id)!.y)
+            .text(d => d.edges[0].label!);
+
+        const badges = this.edgeLayer
+            .selectAll<SVGGElement, RenderedEdge>('.edge-badge')
+            .data(edgePaths.filter(d => d.aggregated && midpoints.has(d.id)), d => d.id)
+            .join(enter => {
+                const badge = enter.append('g')
+                    .attr('class', 'edge-badge')
+                    .style('cursor', 'default');
+                badge.append('rect')
+                    .attr('height', 16)
+                    .attr('y', -8)
+                    .attr('rx', 8)
+                    .style('fill', themeColor('surface'))
+                    .style('stroke', themeColor('edge'));
+                badge.append('text')
+                    .attr('text-anchor', 'middle')
+                    .attr('dy', '0.35em')
+                    .style('fill', themeColor('textMuted'))
+                    .style('font-family', themeFont('body'))
+                    .style('font-size', '10px');
+                badge.append('title');
+                return badge;
+            })
+            .attr('transform', d => {
+                const point = midpoints.get(d.id)!;
+                return `translate(${point.x},${point.y})`;
+            });
+
+        badges.select('rect')
+            .attr('x', d => -(8 + String(d.edges.length).length * 3))
+            .attr('width', d => 16 + String(d.edges.length).length * 6);
+        badges.select('text').text(d => d.edges.length);
+        badges.select('title').text(describe);
+        // Keep hit areas, labels and badges above edges that entered after them
+        hitPaths.raise();
+        this.edgeLayer.selectAll('.edge-label').raise();
+        badges.raise();
     }
 
-    renderEdges(graph: Graph, positions: Map<string, Position>): void {
-        const edges = this.showTableRelationships ?
-            [...this.inferTableRelationships(graph), ...graph.edges] :
-            graph.edges;
-
-        // Group edges by source and target tables
-        const edgesByTables = new Map<string, Edge[]>();
-        edges.forEach(edge => {
-            const sourceNode = graph.nodes.find(n => n.id === edge.source) as FieldNode;
-            const targetNode = graph.nodes.find(n => n.id === edge.target) as FieldNode;
-            if (!sourceNode?.tableId || !targetNode?.tableId) return;
-
-            if (!this.expandedTables.has(sourceNode.tableId) ||
-                !this.expandedTables.has(targetNode.tableId)) return;
-
-            const tableKey = `${sourceNode.tableId}-${targetNode.tableId}`;
-            if (!edgesByTables.has(tableKey)) {
-                edgesByTables.set(tableKey, []);
-            }
-            const tableEdges = edgesByTables.get(tableKey);
-            if (tableEdges) {
-                tableEdges.push(edge);
-            }
-        });
+    // Arrowhead marker in `color`, created on first use
+    private getArrowMarker(color: string): string {
+        const id = `lineage-arrow-${this.instanceId}-${color.replace(/[^a-zA-Z0-9]/g, '')}`;
+        let defs = this.edgeLayer.select<SVGDefsElement>('defs.edge-markers');
+        if (defs.empty()) {
+            defs = this.edgeLayer.insert<SVGDefsElement>('defs', ':first-child').attr('class', 'edge-markers');
+        }
+        if (defs.select(`#${id}`).empty()) {
+            defs.append('marker')
+                .attr('id', id)
+                .attr('viewBox', '0 0 10 10')
+                .attr('refX', 10)
+                .attr('refY', 5)
+                .attr('markerWidth', 8)
+                .attr('markerHeight', 8)
+                .attr('markerUnits', 'userSpaceOnUse')
+                .attr('orient', 'auto')
+                .append('path')
+                .attr('d', 'M 0 0 L 10 5 L 0 10 z')
+                .style('fill', color);
+        }
+        return `url(#${id})`;
+    }
 
-        // Calculate control points for each table pair
-        edgesByTables.forEach((tableEdges, tableKey) => {
-            const tablePair = tableKey.split('-');
-            if (tablePair.length !== 2) return;
-
-            const [sourceTableId, targetTableId] = tablePair;
-            const sourceTablePos = positions.get(sourceTableId);
-            const targetTablePos = positions.get(targetTableId);
-
-            if (!sourceTableId || !targetTableId || !sourceTablePos || !targetTablePos) return;
-
-            // Calculate horizontal distance between tables
-            const horizontalDistance = targetTablePos.x - sourceTablePos.x;
-
-            // Draw edges
-            tableEdges.forEach((edge: Edge) => {
-                const sourcePos = positions.get(edge.source);
-                const targetPos = positions.get(edge.target);
-
-                if (!sourcePos || !targetPos) return;
-
-                // Create the path element with guaranteed non-null source and target
-                const path = this.mainGroup.append('path')
-                    .attr('class', 'edge')
-                    .attr('data-source', edge.source as string)
-                    .attr('data-target', edge.target as string)
-                    .attr('d', () => {
-                        const start = [sourcePos.x + this.options.tableWidth, sourcePos.y + this.options.fieldHeight / 2];
-                        const end = [targetPos.x, targetPos.y + this.options.fieldHeight / 2];
-
-                        // Use fixed control point distances based on horizontal distance
-                        const curveOffset = Math.min(horizontalDistance / 3, this.options.maxCurveOffset);
-                        const ctrl1 = [start[0] + curveOffset, start[1]];
-                        const ctrl2 = [end[0] - curveOffset, end[1]];
-
-                        return `M ${start[0]},${start[1]} 
-                                C ${ctrl1[0]},${ctrl1[1]} 
-                                  ${ctrl2[0]},${ctrl2[1]} 
-                                  ${end[0]},${end[1]}`;
-                    })
-                    .attr('stroke', '#bbbbbb')
-                    .attr('stroke-width', 1)
-                    .attr('fill', 'none');
-            });
-        });
+    getCycles(): LineageCycle[] {
+        return this.cycles;
     }
 
     renderNodes(graph: Graph, positions: Map<string, Position>): void {
-        // Create node groups
-        const nodes = this.mainGroup
+        // Fields of collapsed tables are not rendered at all, and neither are tables away from the viewport
+        const cullingRect = this.cullingRect;
+        const tableRects = computeTableRects(graph, positions, this.options, this.expandedTables);
+        const isDrawn = (tableId: string) => {
+            const rect = tableRects.get(tableId);
+            return !cullingRect || !rect || LineageMap.intersects(rect, cullingRect);
+        };
+        const visibleNodes = graph.nodes.filter(d => d.type === 'table'
+            ? isDrawn(d.id)
+            : this.expandedTables.has(d.tableId) && isDrawn(d.tableId));
+
+        // Create node groups, keyed by id so existing elements are reused
+        const nodes = this.nodeLayer
             .selectAll<SVGGElement, Node>('.node')
-            .data(graph.nodes)
-            .join('g')
-            .attr('class', 'node')
-            .attr('cursor', 'pointer')
+            .data(visibleNodes, d => d.id)
+            .join(enter => enter.append('g')
+                .attr('class', 'node')
+                .attr('cursor', 'pointer'))
             .attr('transform', (d: Node) => {
                 const pos = positions.get(d.id);
                 return pos ? `translate(${pos.x},${pos.y})` : '';
             });
 
-        // Render tables
-        nodes.filter((d: Node) => d.type === 'table')
-            .each((d: Node, i: number, nodes: SVGGElement[] | ArrayLike<SVGGElement>) => {
-                const node = d3.select<SVGGElement, Node>(nodes[i]);
-                this.renderTable(node, d);
-            });
+        // Only (re)draw nodes whose content changed since they were last rendered
+        nodes.each((d: Node, i: number, nodes: SVGGElement[] | ArrayLike<SVGGElement>) => {
+            const element = nodes[i];
+            const node = d3.select<SVGGElement, Node>(element);
+            const signature = this.getNodeSignature(d);
 
-        // Render fields for expanded tables
-        nodes.filter((d: Node) => d.type === 'field' && this.expandedTables.has(d.tableId))
-            .each((d: Node, i: number, nodes: SVGGElement[] | ArrayLike<SVGGElement>) => {
-                const node = d3.select<SVGGElement, Node>(nodes[i]);
+            if (this.renderedSignatures.get(element) === signature) {
+                // Keep children bound to the latest node object
+                node.selectAll('*').datum(d);
+                return;
+            }
+
+            node.selectAll('*').remove();
+            if (d.type === 'table') {
+                this.renderTable(node, d);
+            } else {
                 this.renderField(node, d);
-            });
+            }
+            this.renderedSignatures.set(element, signature);
+        });
+        this.nodeElements = new Map();
+        nodes.each((d, i, elements) => {
+            this.nodeElements.set(d.id, elements[i]);
+        });
+        this.styledHighlights = null;
+        this.updateNodeAccessibility(graph, nodes);
+        this.publishSlots();
+    }
+
+    // Tables and their expanded fields form a tree for assistive technology. Only one node is in the
+    // tab order at a time; the arrow keys move between the others.
+    private updateNodeAccessibility(graph: Graph, nodes: d3.Selection<SVGGElement, Node, SVGGElement, unknown>): void {
+        const index = getGraphIndex(graph);
+        nodes
+            .attr('role', 'treeitem')
+            .attr('aria-level', d => d.type === 'table' ? 1 : 2)
+            .attr('aria-expanded', d => d.type === 'table' ? String(this.expandedTables.has(d.id)) : null)
+            .attr('aria-selected', d => d.type === 'field' ? String(d.id === this.selectedField) : null)
+            .attr('aria-label', d => this.getNodeLabel(d, getFields(index, d.id).length))
+            .style('outline', 'none');
+        this.updateTabStop();
+    }
+
+    private getNodeLabel(node: Node, fieldCount: number): string {
+        const parts: string[] = [];
+        if (node.type === 'table') {
+            parts.push(`${node.name} table`, `${fieldCount} ${fieldCount === 1 ? 'field' : 'fields'}`);
+            if (node.note) parts.push('has a note');
+            if (this.cyclicNodes.has(node.id)) parts.push('part of a cycle');
+        } else {
+            parts.push(node.name);
+            if (node.dataType) parts.push(node.dataType);
+            if (node.isPrimaryKey) parts.push('primary key');
+            if (node.isForeignKey) parts.push('foreign key');
+            if (node.transformation) parts.push('transformed');
+        }
+        const issueCount = (this.issuesByNode.get(node.id) || []).length;
+        if (issueCount > 0) {
+            parts.push(`${issueCount} validation ${issueCount === 1 ? 'issue' : 'issues'}`);
+        }
+        return parts.join(', ');
+    }
+
+    // The focused node if it is still visible, otherwise the first table
+    private updateTabStop(): void {
+        const nodes = this.nodeLayer.selectAll<SVGGElement, Node>('.node');
+        const ids = new Set(nodes.data().map(d => d.id));
+        if (!this.focusedNode || !ids.has(this.focusedNode)) {
+            this.focusedNode = nodes.data().find(d => d.type === 'table')?.id || null;
+        }
+        nodes.attr('tabindex', d => d.id === this.focusedNode ? 0 : -1);
     }
 
     hideFieldDetails(): void {
+        if (this.selectedField) {
+            this.announce('Selection cleared.');
+        }
         this.hideTransformationPopup();
         this.selectedField = null;
         this.highlightedRelatedFields.clear();
+        this.highlightedDownstreamFields.clear();
         this.renderHighlights(null);
     }
 
+    private announce(message: string): void {
+        // Clearing first makes screen readers repeat a message identical to the last one
+        this.liveRegion?.text('');
+        this.liveRegion?.text(message);
+    }
+
+    // e.g. "Selected orders.total. Upstream: 2 fields, raw.amount and raw.tax. Downstream: none."
+    private describeLineage(graph: Graph, field: FieldNode): string {
+        const index = getGraphIndex(graph);
+        const qualifiedName = (id: string) => getQualifiedName(index, id);
+        const describe = (ids: Set<string>) => {
+            const names = Array.from(ids).filter(id => id !== field.id).map(qualifiedName);
+            if (names.length === 0) return 'none';
+            const listed = names.length > 5
+                ? `${names.slice(0, 5).join(', ')} and ${names.length - 5} more`
+                : names.join(', ');
+            return `${names.length} ${names.length === 1 ? 'field' : 'fields'}, ${listed}`;
+        };
+
+        return `Selected ${qualifiedName(field.id)}. ` +
+            `Upstream: ${describe(this.getRelatedFields(graph, field.id))}. ` +
+            `Downstream: ${describe(this.getDownstreamFields(graph, field.id))}.`;
+    }
+
+    // Outline around the focused node, only when focus came from the keyboard
+    private renderFocusRing(): void {
+        const { tableWidth, tableHeight, fieldHeight } = this.options;
+        this.nodeLayer.selectAll('.focus-ring').remove();
+
+        const active = document.activeElement;
+        if (!active || !active.classList.contains('node') || !this.nodeLayer.node()?.contains(active)) return;
+        if (!active.matches(':focus-visible')) return;
+
+        const node = d3.select<Element, Node>(active);
+        node.append('rect')
+            .attr('class', 'focus-ring')
+            .attr('x', -3)
+            .attr('y', -3)
+            .attr('width', tableWidth + 6)
+            .attr('height', (node.datum().type === 'table' ? tableHeight : fieldHeight) + 6)
+            .attr('rx', this.theme.radii.table + 2)
+            .attr('fill', 'none')
+            .style('stroke', themeColor('upstream'))
+            .attr('stroke-width', 2)
+            .style('pointer-events', 'none');
+    }
+
+    private handleKeydown(event: KeyboardEvent): void {
+        const graph = this.currentGraph;
+        const element = (event.target as Element).closest?.('.node');
+        if (!graph || !element || !this.nodeLayer.node()?.contains(element)) return;
+
+        const node = d3.select<Element, Node>(element).datum();
+        let target: string | null = null;
+        switch (event.key) {
+            case 'ArrowDown':
+            case 'ArrowUp':
+                target = this.getAdjacentRow(graph, node.id, event.key === 'ArrowDown' ? 1 : -1);
+                break;
+            case 'ArrowRight':
+            case 'ArrowLeft': {
+                const direction = event.key === 'ArrowRight' ? 'downstream' : 'upstream';
+                target = this.getLinkedNode(graph, node, direction);
+                if (!target) {
+                    this.announce(`No ${direction} ${node.type === 'table' ? 'tables' : 'fields'}.`);
+                }
+                break;
+            }
+            case 'Enter':
+                if (node.type === 'field') {
+                    this.handleFieldClick(graph, node.id);
+                } else if (node.note) {
+                    this.showTableInfoPopup(node);
+                }
+                break;
+            case ' ': {
+                const tableId = node.type === 'table' ? node.id : node.tableId;
+                this.toggleTableExpansion(tableId);
+                target = tableId;
+                break;
+            }
+            case 'Escape':
+                this.hidePopups();
+                this.clearSelection();
+                this.clearPath();
+                break;
+            default:
+                return;
+        }
+
+        event.preventDefault();
+        if (target) {
+            this.focusMapNode(target);
+        }
+    }
+
+    // Rows in reading order: tables by position along each level, each followed by its expanded fields
+    private getAdjacentRow(graph: Graph, nodeId: string, step: number): string | null {
+        const vertical = isVertical(this.options);
+        const index = getGraphIndex(graph);
+        const tables = index.tables
+            .filter(n => this.positions.has(n.id))
+            .sort((a, b) => {
+                const posA = this.positions.get(a.id)!;
+                const posB = this.positions.get(b.id)!;
+                return vertical
+                    ? posA.y - posB.y || posA.x - posB.x
+                    : posA.x - posB.x || posA.y - posB.y;
+            });
+        const rows = tables.flatMap(table => [
+            table.id,
+            ...(this.expandedTables.has(table.id) ? getFields(index, table.id).map(n => n.id) : []),
+        ]);
+        const row = rows.indexOf(nodeId);
+        if (row === -1) return null;
+        return rows[row + step] || null;
+    }
+
+    // The nearest node one edge away; fields in collapsed tables are represented by their table
+    private getLinkedNode(graph: Graph, node: Node, direction: 'upstream' | 'downstream'): string | null {
+        const index = getGraphIndex(graph);
+        const visibleId = (fieldId: string) => {
+            const field = index.nodes.get(fieldId);
+            if (field?.type !== 'field') return null;
+            if (node.type === 'table') return field.tableId;
+            return this.expandedTables.has(field.tableId) ? field.id : field.tableId;
+        };
+
+        const candidates = new Set<string>();
+        const fieldIds = node.type === 'table' ? getFields(index, node.id).map(field => field.id) : [node.id];
+        fieldIds.forEach(fieldId => {
+            getEdges(index, fieldId, direction).forEach(edge => {
+                const id = visibleId(direction === 'downstream' ? edge.target : edge.source);
+                if (id && id !== node.id) candidates.add(id);
+            });
+        });
+
+        // Prefer the candidate closest across levels, so moving back and forth stays on one row
+        const origin = this.positions.get(node.id);
+        const crossAxis = (id: string) => {
+            const pos = this.positions.get(id);
+            if (!pos || !origin) return Infinity;
+            return isVertical(this.options) ? Math.abs(pos.x - origin.x) : Math.abs(pos.y - origin.y);
+        };
+        return Array.from(candidates).sort((a, b) => crossAxis(a) - crossAxis(b))[0] || null;
+    }
+
+    // Moves keyboard focus to a node, panning to it when it is outside the viewport
+    private focusMapNode(nodeId: string): void {
+        const svgNode = this.svg.node();
+        if (!svgNode) return;
+
+        // Nodes culled away from the viewport are drawn once the map is centered on them
+        if (!this.nodeElements.has(nodeId)) {
+            const transform = this.getFocusTransform(nodeId);
+            if (!transform) return;
+            this.svg.call(this.zoom.transform as any, transform);
+            this.updateCulling();
+        }
+        const element = this.nodeElements.get(nodeId);
+        if (!element) return;
+
+        this.focusedNode = nodeId;
+        this.updateTabStop();
+        element.focus({ preventScroll: true });
+        const bounds = element.getBoundingClientRect();
+        const viewport = svgNode.getBoundingClientRect();
+        if (bounds.left < viewport.left || bounds.right > viewport.right ||
+            bounds.top < viewport.top || bounds.bottom > viewport.bottom) {
+            this.focusNode(nodeId, 300);
+        }
+    }
 
     setupEventListeners(): void {
         this.mainGroup.selectAll('.table-header')
@@ -1220,40 +3100,173 @@ export class LineageMap {
                 const tableNode = d as TableNode;
                 this.showTableInfoPopup(tableNode);
             });
+
+        this.nodeLayer.selectAll<SVGGElement, Node>('.node')
+            .on('focus', (event: FocusEvent, d: Node) => {
+                this.focusedNode = d.id;
+                this.updateTabStop();
+                this.renderFocusRing();
+            })
+            .on('blur', () => this.renderFocusRing());
+        this.svg.on('keydown', (event: KeyboardEvent) => this.handleKeydown(event));
     
         // Combined click handler for closing all popups when clicking outside
         this.svg.on('click', (event: any) => {
             const target = event.target as HTMLElement;
             const isClickingField = target.closest('.field-group');
             const isClickingTablePopup = target.closest('.table-info-button');
+
+            // Custom popups can be interactive, so clicks inside them keep everything open
+            if (target.closest('.popup-slot')) return;
+            // So do clicks inside built-in popups, which can be pinned, scrolled and dragged
+            if (target.closest('.popup-body')) return;
+            if (!target.closest('.edge-popup')) {
+                this.hideEdgePopup();
+            }
     
             // Close popups if clicking outside of relevant elements
             if (isClickingField) {
                 // hide table info pop ups if were clicking on a field
-                this.mainGroup.selectAll('.table-info-popup').remove();
+                this.hideTableInfoPopup();
             } else if (isClickingTablePopup) {
                 // hide field details if were clicking on a table info button 
-                this.hideFieldDetails();
+                this.clearSelection();
             } else {
                 // hide field details and hide table info popup if we click anywhere else 
-                this.mainGroup.selectAll('.table-info-popup').remove();
-                this.hideFieldDetails();
+                this.hideTableInfoPopup();
+                this.clearSelection();
             }
         });
     }
 
 
+    // Serializes the whole graph (not just the visible viewport) as a standalone SVG document
+    exportSVG(options: SVGExportOptions = {}): string {
+        return this.buildExport(options).svg;
+    }
+
+    exportPNG(options: PNGExportOptions = {}): Promise<Blob> {
+        // Images viewers show on any color, so a theme without a background is exported on white
+        const themed = this.theme.colors.background;
+        const background = options.background !== undefined ? options.background
+            : isTransparent(themed) ? '#ffffff' : themed;
+        const { svg, width, height } = this.buildExport({ ...options, background });
+        return svgStringToPNG(svg, width, height, options);
+    }
+
+    private buildExport(options: SVGExportOptions): { svg: string; width: number; height: number } {
+        const svgNode = this.svg.node() as SVGSVGElement;
+        // Exports show the whole graph at full detail, whatever is culled or simplified on screen
+        const graph = this.currentGraph;
+        const culled = this.cullingRect !== null;
+        if (graph && culled) {
+            this.drawVisible(graph, false);
+        }
+        this.mainGroup.classed('low-detail', false);
+
+        const padding = options.padding !== undefined ? options.padding : 20;
+        const popupSelector = '.transformation-popup, .table-info-popup, .edge-popup';
+
+        // Layers are untransformed children of the zoomed group, so their boxes share graph coordinates
+        const measured = [this.edgeLayer.node(), this.nodeLayer.node()] as SVGGraphicsElement[];
+        if (options.includePopup) {
+            measured.push(...this.mainGroup.selectAll<SVGGraphicsElement, unknown>(popupSelector).nodes());
+        }
+        const bounds = unionBounds(measured.map(element => element.getBBox())) ||
+            { x: 0, y: 0, width: 0, height: 0 };
+
+        const clone = svgNode.cloneNode(true) as SVGSVGElement;
+        inlineComputedStyles(svgNode, clone);
+
+        this.mainGroup.classed('low-detail', this.lowDetail);
+        if (graph && culled) {
+            this.drawVisible(graph);
+        }
+
+        const cloneGroup = d3.select(clone).select<SVGGElement>(':scope > g');
+        cloneGroup.attr('transform', null);
+        if (!options.includePopup) {
+            cloneGroup.selectAll(popupSelector).remove();
+        }
+        cloneGroup.selectAll('.search-highlight, .focus-ring, .popup-button, .copy-button, .popup-scrollbar').remove();
+
+        const width = bounds.width + padding * 2;
+        const height = bounds.height + padding * 2;
+        const viewBox = { x: bounds.x - padding, y: bounds.y - padding, width, height };
+        d3.select(clone)
+            .attr('style', null)
+            .attr('width', width)
+            .attr('height', height)
+            .attr('viewBox', `${viewBox.x} ${viewBox.y} ${width} ${height}`);
+
+        // The on-screen background is a style of the svg, which the export drops; draw it instead
+        const background = options.background !== undefined ? options.background : this.theme.colors.background;
+        if (background && !isTransparent(background)) {
+            addBackground(clone, background, viewBox);
+        }
+
+        return { svg: serializeSVG(clone), width, height };
+    }
+
     destroy(): void {
+        if (this.cullingFrame !== null) {
+            cancelAnimationFrame(this.cullingFrame);
+            this.cullingFrame = null;
+        }
         // Remove D3 events and clean up
         if (this.svg) {
             this.svg.selectAll('*').remove();
             this.svg.remove();
         }
+        if (this.searchOverlay) {
+            this.searchOverlay.remove();
+            this.searchOverlay = null;
+        }
+        if (this.pathOverlay) {
+            this.pathOverlay.remove();
+            this.pathOverlay = null;
+        }
+        if (this.minimap) {
+            this.minimap.destroy();
+            this.minimap = null;
+        }
+        if (this.liveRegion) {
+            this.liveRegion.remove();
+            this.liveRegion = null;
+        }
+        if (this.themeStyle) {
+            this.themeStyle.remove();
+            this.themeStyle = null;
+        }
+        if (this.slotHost) {
+            this.slotHost.onSlotsChange([]);
+            this.slotHost = null;
+        }
+        this.publishedSlots = [];
+        this.slotElements.clear();
+        d3.select(this.container).classed(this.getThemeClass(), false);
         // Clear any stored state
         this.expandedTables.clear();
         this.highlightedRelatedFields.clear();
+        this.highlightedDownstreamFields.clear();
         this.positions.clear();
-        this.validationErrors.clear();
+        this.validationIssues = [];
+        this.issuesByNode.clear();
+        this.validatedGraph = null;
+        this.cycles = [];
+        this.cyclicNodes.clear();
         this.currentGraph = null;
+        this.focusedNode = null;
+        this.cullingRect = null;
+        this.edgePaths = [];
+        this.edgeBounds.clear();
+        this.nodeElements.clear();
+        this.edgeElements.clear();
+        this.drawnEdgesByField.clear();
+        this.sourceGraph = null;
+        this.sqlAnalysis = null;
+        this.layoutKey = null;
+        this.callbacks = {};
+        this.searchResults = [];
     }
 }
\ No newline at end of file
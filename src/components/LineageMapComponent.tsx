@@ -1,41 +1,74 @@
-import React, { JSX, useEffect, useRef } from 'react';
+import React, { JSX, ReactNode, forwardRef, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
 import { LineageMap } from '../LineageMap';
-import { Graph, LineageMapProps } from '../types';
+import { normalizeGraph } from '../normalize';
+import { getFields, getGraphIndex } from '../graphIndex';
+import { FieldNode, Graph, LineageMapHandle, LineageMapOptions, LineageMapProps, RenderSlot, RenderSlotHost, RenderSlotKind, TableNode } from '../types';
 
-export const LineageMapComponent = ({
+export const LineageMapComponent = forwardRef<LineageMapHandle, LineageMapProps>(({
   data,
   width = '100%',
   height = '800px',
   options = {},
   className = '',
-}: LineageMapProps): JSX.Element => {
+  selectedFieldId,
+  expandedTableIds,
+  onFieldClick,
+  onFieldHover,
+  onTableToggle,
+  onSelectionChange,
+  onSqlAnalysis,
+  onValidate,
+  onLinkClick,
+  onPathChange,
+  renderTableHeader,
+  renderFieldRow,
+  renderPopup,
+}: LineageMapProps, ref): JSX.Element => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const [slots, setSlots] = useState<RenderSlot[]>([]);
   const lineageMapRef = useRef<LineageMap | null>(null);
-  data.edges.forEach(((edge, index) => edge.id = index.toString()))
-  data.nodes.forEach(((node) => {
-    if (node.type === "field") {
-      node.tableId = node.id.split(":")[0];
-    }
-  }))
-  const graph = data as Graph;
+  const renderedDataRef = useRef<LineageMapProps['data'] | null>(null);
+  const appliedOptionsRef = useRef<LineageMapOptions | null>(null);
+  // A normalized copy, so the caller's data is left as it was
+  const graph = useMemo<Graph>(() => normalizeGraph(data), [data]);
+
+  // Inline `options={{...}}` literals change identity every render, so compare by value
+  const optionsKey = JSON.stringify(options);
+  const mapOptions = useMemo<LineageMapOptions>(() => ({
+    width,
+    height,
+    tableWidth: 150,
+    tableHeight: 40,
+    fieldHeight: 20,
+    fieldSpacing: 4,
+    levelPadding: 100,
+    verticalPadding: 50,
+    ...options,
+  }), [width, height, optionsKey]);
+
+  // The map only needs to know which parts are custom; the render props themselves are read on every render
+  const slotKinds: RenderSlotKind[] = [];
+  if (renderTableHeader) slotKinds.push('tableHeader');
+  if (renderFieldRow) slotKinds.push('fieldRow');
+  if (renderPopup) slotKinds.push('popup');
+  const slotKindsKey = slotKinds.join();
+  const getSlotHost = (): RenderSlotHost | null => (
+    slotKinds.length > 0 ? { kinds: slotKinds, onSlotsChange: setSlots } : null
+  );
 
   useEffect(() => {
     if (containerRef.current && !lineageMapRef.current) {
-      const defaultOptions = {
-        width,
-        height,
-        tableWidth: 150,
-        tableHeight: 40,
-        fieldHeight: 20,
-        fieldSpacing: 4,
-        levelPadding: 100,
-        verticalPadding: 50,
-        ...options,
-      };
-
-      lineageMapRef.current = new LineageMap(containerRef.current, defaultOptions);
-      (window as any).lineageMap = lineageMapRef.current;
-      lineageMapRef.current.renderBase(graph);
+      lineageMapRef.current = new LineageMap(containerRef.current, mapOptions);
+      lineageMapRef.current.setCallbacks({ onFieldClick, onFieldHover, onTableToggle, onSelectionChange, onSqlAnalysis, onValidate, onLinkClick, onPathChange });
+      lineageMapRef.current.setControlled({
+        selection: selectedFieldId !== undefined,
+        expansion: expandedTableIds !== undefined,
+      });
+      lineageMapRef.current.setRenderSlotHost(getSlotHost());
+      lineageMapRef.current.renderBase(graph, expandedTableIds);
+      renderedDataRef.current = data;
+      appliedOptionsRef.current = mapOptions;
     }
 
     return () => {
@@ -46,17 +79,121 @@ export const LineageMapComponent = ({
       if (containerRef.current) {
         containerRef.current.innerHTML = '';
       }
-      if ((window as any).lineageMap === lineageMapRef.current) {
-        delete (window as any).lineageMap;
-      }
     };
-  }, [data, width, height, options]);
+  }, []);
+
+  // Keep callbacks and controlled flags current without recreating the map
+  useEffect(() => {
+    const lineageMap = lineageMapRef.current;
+    if (!lineageMap) return;
+    lineageMap.setCallbacks({ onFieldClick, onFieldHover, onTableToggle, onSelectionChange, onSqlAnalysis, onValidate, onLinkClick, onPathChange });
+    lineageMap.setControlled({
+      selection: selectedFieldId !== undefined,
+      expansion: expandedTableIds !== undefined,
+    });
+  });
+
+  useEffect(() => {
+    const lineageMap = lineageMapRef.current;
+    if (!lineageMap) return;
+    const host = getSlotHost();
+    lineageMap.setRenderSlotHost(host);
+    if (!host) setSlots([]);
+  }, [slotKindsKey]);
 
+  useEffect(() => {
+    const lineageMap = lineageMapRef.current;
+    if (!lineageMap || appliedOptionsRef.current === mapOptions) return;
+    lineageMap.setOptions(mapOptions);
+    appliedOptionsRef.current = mapOptions;
+  }, [mapOptions]);
+
+  useEffect(() => {
+    const lineageMap = lineageMapRef.current;
+    if (!lineageMap || renderedDataRef.current === data) return;
+    lineageMap.update(graph);
+    renderedDataRef.current = data;
+  }, [data]);
+
+  useEffect(() => {
+    const lineageMap = lineageMapRef.current;
+    if (!lineageMap || expandedTableIds === undefined) return;
+    lineageMap.setExpandedTables(expandedTableIds);
+  }, [expandedTableIds]);
+
+  useEffect(() => {
+    const lineageMap = lineageMapRef.current;
+    if (!lineageMap || selectedFieldId === undefined) return;
+    if (lineageMap.getSelectedField() !== selectedFieldId) {
+      lineageMap.selectField(selectedFieldId);
+    }
+  }, [selectedFieldId, data]);
+
+  useImperativeHandle(ref, () => ({
+    focusNode: (nodeId: string) => lineageMapRef.current?.focusNode(nodeId),
+    expandAll: () => lineageMapRef.current?.expandAll(),
+    collapseAll: () => lineageMapRef.current?.collapseAll(),
+    clearSelection: () => lineageMapRef.current?.clearSelection(),
+    selectField: (fieldId: string | null) => lineageMapRef.current?.selectField(fieldId),
+    setLineageDirection: (direction) => lineageMapRef.current?.setLineageDirection(direction),
+    search: (query: string) => lineageMapRef.current?.search(query) || [],
+    nextSearchResult: () => lineageMapRef.current?.nextSearchResult() || null,
+    previousSearchResult: () => lineageMapRef.current?.previousSearchResult() || null,
+    clearSearch: () => lineageMapRef.current?.clearSearch(),
+    exportSVG: (options) => lineageMapRef.current?.exportSVG(options) || '',
+    exportPNG: (options) => lineageMapRef.current
+      ? lineageMapRef.current.exportPNG(options)
+      : Promise.reject(new Error('Lineage map is not mounted')),
+    getValidationIssues: () => lineageMapRef.current?.getValidationIssues() || [],
+    getCycles: () => lineageMapRef.current?.getCycles() || [],
+    setTableLevelView: (enabled) => lineageMapRef.current?.setTableLevelView(enabled),
+    setTheme: (theme) => lineageMapRef.current?.setTheme(theme),
+    findPath: (sourceId, targetId) => lineageMapRef.current?.showPath(sourceId, targetId) || null,
+    clearPath: () => lineageMapRef.current?.clearPath(),
+    setPathMode: (enabled) => lineageMapRef.current?.setPathMode(enabled),
+  }), []);
+
+  const renderSlot = (slot: RenderSlot): ReactNode => {
+    const lineageMap = lineageMapRef.current;
+    switch (slot.kind) {
+      case 'tableHeader': {
+        const table = slot.node as TableNode;
+        return renderTableHeader?.({
+          table,
+          expanded: slot.expanded,
+          fieldCount: getFields(getGraphIndex(graph), table.id).length,
+          issues: slot.issues,
+          toggle: () => lineageMap?.toggleTableExpansion(table.id),
+          showPopup: () => lineageMap?.showTableInfoPopup(table),
+        });
+      }
+      case 'fieldRow':
+        return renderFieldRow?.({
+          field: slot.node as FieldNode,
+          selected: slot.selected,
+          highlight: slot.highlight,
+          issues: slot.issues,
+        });
+      case 'popup':
+        return renderPopup?.({
+          node: slot.node,
+          issues: slot.issues,
+          close: () => lineageMap?.hidePopups(),
+        });
+    }
+  };
+
+  // Custom content is portaled into elements the map mounts inside the SVG, so it follows pan and zoom
   return (
-    <div
-      ref={containerRef}
-      className={`react-lineage-map ${className}`}
-      style={{ width, height }}
-    />
+    <>
+      <div
+        ref={containerRef}
+        className={`react-lineage-map ${className}`}
+        style={{ width, height }}
+      />
+      {slots.map(slot => createPortal(renderSlot(slot), slot.element, slot.key))}
+    </>
   );
-};
\ No newline at end of file
+});
+
+LineageMapComponent.displayName = 'LineageMapComponent';
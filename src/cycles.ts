@@ -0,0 +1,218 @@
+import { Edge, Graph, LineageCycle, Node } from "./types/index"
+import { getGraphIndex } from "./graphIndex"
+
+interface DirectedEdge {
+    id: string;
+    source: string;
+    target: string;
+}
+
+// Edges to leave out of the layering so it becomes acyclic
+export interface FeedbackEdges {
+    // Table relationships, as `source->target` keys
+    tables: Set<string>;
+    // Ids of the field edges drawn as feedback edges
+    edges: Set<string>;
+}
+
+function buildAdjacency(nodeIds: string[], edges: DirectedEdge[]): Map<string, DirectedEdge[]> {
+    const adjacency = new Map<string, DirectedEdge[]>();
+    nodeIds.forEach(id => adjacency.set(id, []));
+    edges.forEach(edge => {
+        if (adjacency.has(edge.source) && adjacency.has(edge.target)) {
+            adjacency.get(edge.source)!.push(edge);
+        }
+    });
+    return adjacency;
+}
+
+// Tarjan's algorithm, iterative so long chains can't overflow the call stack.
+// Components come back in reverse topological order.
+export function findStronglyConnectedComponents(nodeIds: string[], edges: DirectedEdge[]): string[][] {
+    const adjacency = buildAdjacency(nodeIds, edges);
+    const indices = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const components: string[][] = [];
+    let nextIndex = 0;
+
+    nodeIds.forEach(root => {
+        if (indices.has(root)) return;
+
+        const work: { id: string; edge: number }[] = [{ id: root, edge: 0 }];
+        indices.set(root, nextIndex);
+        lowLinks.set(root, nextIndex++);
+        stack.push(root);
+        onStack.add(root);
+
+        while (work.length > 0) {
+            const frame = work[work.length - 1];
+            const outgoing = adjacency.get(frame.id)!;
+
+            if (frame.edge < outgoing.length) {
+                const next = outgoing[frame.edge++].target;
+                if (!indices.has(next)) {
+                    indices.set(next, nextIndex);
+                    lowLinks.set(next, nextIndex++);
+                    stack.push(next);
+                    onStack.add(next);
+                    work.push({ id: next, edge: 0 });
+                } else if (onStack.has(next)) {
+                    lowLinks.set(frame.id, Math.min(lowLinks.get(frame.id)!, indices.get(next)!));
+                }
+                continue;
+            }
+
+            work.pop();
+            if (work.length > 0) {
+                const parent = work[work.length - 1].id;
+                lowLinks.set(parent, Math.min(lowLinks.get(parent)!, lowLinks.get(frame.id)!));
+            }
+            if (lowLinks.get(frame.id) === indices.get(frame.id)) {
+                const component: string[] = [];
+                let member: string;
+                do {
+                    member = stack.pop()!;
+                    onStack.delete(member);
+                    component.push(member);
+                } while (member !== frame.id);
+                components.push(component);
+            }
+        }
+    });
+
+    return components;
+}
+
+// Depth-first search in node order; every edge back to a node still on the search path closes
+// a cycle. Dropping these edges leaves the graph acyclic.
+export function findFeedbackEdges(nodeIds: string[], edges: DirectedEdge[]): Set<string> {
+    const adjacency = buildAdjacency(nodeIds, edges);
+    const visited = new Set<string>();
+    const onPath = new Set<string>();
+    const feedback = new Set<string>();
+
+    nodeIds.forEach(root => {
+        if (visited.has(root)) return;
+
+        const work: { id: string; edge: number }[] = [{ id: root, edge: 0 }];
+        visited.add(root);
+        onPath.add(root);
+
+        while (work.length > 0) {
+            const frame = work[work.length - 1];
+            const outgoing = adjacency.get(frame.id)!;
+
+            if (frame.edge < outgoing.length) {
+                const edge = outgoing[frame.edge++];
+                if (onPath.has(edge.target)) {
+                    feedback.add(edge.id);
+                } else if (!visited.has(edge.target)) {
+                    visited.add(edge.target);
+                    onPath.add(edge.target);
+                    work.push({ id: edge.target, edge: 0 });
+                }
+                continue;
+            }
+
+            work.pop();
+            onPath.delete(frame.id);
+        }
+    });
+
+    return feedback;
+}
+
+function getTableId(nodesById: Map<string, Node>, id: string): string | undefined {
+    const node = nodesById.get(id);
+    return node?.type === 'field' ? node.tableId : undefined;
+}
+
+function getFieldEdges(graph: Graph, nodesById: Map<string, Node>): Edge[] {
+    return graph.edges.filter(edge => getTableId(nodesById, edge.source) && getTableId(nodesById, edge.target));
+}
+
+// Table relationships implied by field edges between different tables, keyed `source->target`
+function getTableEdges(fieldEdges: Edge[], nodesById: Map<string, Node>): Map<string, { source: string; target: string; edgeIds: string[] }> {
+    const tableEdges = new Map<string, { source: string; target: string; edgeIds: string[] }>();
+    fieldEdges.forEach(edge => {
+        const source = getTableId(nodesById, edge.source)!;
+        const target = getTableId(nodesById, edge.target)!;
+        if (source === target) return;
+        const key = `${source}->${target}`;
+        if (!tableEdges.has(key)) tableEdges.set(key, { source, target, edgeIds: [] });
+        tableEdges.get(key)!.edgeIds.push(edge.id);
+    });
+    return tableEdges;
+}
+
+// Groups items by the strongly connected component both of their ends belong to
+function groupByComponent<T>(components: string[][], items: T[], ends: (item: T) => [string, string]): T[][] {
+    const componentOf = new Map<string, number>();
+    components.forEach((component, index) => component.forEach(id => componentOf.set(id, index)));
+    const grouped: T[][] = components.map(() => []);
+    items.forEach(item => {
+        const [source, target] = ends(item);
+        const component = componentOf.get(source);
+        if (component !== undefined && component === componentOf.get(target)) {
+            grouped[component].push(item);
+        }
+    });
+    return grouped;
+}
+
+// Cycles between fields (including a field feeding itself) and between tables. A table cycle
+// can exist without a field cycle, e.g. when `a.x` feeds `b.y` and `b.z` feeds `a.w`.
+export function detectCycles(graph: Graph): LineageCycle[] {
+    const nodesById = getGraphIndex(graph).nodes;
+    const order = new Map(graph.nodes.map((node, index) => [node.id, index]));
+    const byGraphOrder = (a: string, b: string) => order.get(a)! - order.get(b)!;
+    const cycles: LineageCycle[] = [];
+
+    const fieldIds = Array.from(nodesById.values()).filter(node => node.type === 'field').map(node => node.id);
+    const fieldEdges = getFieldEdges(graph, nodesById);
+    const fieldComponents = findStronglyConnectedComponents(fieldIds, fieldEdges);
+    const fieldComponentEdges = groupByComponent(fieldComponents, fieldEdges, edge => [edge.source, edge.target]);
+    fieldComponents.forEach((component, index) => {
+        const edgeIds = fieldComponentEdges[index].map(edge => edge.id);
+        // A single field is only a cycle when it feeds itself
+        if (component.length > 1 || edgeIds.length > 0) {
+            cycles.push({ type: 'field', nodeIds: component.sort(byGraphOrder), edgeIds });
+        }
+    });
+
+    const tableIds = Array.from(nodesById.values()).filter(node => node.type === 'table').map(node => node.id);
+    const tableEdges = Array.from(getTableEdges(fieldEdges, nodesById).entries());
+    const tableLinks = tableEdges.map(([id, { source, target }]) => ({ id, source, target }));
+    const tableComponents = findStronglyConnectedComponents(tableIds, tableLinks);
+    const tableComponentEdges = groupByComponent(tableComponents, tableEdges, ([, { source, target }]) => [source, target]);
+    tableComponents.forEach((component, index) => {
+        if (component.length < 2) return;
+        const edgeIds = tableComponentEdges[index].flatMap(([, { edgeIds }]) => edgeIds);
+        cycles.push({ type: 'table', nodeIds: component.sort(byGraphOrder), edgeIds });
+    });
+
+    return cycles;
+}
+
+// Chooses which relationships the layout treats as pointing backwards. Between tables these
+// follow the table relationships; within a table, the field edges that close a cycle.
+export function getFeedbackEdges(graph: Graph): FeedbackEdges {
+    const nodesById = getGraphIndex(graph).nodes;
+    const fieldEdges = getFieldEdges(graph, nodesById);
+
+    const tableIds = graph.nodes.filter(node => node.type === 'table').map(node => node.id);
+    const tableEdges = getTableEdges(fieldEdges, nodesById);
+    const tableLinks = Array.from(tableEdges.entries()).map(([id, { source, target }]) => ({ id, source, target }));
+    const tables = findFeedbackEdges(tableIds, tableLinks);
+
+    const edges = new Set<string>();
+    tables.forEach(key => tableEdges.get(key)!.edgeIds.forEach(id => edges.add(id)));
+
+    const sameTableEdges = fieldEdges.filter(edge => getTableId(nodesById, edge.source) === getTableId(nodesById, edge.target));
+    const fieldIds = graph.nodes.filter(node => node.type === 'field').map(node => node.id);
+    findFeedbackEdges(fieldIds, sameTableEdges).forEach(id => edges.add(id));
+
+    return { tables, edges };
+}
@@ -0,0 +1,44 @@
+import { FieldNode } from "./types/index"
+
+// Broad groups of SQL column types; compatibility is only judged between groups
+export type DataTypeFamily = 'number' | 'string' | 'boolean' | 'date' | 'time' | 'binary' | 'json' | 'array' | 'uuid';
+
+// Checked in order against the type name without its parameters, e.g. `varchar` for `VARCHAR(255)`
+const FAMILY_PATTERNS: [DataTypeFamily, RegExp][] = [
+    ['array', /^array\b|\[\]$/],
+    ['json', /^(json|jsonb|variant|object|struct|map|super|record)\b/],
+    ['uuid', /^(uuid|uniqueidentifier)$/],
+    ['boolean', /^(bool|boolean|bit)$/],
+    ['number', /^(tinyint|smallint|mediumint|int|integer|bigint|int2|int4|int8|int64|float|float4|float8|float64|real|double|double precision|decimal|numeric|number|bignumeric|money|smallmoney|serial|bigserial|hugeint)\b/],
+    ['time', /^time\b(?!stamp)/],
+    ['date', /^(date|datetime|datetime2|smalldatetime|datetimeoffset|timestamp|timestamptz|timestamp_ntz|timestamp_ltz|timestamp_tz)\b/],
+    ['binary', /^(binary|varbinary|bytea|blob|bytes|longblob|image)\b/],
+    ['string', /^(char|character|varchar|character varying|nchar|nvarchar|text|ntext|string|clob|tinytext|mediumtext|longtext|citext|enum)\b/],
+];
+
+// Family of a type name such as `VARCHAR(255)` or `timestamp with time zone`, or null when unknown
+export function getTypeFamily(dataType: string): DataTypeFamily | null {
+    const normalized = dataType.trim().toLowerCase().replace(/\s*\(.*\)\s*/, '').replace(/\s+/g, ' ');
+    const match = FAMILY_PATTERNS.find(([, pattern]) => pattern.test(normalized));
+    return match ? match[0] : null;
+}
+
+// Whether a column of type `source` can plausibly feed one of type `target`. Anything can become
+// text or semi-structured data, text can be parsed into scalars and booleans count as 0/1.
+// Unknown types are always compatible.
+export function areTypesCompatible(source: string, target: string): boolean {
+    const sourceFamily = getTypeFamily(source);
+    const targetFamily = getTypeFamily(target);
+    if (!sourceFamily || !targetFamily || sourceFamily === targetFamily) return true;
+    if (targetFamily === 'string' || targetFamily === 'json') return true;
+    if (sourceFamily === 'string' && targetFamily !== 'binary' && targetFamily !== 'array') return true;
+    if (sourceFamily === 'boolean' && targetFamily === 'number') return true;
+    return false;
+}
+
+// Short type label for a field row; nullable columns get a trailing `?`
+export function formatDataType(field: FieldNode): string {
+    const dataType = field.dataType || '';
+    const label = dataType.length > 14 ? `${dataType.slice(0, 13)}…` : dataType;
+    return field.nullable ? `${label}?` : label;
+}
@@ -0,0 +1,122 @@
+import { PNGExportOptions } from "./types/index"
+
+// Presentation properties copied from computed styles so the export renders the same
+// outside of the page (host stylesheets and inherited fonts no longer apply there)
+const INLINED_STYLE_PROPERTIES = [
+    'fill',
+    'fill-opacity',
+    'stroke',
+    'stroke-width',
+    'stroke-opacity',
+    'stroke-dasharray',
+    'opacity',
+    'font-family',
+    'font-size',
+    'font-weight',
+    'font-style',
+    'text-anchor',
+    'dominant-baseline',
+    'visibility',
+    'filter',
+    'stop-color',
+];
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+const XLINK_NAMESPACE = 'http://www.w3.org/1999/xlink';
+
+export interface ExportBounds {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// `source` and `clone` must have identical structures; styles are copied element by element
+export function inlineComputedStyles(source: Element, clone: Element): void {
+    const sourceElements = [source, ...Array.from(source.querySelectorAll('*'))];
+    const cloneElements = [clone, ...Array.from(clone.querySelectorAll('*'))];
+
+    sourceElements.forEach((element, i) => {
+        const target = cloneElements[i] as SVGElement | undefined;
+        if (!target || !target.style) return;
+
+        const computed = getComputedStyle(element);
+        INLINED_STYLE_PROPERTIES.forEach(property => {
+            const value = computed.getPropertyValue(property);
+            if (value) {
+                target.style.setProperty(property, value);
+            }
+        });
+    });
+}
+
+export function unionBounds(boxes: ExportBounds[]): ExportBounds | null {
+    const nonEmpty = boxes.filter(box => box.width > 0 || box.height > 0);
+    if (nonEmpty.length === 0) return null;
+
+    const minX = Math.min(...nonEmpty.map(box => box.x));
+    const minY = Math.min(...nonEmpty.map(box => box.y));
+    const maxX = Math.max(...nonEmpty.map(box => box.x + box.width));
+    const maxY = Math.max(...nonEmpty.map(box => box.y + box.height));
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+export function serializeSVG(svg: SVGSVGElement): string {
+    svg.setAttribute('xmlns', SVG_NAMESPACE);
+    svg.setAttribute('xmlns:xlink', XLINK_NAMESPACE);
+    return new XMLSerializer().serializeToString(svg);
+}
+
+// Colors that paint nothing, so an export needs no background rect for them
+export function isTransparent(color: string | null): boolean {
+    return !color || color === 'transparent' || color === 'none';
+}
+
+// Rect filling the whole viewBox, behind everything else
+export function addBackground(svg: SVGSVGElement, color: string, bounds: ExportBounds): void {
+    const rect = svg.ownerDocument.createElementNS(SVG_NAMESPACE, 'rect');
+    rect.setAttribute('class', 'export-background');
+    rect.setAttribute('x', String(bounds.x));
+    rect.setAttribute('y', String(bounds.y));
+    rect.setAttribute('width', String(bounds.width));
+    rect.setAttribute('height', String(bounds.height));
+    rect.setAttribute('fill', color);
+    svg.insertBefore(rect, svg.firstChild);
+}
+
+// The background is drawn by the SVG itself, so the canvas is left clear around it
+export function svgStringToPNG(
+    svgString: string,
+    width: number,
+    height: number,
+    options: PNGExportOptions = {}
+): Promise<Blob> {
+    const scale = options.scale || 2;
+
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.ceil(width * scale);
+            canvas.height = Math.ceil(height * scale);
+
+            const context = canvas.getContext('2d');
+            if (!context) {
+                reject(new Error('Canvas 2D context is not available'));
+                return;
+            }
+
+            context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+            canvas.toBlob(blob => {
+                if (blob) {
+                    resolve(blob);
+                } else {
+                    reject(new Error('Failed to encode PNG'));
+                }
+            }, 'image/png');
+        };
+        image.onerror = () => reject(new Error('Failed to load the exported SVG as an image'));
+        image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgString)}`;
+    });
+}
@@ -0,0 +1,100 @@
+import { Edge, FieldNode, Graph, Node, TableNode } from "./types/index"
+
+// Lookups over a graph, so rendering and traversals don't rescan the node and edge lists
+export interface GraphIndex {
+    // The first node with each id
+    nodes: Map<string, Node>;
+    tables: TableNode[];
+    // Fields in graph order, which is the order rows are laid out in
+    fieldsByTable: Map<string, FieldNode[]>;
+    // Edges by their target and by their source
+    incoming: Map<string, Edge[]>;
+    outgoing: Map<string, Edge[]>;
+}
+
+const EMPTY_EDGES: Edge[] = [];
+const EMPTY_FIELDS: FieldNode[] = [];
+
+// Graphs are treated as immutable, so an index is built once per graph object
+const indexes = new WeakMap<Graph, GraphIndex>();
+const structureKeys = new WeakMap<Graph, string>();
+
+export function getGraphIndex(graph: Graph): GraphIndex {
+    const cached = indexes.get(graph);
+    if (cached) return cached;
+
+    const index: GraphIndex = {
+        nodes: new Map(),
+        tables: [],
+        fieldsByTable: new Map(),
+        incoming: new Map(),
+        outgoing: new Map(),
+    };
+    graph.nodes.forEach(node => {
+        if (index.nodes.has(node.id)) return;
+        index.nodes.set(node.id, node);
+        if (node.type === 'table') {
+            index.tables.push(node);
+        } else {
+            if (!index.fieldsByTable.has(node.tableId)) index.fieldsByTable.set(node.tableId, []);
+            index.fieldsByTable.get(node.tableId)!.push(node);
+        }
+    });
+    graph.edges.forEach(edge => {
+        if (!index.incoming.has(edge.target)) index.incoming.set(edge.target, []);
+        index.incoming.get(edge.target)!.push(edge);
+        if (!index.outgoing.has(edge.source)) index.outgoing.set(edge.source, []);
+        index.outgoing.get(edge.source)!.push(edge);
+    });
+
+    indexes.set(graph, index);
+    return index;
+}
+
+// Tables, their fields in order and the edges between them: what the layout depends on. Equal keys
+// let a new graph object with the same shape reuse the previous layout.
+export function getStructureKey(graph: Graph): string {
+    const cached = structureKeys.get(graph);
+    if (cached !== undefined) return cached;
+
+    const index = getGraphIndex(graph);
+    const key = JSON.stringify([
+        index.tables.map(table => [table.id, getFields(index, table.id).map(field => field.id)]),
+        graph.edges.map(edge => `${edge.id}:${edge.source}>${edge.target}`),
+    ]);
+    structureKeys.set(graph, key);
+    return key;
+}
+
+export function getFields(index: GraphIndex, tableId: string): FieldNode[] {
+    return index.fieldsByTable.get(tableId) || EMPTY_FIELDS;
+}
+
+export function getEdges(index: GraphIndex, nodeId: string, direction: 'upstream' | 'downstream'): Edge[] {
+    return (direction === 'upstream' ? index.incoming : index.outgoing).get(nodeId) || EMPTY_EDGES;
+}
+
+// `nodeId` and every node it is reachable from (upstream) or reaches (downstream)
+export function traverseLineage(index: GraphIndex, nodeId: string, direction: 'upstream' | 'downstream'): Set<string> {
+    const reached = new Set([nodeId]);
+    const stack = [nodeId];
+    while (stack.length > 0) {
+        getEdges(index, stack.pop()!, direction).forEach(edge => {
+            const next = direction === 'upstream' ? edge.source : edge.target;
+            if (!reached.has(next)) {
+                reached.add(next);
+                stack.push(next);
+            }
+        });
+    }
+    return reached;
+}
+
+// Qualified `table.field` name of a field, or the name of any other node
+export function getQualifiedName(index: GraphIndex, nodeId: string): string {
+    const node = index.nodes.get(nodeId);
+    if (!node) return nodeId;
+    if (node.type !== 'field') return node.name;
+    const table = index.nodes.get(node.tableId);
+    return table ? `${table.name}.${node.name}` : node.name;
+}
@@ -0,0 +1,88 @@
+import { EdgeMetadata, EdgeProp, FieldNodeProp, ImportResult, ImportWarning, TableNode } from "../types/index"
+
+// Field ids are split on ':' to find their table, so table ids must not contain one
+export function toTableId(name: string): string {
+    return name.replace(/:/g, '_');
+}
+
+export function toFieldId(tableId: string, fieldName: string): string {
+    return `${tableId}:${fieldName}`;
+}
+
+// Collects tables, fields and edges from an external format, de-duplicating by id
+export class GraphBuilder {
+    private tables: Map<string, TableNode> = new Map();
+    private fields: Map<string, FieldNodeProp> = new Map();
+    private edges: Map<string, EdgeProp> = new Map();
+    private warnings: ImportWarning[] = [];
+
+    hasTable(tableId: string): boolean {
+        return this.tables.has(tableId);
+    }
+
+    hasField(fieldId: string): boolean {
+        return this.fields.has(fieldId);
+    }
+
+    addTable(tableId: string, name: string, note?: string): void {
+        const existing = this.tables.get(tableId);
+        this.tables.set(tableId, {
+            id: tableId,
+            type: 'table',
+            name,
+            note: note || existing?.note,
+        });
+    }
+
+    addField(tableId: string, fieldName: string, details: { note?: string; transformation?: string; dataType?: string } = {}): string {
+        const fieldId = toFieldId(tableId, fieldName);
+        const existing = this.fields.get(fieldId);
+        this.fields.set(fieldId, {
+            id: fieldId,
+            type: 'field',
+            name: fieldName,
+            tableId,
+            note: details.note || existing?.note,
+            transformation: details.transformation || existing?.transformation,
+            dataType: details.dataType || existing?.dataType,
+        });
+        return fieldId;
+    }
+
+    addEdge(source: string, target: string, details: EdgeMetadata = {}): void {
+        const key = `${source}->${target}`;
+        const existing = this.edges.get(key);
+        this.edges.set(key, {
+            source,
+            target,
+            kind: existing?.kind || details.kind,
+            label: existing?.label || details.label,
+            note: existing?.note || details.note,
+            transformation: existing?.transformation || details.transformation,
+        });
+    }
+
+    warn(code: string, subject: string, message: string): void {
+        this.warnings.push({ code, subject, message });
+    }
+
+    build(): ImportResult {
+        // Keep every table directly followed by its fields, which is the order the map lays rows out in
+        const fieldsByTable = new Map<string, FieldNodeProp[]>();
+        this.fields.forEach(field => {
+            const tableId = field.tableId as string;
+            if (!fieldsByTable.has(tableId)) fieldsByTable.set(tableId, []);
+            fieldsByTable.get(tableId)!.push(field);
+        });
+
+        const nodes: (TableNode | FieldNodeProp)[] = [];
+        this.tables.forEach(table => {
+            nodes.push(table, ...(fieldsByTable.get(table.id) || []));
+        });
+
+        return {
+            graph: { nodes, edges: Array.from(this.edges.values()) },
+            warnings: this.warnings,
+        };
+    }
+}
@@ -0,0 +1,135 @@
+import { ImportResult } from "../types/index"
+import { GraphBuilder, toFieldId, toTableId } from "./GraphBuilder"
+
+// Only the parts of dbt's manifest.json / catalog.json the importer reads
+export interface DbtColumn {
+    name: string;
+    description?: string;
+    data_type?: string | null;
+}
+
+export interface DbtManifestNode {
+    unique_id: string;
+    resource_type: string;
+    name: string;
+    alias?: string | null;
+    source_name?: string;
+    description?: string;
+    columns?: Record<string, DbtColumn>;
+    depends_on?: { nodes?: string[] };
+}
+
+export interface DbtManifest {
+    nodes: Record<string, DbtManifestNode>;
+    sources?: Record<string, DbtManifestNode>;
+}
+
+export interface DbtCatalogNode {
+    unique_id?: string;
+    columns: Record<string, { name: string; type?: string; comment?: string | null }>;
+}
+
+export interface DbtCatalog {
+    nodes?: Record<string, DbtCatalogNode>;
+    sources?: Record<string, DbtCatalogNode>;
+}
+
+export interface DbtImportOptions {
+    // dbt resource types turned into tables
+    resourceTypes?: string[];
+    // Connect columns to same-named columns of the node's parents
+    inferColumnEdges?: boolean;
+}
+
+const DEFAULT_RESOURCE_TYPES = ['model', 'source', 'seed', 'snapshot'];
+
+// Resource types that never carry lineage and are dropped without a warning
+const IGNORED_RESOURCE_TYPES = ['test', 'unit_test'];
+
+// dbt only records model-level dependencies, so column edges are inferred by matching
+// column names against the columns of each parent node.
+export function fromDbtManifest(manifest: DbtManifest, catalog?: DbtCatalog, options: DbtImportOptions = {}): ImportResult {
+    const resourceTypes = options.resourceTypes || DEFAULT_RESOURCE_TYPES;
+    const inferColumnEdges = options.inferColumnEdges !== false;
+    const builder = new GraphBuilder();
+
+    const allNodes = [...Object.values(manifest.nodes || {}), ...Object.values(manifest.sources || {})];
+    const catalogNodes: Record<string, DbtCatalogNode> = { ...(catalog?.nodes || {}), ...(catalog?.sources || {}) };
+    const imported = new Map<string, DbtManifestNode>();
+    // Lower-cased column name -> field name, per table, for case-insensitive matching
+    const columnsByTable = new Map<string, Map<string, string>>();
+
+    allNodes.forEach(node => {
+        if (!resourceTypes.includes(node.resource_type)) {
+            if (!IGNORED_RESOURCE_TYPES.includes(node.resource_type)) {
+                builder.warn('unsupported-resource', node.unique_id,
+                    `Skipped ${node.resource_type} "${node.unique_id}" because its resource type is not imported.`);
+            }
+            return;
+        }
+
+        const tableId = toTableId(node.unique_id);
+        const displayName = node.resource_type === 'source' && node.source_name
+            ? `${node.source_name}.${node.name}`
+            : node.alias || node.name;
+        builder.addTable(tableId, displayName, node.description || undefined);
+        imported.set(node.unique_id, node);
+
+        const columns = new Map<string, string>();
+        Object.values(node.columns || {}).forEach(column => {
+            builder.addField(tableId, column.name, {
+                note: column.description || undefined,
+                dataType: column.data_type || undefined,
+            });
+            columns.set(column.name.toLowerCase(), column.name);
+        });
+
+        // The catalog lists the columns that actually exist, documented or not
+        const catalogNode = catalogNodes[node.unique_id];
+        if (catalog && !catalogNode && node.resource_type !== 'source') {
+            builder.warn('missing-catalog-entry', node.unique_id,
+                `"${node.unique_id}" is not in catalog.json; only its documented columns were imported.`);
+        }
+        Object.values(catalogNode?.columns || {}).forEach(column => {
+            const key = column.name.toLowerCase();
+            // Documented columns only take the warehouse type from the catalog
+            const fieldName = columns.get(key) || column.name;
+            builder.addField(tableId, fieldName, {
+                note: columns.has(key) ? undefined : column.comment || undefined,
+                dataType: column.type,
+            });
+            columns.set(key, fieldName);
+        });
+
+        columnsByTable.set(tableId, columns);
+    });
+
+    imported.forEach(node => {
+        const tableId = toTableId(node.unique_id);
+        const parents = (node.depends_on?.nodes || []).filter(parentId => {
+            if (imported.has(parentId)) return true;
+            builder.warn('missing-parent', node.unique_id,
+                `"${node.unique_id}" depends on "${parentId}", which was not imported.`);
+            return false;
+        });
+        if (!inferColumnEdges || parents.length === 0) return;
+
+        columnsByTable.get(tableId)?.forEach((fieldName, key) => {
+            let matched = false;
+            parents.forEach(parentId => {
+                const parentTableId = toTableId(parentId);
+                const parentField = columnsByTable.get(parentTableId)?.get(key);
+                if (parentField) {
+                    builder.addEdge(toFieldId(parentTableId, parentField), toFieldId(tableId, fieldName));
+                    matched = true;
+                }
+            });
+            if (!matched) {
+                builder.warn('unmatched-column', toFieldId(tableId, fieldName),
+                    `Column "${fieldName}" of "${node.unique_id}" has no same-named column in any parent; no edge was created.`);
+            }
+        });
+    });
+
+    return builder.build();
+}
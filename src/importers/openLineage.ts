@@ -0,0 +1,126 @@
+import { EdgeKind, ImportResult } from "../types/index"
+import { GraphBuilder, toFieldId, toTableId } from "./GraphBuilder"
+
+// Only the parts of an OpenLineage RunEvent the importer reads
+export interface OpenLineageTransformation {
+    type?: string;
+    subtype?: string;
+    description?: string;
+}
+
+export interface OpenLineageInputField {
+    namespace: string;
+    name: string;
+    field: string;
+    transformations?: OpenLineageTransformation[];
+}
+
+// OpenLineage transformation subtypes that correspond to an edge kind
+const EDGE_KINDS: Record<string, EdgeKind> = {
+    IDENTITY: 'direct',
+    TRANSFORMATION: 'derived',
+    AGGREGATION: 'derived',
+    JOIN: 'join',
+    FILTER: 'filter',
+};
+
+function getEdgeKind(transformations: OpenLineageTransformation[] = []): EdgeKind | undefined {
+    const kinds = transformations
+        .map(transformation => EDGE_KINDS[(transformation.subtype || '').toUpperCase()])
+        .filter(kind => !!kind);
+    return kinds[0];
+}
+
+export interface OpenLineageColumnLineageFacet {
+    fields: Record<string, {
+        inputFields: OpenLineageInputField[];
+        transformationDescription?: string;
+        transformationType?: string;
+    }>;
+}
+
+export interface OpenLineageDataset {
+    namespace: string;
+    name: string;
+    facets?: {
+        schema?: { fields?: { name: string; type?: string; description?: string }[] };
+        documentation?: { description?: string };
+        columnLineage?: OpenLineageColumnLineageFacet;
+    };
+}
+
+export interface OpenLineageRunEvent {
+    eventType?: string;
+    eventTime?: string;
+    job?: { namespace: string; name: string };
+    inputs?: OpenLineageDataset[];
+    outputs?: OpenLineageDataset[];
+}
+
+export interface OpenLineageImportOptions {
+    // Prefix table ids with the dataset namespace, for datasets sharing a name across sources
+    includeNamespace?: boolean;
+}
+
+// Later events override notes and transformations of earlier ones, so pass events oldest first.
+export function fromOpenLineage(events: OpenLineageRunEvent | OpenLineageRunEvent[], options: OpenLineageImportOptions = {}): ImportResult {
+    const builder = new GraphBuilder();
+    const eventList = Array.isArray(events) ? events : [events];
+
+    const getTableId = (namespace: string, name: string) => toTableId(
+        options.includeNamespace ? `${namespace}/${name}` : name
+    );
+
+    const addDataset = (dataset: OpenLineageDataset): string => {
+        const tableId = getTableId(dataset.namespace, dataset.name);
+        builder.addTable(tableId, dataset.name, dataset.facets?.documentation?.description);
+        (dataset.facets?.schema?.fields || []).forEach(field => {
+            builder.addField(tableId, field.name, { note: field.description, dataType: field.type });
+        });
+        return tableId;
+    };
+
+    eventList.forEach((event, eventIndex) => {
+        const eventName = event.job ? `${event.job.namespace}/${event.job.name}` : `event #${eventIndex}`;
+        (event.inputs || []).forEach(addDataset);
+
+        (event.outputs || []).forEach(output => {
+            const tableId = addDataset(output);
+            const columnLineage = output.facets?.columnLineage;
+            if (!columnLineage) {
+                builder.warn('missing-column-lineage', tableId,
+                    `Output "${output.name}" of ${eventName} has no columnLineage facet; no field edges were created.`);
+                return;
+            }
+
+            Object.entries(columnLineage.fields || {}).forEach(([fieldName, lineage]) => {
+                const descriptions = [
+                    lineage.transformationDescription,
+                    ...(lineage.inputFields || []).flatMap(input =>
+                        (input.transformations || []).map(transformation => transformation.description)),
+                ].filter((description): description is string => !!description);
+
+                const targetId = builder.addField(tableId, fieldName, {
+                    transformation: Array.from(new Set(descriptions)).join('\n') || undefined,
+                });
+
+                (lineage.inputFields || []).forEach(input => {
+                    const sourceTableId = getTableId(input.namespace, input.name);
+                    if (!builder.hasTable(sourceTableId)) {
+                        builder.warn('undeclared-dataset', sourceTableId,
+                            `"${input.name}" is referenced by "${output.name}.${fieldName}" but is not an input of ${eventName}; added it without schema.`);
+                        builder.addTable(sourceTableId, input.name);
+                    }
+                    if (!builder.hasField(toFieldId(sourceTableId, input.field))) {
+                        builder.warn('undeclared-field', toFieldId(sourceTableId, input.field),
+                            `Field "${input.field}" is not in the schema facet of "${input.name}"; added it from column lineage.`);
+                    }
+                    const sourceId = builder.addField(sourceTableId, input.field);
+                    builder.addEdge(sourceId, targetId, { kind: getEdgeKind(input.transformations) });
+                });
+            });
+        });
+    });
+
+    return builder.build();
+}
@@ -1,2 +1,17 @@
 export { LineageMapComponent } from './components/LineageMapComponent';
-export type { LineageMapProps, Graph, Node, Edge, LineageMapOptions, Position, GraphProp, NodeProp, EdgeProp, FieldNodeProp } from './types';
\ No newline at end of file
+export { searchGraph, fuzzyScore } from './search';
+export { fromDbtManifest } from './importers/dbt';
+export { fromOpenLineage } from './importers/openLineage';
+export { analyzeSqlLineage, applyInferredEdges } from './sql/lineage';
+export { builtInRules } from './validation/rules';
+export { runValidation } from './validation/validate';
+export { detectCycles } from './cycles';
+export { findLineagePaths } from './paths';
+export { lightTheme, darkTheme, createTheme } from './theme';
+export { renderToSVGString } from './svgString';
+export { layoutLineage } from './layout/engine';
+export type { DbtManifest, DbtCatalog, DbtImportOptions } from './importers/dbt';
+export type { OpenLineageRunEvent, OpenLineageImportOptions } from './importers/openLineage';
+export type { LineageMapProps, EdgeKind, TableHeaderRenderProps, FieldRowRenderProps, PopupRenderProps, Graph, Node, Edge, LineageMapOptions, Position, GraphProp, NodeProp, EdgeProp, FieldNodeProp, FieldNode, TableNode, LineageDirection, LineageMapCallbacks, LineageMapHandle, SearchResult, SearchMatchField, SVGExportOptions, PNGExportOptions, StaticSVGOptions, ImportResult, ImportWarning, SqlAnalysisResult, SqlUnresolvedReference, ValidationIssue, ValidationRule, ValidationSeverity, ValidationOptions, ValidationContext, LineageCycle, LineagePath, LineagePathStep, LineagePathOptions, LineageTheme, ThemeName } from './types';
+export type { ThemeOverrides } from './theme';
+export type { LineageLayout, LayoutOptions } from './layout/engine';
\ No newline at end of file
@@ -0,0 +1,762 @@
+import { Bounds, Edge, EdgeKind, FieldNode, Graph, GraphProp, LineageMapOptions, Position, RenderedEdge, RoutedEdge, TableLevel } from "../types/index"
+import { FeedbackEdges, getFeedbackEdges } from "../cycles"
+import { EDGE_KIND_STYLES } from "../theme"
+import { resolveOptions } from "../options"
+import { getEdges, getFields, getGraphIndex } from "../graphIndex"
+import { normalizeGraph } from "../normalize"
+import { LayeredLink, layeredLayout } from "./layered"
+import { RouteRequest, RoutingBand, fromFrame, orthogonalPath, routeEdges, splinePath, toFrame } from "./routing"
+
+// The options the layout depends on. Everything here is plain geometry, so it runs without a DOM.
+export type LayoutOptions = Pick<Required<LineageMapOptions>,
+    'tableWidth' | 'tableHeight' | 'fieldHeight' | 'fieldSpacing' | 'levelPadding' | 'verticalPadding' |
+    'maxCurveOffset' | 'layoutAlgorithm' | 'orientation' | 'edgeStyle'>;
+
+export interface LineageLayout {
+    levels: TableLevel[];
+    // Top left corner of every node; fields of collapsed tables are placed at the origin
+    positions: Map<string, Position>;
+    // Outline of each table including its expanded fields
+    tableRects: Map<string, Bounds>;
+    edges: RenderedEdge[];
+    feedbackEdges: FeedbackEdges;
+}
+
+export function isVertical(options: Pick<LayoutOptions, 'orientation'>): boolean {
+    return options.orientation === 'TB' || options.orientation === 'BT';
+}
+
+// Levels, positions and edge paths for a graph with the given tables expanded. Graph props are
+// normalized first, as the map does.
+export function layoutLineage(data: GraphProp | Graph, mapOptions: LineageMapOptions, expandedTables: ReadonlySet<string>): LineageLayout {
+    const graph = normalizeGraph(data);
+    const options = resolveOptions(mapOptions);
+    const feedbackEdges = getFeedbackEdges(graph);
+    const levels = computeTableLevels(graph, feedbackEdges);
+    const positions = computePositions(graph, levels, options, expandedTables);
+    return {
+        levels,
+        positions,
+        tableRects: computeTableRects(graph, positions, options, expandedTables),
+        edges: computeEdgePaths(graph, positions, options, expandedTables),
+        feedbackEdges,
+    };
+}
+
+export function inferTableEdges(graph: Graph): Edge[] {
+    const tableRelations = new Set();
+    const inferredEdges: Edge[] = [];
+
+    const { nodes } = getGraphIndex(graph);
+    graph.edges.forEach(edge => {
+        const sourceField = nodes.get(edge.source) as FieldNode;
+        const targetField = nodes.get(edge.target) as FieldNode;
+
+        if (sourceField?.tableId && targetField?.tableId && sourceField.tableId !== targetField.tableId) {
+            const relationKey = `${sourceField.tableId}->${targetField.tableId}`;
+            if (!tableRelations.has(relationKey)) {
+                tableRelations.add(relationKey);
+                inferredEdges.push({
+                    id: `table-${relationKey}`,
+                    source: sourceField.tableId,
+                    target: targetField.tableId,
+                    type: 'table-table'
+                });
+            }
+        }
+    });
+
+    return inferredEdges;
+}
+
+// Feedback relationships (see `getFeedbackEdges`) are left out so cycles don't stall the leveling
+export function computeTableLevels(graph: Graph, feedbackEdges: FeedbackEdges = getFeedbackEdges(graph)): TableLevel[] {
+    const upstreamTableDependencies = new Map<string, Set<string>>();
+    const tableNodes = getGraphIndex(graph).tables;
+    const inferredEdges: Edge[] = inferTableEdges(graph);
+    const layeredEdges = inferredEdges.filter(edge => !feedbackEdges.tables.has(`${edge.source}->${edge.target}`));
+
+    // Initialize dependencies for all tables
+    tableNodes.forEach(table => {
+        upstreamTableDependencies.set(table.id, new Set());
+    });
+
+    // Build dependencies based on inferred edges
+    layeredEdges.forEach(edge => {
+        const upstreamDeps = upstreamTableDependencies.get(edge.source);
+        if (upstreamDeps) {
+            upstreamDeps.add(edge.target);
+        }
+    });
+
+    const levels: TableLevel[] = [];
+    const processed = new Set<string>();
+
+    // First, identify tables with no connections
+    const connectedTables = new Set(inferredEdges.flatMap(edge => [edge.source, edge.target]));
+    const tablesWithNoConnections = tableNodes.filter(table => !connectedTables.has(table.id));
+
+    // Add tables with no connections to a separate level (level 0)
+    tablesWithNoConnections.forEach(table => {
+        levels.push({
+            id: table.id,
+            level: 0,
+            dependencies: []
+        });
+        processed.add(table.id);
+    });
+
+    // Process remaining tables with connections
+    let currentLevel = 1;
+    let maxLevel = 1;
+
+    while (processed.size < tableNodes.length) {
+        const currentLevelTables = Array.from(upstreamTableDependencies.entries())
+            .filter(([tableId, deps]) => (
+                !processed.has(tableId) &&
+                Array.from(deps).every(dep => processed.has(dep))
+            ));
+
+        if (currentLevelTables.length === 0 && processed.size < tableNodes.length) {
+            // Feedback edges were removed above, so only fields of tables missing from the graph end up here
+            tableNodes
+                .filter(table => !processed.has(table.id))
+                .forEach(table => {
+                    levels.push({
+                        id: table.id,
+                        level: currentLevel,
+                        dependencies: Array.from(upstreamTableDependencies.get(table.id) || [])
+                    });
+                    if (currentLevel > maxLevel) maxLevel = currentLevel;
+                    processed.add(table.id);
+                });
+        } else {
+            currentLevelTables.forEach(([tableId, deps]) => {
+                levels.push({
+                    id: tableId,
+                    level: currentLevel,
+                    dependencies: Array.from(deps)
+                });
+                if (currentLevel > maxLevel) maxLevel = currentLevel;
+                processed.add(tableId);
+            });
+        }
+        currentLevel++;
+    }
+
+    // Reverse the level numbers (excluding level 0)
+    // because the above logic assigns levels based on
+    // upstream dependencies (i.e., a table's dependencies
+    // determine its level). Reversing ensures that
+    // higher-level tables (with more dependencies)
+    // appear later in the hierarchy.
+    levels.forEach(node => {
+        if (node.level !== 0) {
+            node.level = maxLevel - node.level + 1;
+        }
+    });
+
+    // Group nodes by level
+    const levelMap = levels.reduce((map, node) => {
+        if (!map.has(node.level)) map.set(node.level, []);
+        map.get(node.level)!.push(node);
+        return map;
+    }, new Map<number, TableLevel[]>());
+
+    // Sort levels in ascending order and flatten results
+    return [...levelMap.entries()]
+        .sort(([a], [b]) => a - b)
+        .flatMap(([_, nodes]) => nodes);
+}
+
+export function findOptimalTableY(graph: Graph, tableId: string, positions: Map<string, Position>): number | null {
+    const index = getGraphIndex(graph);
+    const incomingEdges = getFields(index, tableId).flatMap(field => getEdges(index, field.id, 'upstream'));
+    if (incomingEdges.length === 0) return null;
+
+    const edgeSourceSet: Set<string> = new Set();
+    const tableSourceSet: Set<string> = new Set();
+    let totalY: number = 0;
+    let minY: number | null = null;
+    for (const edge of incomingEdges) {
+        tableSourceSet.add(edge.source.split(":")[0])
+        if (!edgeSourceSet.has(edge.source)) {
+            edgeSourceSet.add(edge.source);
+            const fieldPositionY = positions.get(edge.source)?.y;
+            if (fieldPositionY) {
+                totalY += fieldPositionY;
+                if (minY === null || fieldPositionY < minY) {
+                    minY = fieldPositionY;
+                }
+            }
+        }
+    }
+    // if theres only 1 table feeding into this table
+    // we dont want to have this tables y position start at the average
+    // incoming y position, so we put this tables y position to the min
+    // incoming y position.
+    if (tableSourceSet.size === 1) {
+        return minY;
+    } else {
+        return totalY / edgeSourceSet.size;
+    }
+}
+
+export function computePositions(
+    graph: Graph,
+    tableLevels: TableLevel[],
+    options: LayoutOptions,
+    expandedTables: ReadonlySet<string>
+): Map<string, Position> {
+    const positions = new Map<string, Position>();
+    const {
+        tableWidth,
+        tableHeight,
+        fieldHeight,
+        fieldSpacing,
+        levelPadding,
+        verticalPadding
+    } = options;
+
+    // Group tables by level
+    const tablesByLevel = new Map<number, string[]>();
+    tableLevels.forEach((tableLevel: TableLevel) => {
+        if (!tablesByLevel.has(tableLevel.level)) {
+            tablesByLevel.set(tableLevel.level, []);
+        }
+        tablesByLevel.get(tableLevel.level)!.push(tableLevel.id);
+    });
+
+    // Calculate table heights (including expanded fields)
+    const index = getGraphIndex(graph);
+    const getTableHeight = (tableId: string) => {
+        if (!expandedTables.has(tableId)) {
+            return tableHeight;
+        }
+        const fieldCount = getFields(index, tableId).length;
+        return tableHeight + (fieldCount * (fieldHeight + fieldSpacing));
+    };
+
+    // Levels are stacked along the flow and tables within a level across it. Tables keep their
+    // fields listed top to bottom in every orientation, so in vertical layouts the size of a
+    // table across the level is its width.
+    const vertical = isVertical(options);
+    const getCrossSize = (tableId: string) => vertical ? tableWidth : getTableHeight(tableId);
+
+    // Calculate total size needed across each level
+    const levelHeights = new Map<number, number>();
+    tablesByLevel.forEach((tablesInLevel, level) => {
+        const totalHeight = tablesInLevel.reduce((acc: number, tableId: string) => {
+            return acc + getCrossSize(tableId) + verticalPadding;
+        }, 0);
+        levelHeights.set(level, totalHeight);
+    });
+
+    // Find maximum level height for centering
+    const maxLevelHeight = Math.max(...Array.from(levelHeights.values()));
+
+    // Position of each level along the flow; in vertical layouts a level is as deep as its tallest table
+    const levelStarts = new Map<number, number>();
+    let nextLevelStart = 0;
+    Array.from(tablesByLevel.keys()).sort((a, b) => a - b).forEach(level => {
+        if (vertical) {
+            levelStarts.set(level, nextLevelStart);
+            nextLevelStart += Math.max(...tablesByLevel.get(level)!.map(getTableHeight)) + levelPadding;
+        } else {
+            levelStarts.set(level, level * (tableWidth + levelPadding));
+        }
+    });
+
+    const layeredTops = options.layoutAlgorithm === 'layered'
+        ? getLayeredTableTops(graph, tableLevels, options, expandedTables, getCrossSize)
+        : null;
+
+    tablesByLevel.forEach((tablesInLevel, level) => {
+        const levelStart = levelStarts.get(level) || 0;
+        const levelHeight = levelHeights.get(level) || 0;
+        let currentY = (maxLevelHeight - levelHeight) / 2;
+
+        tablesInLevel.forEach((tableId: string, idx: number) => {
+            const tableNode = index.nodes.get(tableId);
+            if (!tableNode) return;
+
+            // Determine position across the level for the table
+            let yPosition = currentY + verticalPadding;
+            if (layeredTops) {
+                yPosition = layeredTops.get(tableId)! + verticalPadding;
+            } else if (idx === 0 && !vertical) {
+                const optimalTableY = findOptimalTableY(graph, tableId, positions);
+                if (optimalTableY != null) {
+                    yPosition = optimalTableY;
+                }
+            }
+
+            // Set table position
+            const tablePosition = vertical ? { x: yPosition, y: levelStart } : { x: levelStart, y: yPosition };
+            positions.set(tableId, tablePosition);
+
+            // Position fields if table is expanded
+            if (expandedTables.has(tableId)) {
+                const fields = getFields(index, tableId);
+                fields.forEach((field, index) => {
+                    positions.set(field.id, {
+                        x: tablePosition.x,
+                        y: tablePosition.y + tableHeight + index * (fieldHeight + fieldSpacing),
+                    });
+                });
+            }
+
+            // Update position for next table
+            currentY = yPosition + getCrossSize(tableId) + verticalPadding;
+        });
+    });
+
+    // Right to left and bottom to top layouts are mirrored left to right and top to bottom ones
+    if (options.orientation === 'RL' || options.orientation === 'BT') {
+        mirrorPositions(graph, positions, options, getTableHeight);
+    }
+
+    // Add positions for any remaining nodes (if any)
+    graph.nodes.forEach(node => {
+        if (!positions.has(node.id)) {
+            // Set default position for any nodes not yet positioned
+            positions.set(node.id, { x: 0, y: 0 });
+        }
+    });
+
+    return positions;
+}
+
+function mirrorPositions(
+    graph: Graph,
+    positions: Map<string, Position>,
+    options: LayoutOptions,
+    getTableHeight: (tableId: string) => number
+): void {
+    const { tableWidth } = options;
+    const tables = getGraphIndex(graph).tables.filter(n => positions.has(n.id));
+
+    if (options.orientation === 'RL') {
+        // Fields share their table's x, so every node flips the same way
+        const right = Math.max(...tables.map(t => positions.get(t.id)!.x + tableWidth));
+        positions.forEach(pos => {
+            pos.x = right - (pos.x + tableWidth);
+        });
+        return;
+    }
+
+    // Flip tables as blocks so their fields stay in reading order
+    const bottom = Math.max(...tables.map(t => positions.get(t.id)!.y + getTableHeight(t.id)));
+    const shifts = new Map<string, number>();
+    tables.forEach(table => {
+        const pos = positions.get(table.id)!;
+        const mirroredY = bottom - (pos.y + getTableHeight(table.id));
+        shifts.set(table.id, mirroredY - pos.y);
+    });
+    graph.nodes.forEach(node => {
+        const pos = positions.get(node.id);
+        const shift = shifts.get(node.type === 'field' ? node.tableId : node.id);
+        if (pos && shift !== undefined) {
+            pos.y += shift;
+        }
+    });
+}
+
+// Table tops (lefts in vertical layouts) from the crossing-minimizing layered layout, with
+// edges attached to their field rows
+function getLayeredTableTops(
+    graph: Graph,
+    tableLevels: TableLevel[],
+    options: LayoutOptions,
+    expandedTables: ReadonlySet<string>,
+    getCrossSize: (tableId: string) => number
+): Map<string, number> {
+    const { tableWidth, tableHeight, fieldHeight, fieldSpacing, verticalPadding } = options;
+    const vertical = isVertical(options);
+
+    const rowOffsets = new Map<string, { tableId: string; offset: number }>();
+    const fieldIndexes = new Map<string, number>();
+    graph.nodes.forEach(node => {
+        if (node.type !== 'field') return;
+        const index = fieldIndexes.get(node.tableId) || 0;
+        fieldIndexes.set(node.tableId, index + 1);
+        // Fields of collapsed tables attach to the header; across a vertical level all rows line up
+        const offset = vertical
+            ? tableWidth / 2
+            : expandedTables.has(node.tableId)
+                ? tableHeight + index * (fieldHeight + fieldSpacing) + fieldHeight / 2
+                : tableHeight / 2;
+        rowOffsets.set(node.id, { tableId: node.tableId, offset });
+    });
+
+    const links: LayeredLink[] = [];
+    graph.edges.forEach(edge => {
+        const source = rowOffsets.get(edge.source);
+        const target = rowOffsets.get(edge.target);
+        if (!source || !target || source.tableId === target.tableId) return;
+        links.push({ source: source.tableId, sourceOffset: source.offset, target: target.tableId, targetOffset: target.offset });
+    });
+
+    const nodes = tableLevels.map(tableLevel => ({
+        id: tableLevel.id,
+        level: tableLevel.level,
+        height: getCrossSize(tableLevel.id)
+    }));
+    return layeredLayout(nodes, links, verticalPadding);
+}
+
+// Outline of each table as drawn, including its expanded fields
+export function computeTableRects(
+    graph: Graph,
+    positions: Map<string, Position>,
+    options: LayoutOptions,
+    expandedTables: ReadonlySet<string>
+): Map<string, Bounds> {
+    const { tableWidth, tableHeight, fieldHeight, fieldSpacing } = options;
+    const index = getGraphIndex(graph);
+
+    const rects = new Map<string, Bounds>();
+    index.tables.forEach(node => {
+        const pos = positions.get(node.id);
+        if (!pos) return;
+        const fieldCount = expandedTables.has(node.id) ? getFields(index, node.id).length : 0;
+        rects.set(node.id, { x: pos.x, y: pos.y, width: tableWidth, height: tableHeight + fieldCount * (fieldHeight + fieldSpacing) });
+    });
+    return rects;
+}
+
+// Edges attach to a field when its table is expanded and to the table header otherwise.
+// Field edges sharing both visible ends are drawn once as an aggregated edge.
+export function computeEdgePaths(
+    graph: Graph,
+    positions: Map<string, Position>,
+    options: LayoutOptions,
+    expandedTables: ReadonlySet<string>
+): RenderedEdge[] {
+    const { tableHeight, fieldHeight } = options;
+    const nodesById = getGraphIndex(graph).nodes;
+
+    const renderedEdges = new Map<string, RenderedEdge & { sourceTableId: string; targetTableId: string }>();
+    graph.edges.forEach(edge => {
+        const sourceNode = nodesById.get(edge.source);
+        const targetNode = nodesById.get(edge.target);
+        if (sourceNode?.type !== 'field' || targetNode?.type !== 'field') return;
+
+        const source = expandedTables.has(sourceNode.tableId) ? sourceNode.id : sourceNode.tableId;
+        const target = expandedTables.has(targetNode.tableId) ? targetNode.id : targetNode.tableId;
+        // Edges inside a collapsed table have nothing to connect
+        if (source === target && source === sourceNode.tableId) return;
+
+        const aggregated = source !== sourceNode.id || target !== targetNode.id;
+        const id = aggregated ? `aggregate:${source}->${target}` : edge.id;
+        if (!renderedEdges.has(id)) {
+            renderedEdges.set(id, {
+                id,
+                source,
+                target,
+                edges: [],
+                aggregated,
+                path: '',
+                sourceTableId: sourceNode.tableId,
+                targetTableId: targetNode.tableId
+            });
+        }
+        renderedEdges.get(id)!.edges.push(edge);
+    });
+
+    // Table headers act as a field row centered on the header
+    const getAnchorPosition = (id: string, tableId: string): Position | undefined => {
+        const pos = positions.get(id);
+        if (!pos || id !== tableId) return pos;
+        return { x: pos.x, y: pos.y + (tableHeight - fieldHeight) / 2 };
+    };
+
+    let loopIndex = 0;
+    const edgePaths: RenderedEdge[] = [];
+    const routed: RoutedEdge[] = [];
+    renderedEdges.forEach(({ sourceTableId, targetTableId, ...rendered }) => {
+        const sourcePos = getAnchorPosition(rendered.source, sourceTableId);
+        const targetPos = getAnchorPosition(rendered.target, targetTableId);
+        const sourceTablePos = positions.get(sourceTableId);
+        const targetTablePos = positions.get(targetTableId);
+        if (!sourcePos || !targetPos || !sourceTablePos || !targetTablePos) return;
+
+        edgePaths.push(rendered);
+        if (options.edgeStyle !== 'curved' && sourceTableId !== targetTableId) {
+            // Routed together below, so parallel edges can be spread apart
+            routed.push({ rendered, sourcePos, targetPos, sourceTableId, targetTableId });
+            return;
+        }
+        rendered.path = getEdgePath(graph, positions, options, expandedTables, sourcePos, targetPos,
+            sourceTablePos, targetTablePos, sourceTableId === targetTableId, () => loopIndex++);
+    });
+    if (routed.length > 0) {
+        routeEdgePaths(graph, positions, options, expandedTables, routed);
+    }
+    return edgePaths;
+}
+
+// The kind shared by every field edge a rendered edge stands for, if any
+export function getEdgeKind(rendered: RenderedEdge): EdgeKind | null {
+    const kind = rendered.edges[0]?.kind;
+    return kind && kind in EDGE_KIND_STYLES && rendered.edges.every(edge => edge.kind === kind) ? kind : null;
+}
+
+// Box around every point of a path, control points included, so it contains the whole curve
+export function getPathBounds(path: string): Bounds | null {
+    const numbers = (path.match(/-?\d*\.?\d+(?:e[-+]?\d+)?/gi) || []).map(Number);
+    if (numbers.length < 2) return null;
+    const xs = numbers.filter((_, i) => i % 2 === 0);
+    const ys = numbers.filter((_, i) => i % 2 === 1);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+// Point halfway along a path built from absolute M, L, Q and C commands, which is all the layout
+// produces. Curves are measured as short straight segments, which is close enough to place a label.
+export function getPathMidpoint(path: string): Position | null {
+    const points: Position[] = [];
+    const flatten = (controls: Position[]) => {
+        const start = points[points.length - 1];
+        if (!start) return;
+        const curve = [start, ...controls];
+        for (let step = 1; step <= 16; step++) {
+            // De Casteljau: interpolate between neighbouring control points until one is left
+            let level = curve;
+            while (level.length > 1) {
+                level = level.slice(1).map((p, i) => ({
+                    x: level[i].x + (p.x - level[i].x) * step / 16,
+                    y: level[i].y + (p.y - level[i].y) * step / 16
+                }));
+            }
+            points.push(level[0]);
+        }
+    };
+
+    const commands = path.match(/[MLQC][^MLQC]*/g) || [];
+    commands.forEach(command => {
+        const numbers = (command.slice(1).match(/-?\d*\.?\d+(?:e[-+]?\d+)?/gi) || []).map(Number);
+        const coords: Position[] = [];
+        for (let i = 0; i + 1 < numbers.length; i += 2) coords.push({ x: numbers[i], y: numbers[i + 1] });
+        const type = command[0].toUpperCase();
+        if (type === 'M' || type === 'L') {
+            points.push(...coords);
+        } else {
+            const size = type === 'Q' ? 2 : 3;
+            for (let i = 0; i + size <= coords.length; i += size) flatten(coords.slice(i, i + size));
+        }
+    });
+    if (points.length === 0) return null;
+
+    const lengths = points.slice(1).map((p, i) => Math.hypot(p.x - points[i].x, p.y - points[i].y));
+    let remaining = lengths.reduce((sum, length) => sum + length, 0) / 2;
+    for (let i = 0; i < lengths.length; i++) {
+        if (remaining <= lengths[i] && lengths[i] > 0) {
+            const t = remaining / lengths[i];
+            return { x: points[i].x + (points[i + 1].x - points[i].x) * t, y: points[i].y + (points[i + 1].y - points[i].y) * t };
+        }
+        remaining -= lengths[i];
+    }
+    return points[points.length - 1];
+}
+
+// Edges attach to the sides of field rows. Horizontal layouts leave a field on the downstream
+// side and enter on the upstream one; vertical layouts use the sides facing each other.
+function getEdgePath(
+    graph: Graph,
+    positions: Map<string, Position>,
+    options: LayoutOptions,
+    expandedTables: ReadonlySet<string>,
+    sourcePos: Position,
+    targetPos: Position,
+    sourceTablePos: Position,
+    targetTablePos: Position,
+    sameTable: boolean,
+    nextLoopIndex: () => number
+): string {
+    const { tableWidth, fieldHeight, maxCurveOffset, verticalPadding } = options;
+    const sourceY = sourcePos.y + fieldHeight / 2;
+    const targetY = targetPos.y + fieldHeight / 2;
+
+    if (isVertical(options)) {
+        const horizontalDistance = targetTablePos.x - sourceTablePos.x;
+        // Tables in the same column are joined along their right sides
+        if (sameTable || Math.abs(horizontalDistance) < tableWidth) {
+            return getSameTablePath(
+                options,
+                [sourcePos.x + tableWidth, sourceY],
+                [targetPos.x + tableWidth, targetY],
+                1,
+                verticalPadding * 0.8
+            );
+        }
+        const side = Math.sign(horizontalDistance);
+        const start = [sourcePos.x + (side > 0 ? tableWidth : 0), sourceY];
+        const end = [targetPos.x + (side > 0 ? 0 : tableWidth), targetY];
+        const curveOffset = Math.min(Math.abs(horizontalDistance) / 3, maxCurveOffset) * side;
+        return `M ${start[0]},${start[1]} C ${start[0] + curveOffset},${start[1]} ${end[0] - curveOffset},${end[1]} ${end[0]},${end[1]}`;
+    }
+
+    // 1 when data flows to the right, -1 when it flows to the left
+    const direction = options.orientation === 'RL' ? -1 : 1;
+    const start = [sourcePos.x + (direction > 0 ? tableWidth : 0), sourceY];
+    const end = [targetPos.x + (direction > 0 ? 0 : tableWidth), targetY];
+
+    if (sameTable) {
+        return getSameTablePath(options, start, [targetPos.x + (direction > 0 ? tableWidth : 0), targetY], direction, maxCurveOffset);
+    }
+
+    // Calculate distance between tables in the direction of flow
+    const forwardDistance = (targetTablePos.x - sourceTablePos.x) * direction;
+    if (forwardDistance <= 0) {
+        return getBackEdgePath(graph, positions, options, expandedTables, start, end, nextLoopIndex(), direction);
+    }
+
+    // Use fixed control point distances based on horizontal distance
+    const curveOffset = Math.min(forwardDistance / 3, maxCurveOffset) * direction;
+    const ctrl1 = [start[0] + curveOffset, start[1]];
+    const ctrl2 = [end[0] - curveOffset, end[1]];
+    return `M ${start[0]},${start[1]} C ${ctrl1[0]},${ctrl1[1]} ${ctrl2[0]},${ctrl2[1]} ${end[0]},${end[1]}`;
+}
+
+// Edges between rows on the same side of their tables bend out of that side and back in
+function getSameTablePath(options: LayoutOptions, start: number[], end: number[], direction: number, maxOffset: number): string {
+    if (start[0] === end[0] && start[1] === end[1]) {
+        // A field feeding itself gets a small loop
+        const loop = 24 * direction;
+        return `M ${start[0]},${start[1] - 3} C ${start[0] + loop},${start[1] - 14} ${start[0] + loop},${start[1] + 14} ${end[0]},${end[1] + 3}`;
+    }
+    const offset = Math.min(20 + Math.abs(end[1] - start[1]) / 4, maxOffset) * direction;
+    if (options.edgeStyle === 'orthogonal') {
+        return orthogonalPath([
+            { x: start[0], y: start[1] },
+            { x: start[0] + offset, y: start[1] },
+            { x: end[0] + offset, y: end[1] },
+            { x: end[0], y: end[1] }
+        ]);
+    }
+    return `M ${start[0]},${start[1]} C ${start[0] + offset},${start[1]} ${end[0] + offset},${end[1]} ${end[0]},${end[1]}`;
+}
+
+// Orthogonal and spline edges: routed through the channels between levels and the gaps
+// between tables, in a frame that follows the orientation
+function routeEdgePaths(
+    graph: Graph,
+    positions: Map<string, Position>,
+    options: LayoutOptions,
+    expandedTables: ReadonlySet<string>,
+    routed: RoutedEdge[]
+): void {
+    const { orientation, tableWidth, fieldHeight, levelPadding, verticalPadding } = options;
+    const rects = computeTableRects(graph, positions, options, expandedTables);
+
+    // Levels are the groups of tables that start at the same point along the flow
+    const frameRects = new Map<string, { main: [number, number]; cross: [number, number] }>();
+    rects.forEach((rect, tableId) => {
+        const a = toFrame({ x: rect.x, y: rect.y }, orientation);
+        const b = toFrame({ x: rect.x + rect.width, y: rect.y + rect.height }, orientation);
+        frameRects.set(tableId, {
+            main: [Math.min(a.main, b.main), Math.max(a.main, b.main)],
+            cross: [Math.min(a.cross, b.cross), Math.max(a.cross, b.cross)]
+        });
+    });
+    const bandsByStart = new Map<number, RoutingBand>();
+    frameRects.forEach(({ main, cross }) => {
+        const start = Math.round(main[0]);
+        if (!bandsByStart.has(start)) bandsByStart.set(start, { start: main[0], end: main[1], obstacles: [] });
+        const band = bandsByStart.get(start)!;
+        band.end = Math.max(band.end, main[1]);
+        band.obstacles.push(cross);
+    });
+    const starts = Array.from(bandsByStart.keys()).sort((a, b) => a - b);
+    const bands = starts.map(start => bandsByStart.get(start)!);
+    const bandOf = (tableId: string) => starts.indexOf(Math.round(frameRects.get(tableId)!.main[0]));
+
+    const vertical = isVertical(options);
+    const direction = orientation === 'RL' ? -1 : 1;
+    const stub = verticalPadding / 3;
+    const ends = new Map<string, { start: Position; end: Position }>();
+    const requests: RouteRequest[] = [];
+
+    routed.forEach(({ rendered, sourcePos, targetPos, sourceTableId, targetTableId }) => {
+        const sourceY = sourcePos.y + fieldHeight / 2;
+        const targetY = targetPos.y + fieldHeight / 2;
+        let start: Position, end: Position, from: Position, to: Position;
+
+        if (vertical) {
+            // Leave and enter field rows on the sides facing each other, with a short stub
+            // so the route starts in the gap beside the table
+            const horizontalDistance = positions.get(targetTableId)!.x - positions.get(sourceTableId)!.x;
+            const side = Math.abs(horizontalDistance) < tableWidth ? 1 : Math.sign(horizontalDistance);
+            const targetSide = Math.abs(horizontalDistance) < tableWidth ? 1 : -side;
+            start = { x: sourcePos.x + (side > 0 ? tableWidth : 0), y: sourceY };
+            end = { x: targetPos.x + (targetSide > 0 ? tableWidth : 0), y: targetY };
+            from = { x: start.x + side * stub, y: start.y };
+            to = { x: end.x + targetSide * stub, y: end.y };
+        } else {
+            start = { x: sourcePos.x + (direction > 0 ? tableWidth : 0), y: sourceY };
+            end = { x: targetPos.x + (direction > 0 ? 0 : tableWidth), y: targetY };
+            from = start;
+            to = end;
+        }
+
+        ends.set(rendered.id, { start, end });
+        requests.push({
+            id: rendered.id,
+            from: toFrame(from, orientation),
+            fromBand: bandOf(sourceTableId),
+            to: toFrame(to, orientation),
+            toBand: bandOf(targetTableId)
+        });
+    });
+
+    const routes = routeEdges(bands, requests, {
+        outerChannel: (vertical ? levelPadding : Math.min(levelPadding, verticalPadding * 2)) / 2,
+        spacing: 5,
+        margin: 8
+    });
+
+    routed.forEach(({ rendered }) => {
+        const { start, end } = ends.get(rendered.id)!;
+        const points = (routes.get(rendered.id) || []).map(point => fromFrame(point, orientation));
+        if (vertical) {
+            points.unshift(start);
+            points.push(end);
+        }
+        rendered.path = options.edgeStyle === 'spline' ? splinePath(points) : orthogonalPath(points);
+    });
+}
+
+// Edges pointing backwards are routed below the tables they would otherwise cross
+function getBackEdgePath(
+    graph: Graph,
+    positions: Map<string, Position>,
+    options: LayoutOptions,
+    expandedTables: ReadonlySet<string>,
+    start: number[],
+    end: number[],
+    loopIndex: number,
+    direction: number
+): string {
+    const { tableWidth, tableHeight, fieldHeight, fieldSpacing, verticalPadding } = options;
+    const left = Math.min(start[0], end[0]);
+    const right = Math.max(start[0], end[0]);
+
+    let bottom = Math.max(start[1], end[1]);
+    const index = getGraphIndex(graph);
+    index.tables.forEach(node => {
+        const pos = positions.get(node.id);
+        if (!pos || pos.x + tableWidth < left || pos.x > right) return;
+        const fieldCount = expandedTables.has(node.id) ? getFields(index, node.id).length : 0;
+        bottom = Math.max(bottom, pos.y + tableHeight + fieldCount * (fieldHeight + fieldSpacing));
+    });
+
+    // Spread consecutive back edges over a few lanes so they don't overlap
+    const laneY = bottom + verticalPadding / 2 + (loopIndex % 5) * 6;
+    const offset = Math.min(40, options.maxCurveOffset) * direction;
+    return `M ${start[0]},${start[1]} ` +
+        `C ${start[0] + offset},${start[1]} ${start[0] + offset},${laneY} ${start[0]},${laneY} ` +
+        `L ${end[0]},${laneY} ` +
+        `C ${end[0] - offset},${laneY} ${end[0] - offset},${end[1]} ${end[0]},${end[1]}`;
+}
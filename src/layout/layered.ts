@@ -0,0 +1,189 @@
+// A block in a level of the layout, i.e. a table. `height` includes its expanded fields.
+export interface LayeredNode {
+    id: string;
+    level: number;
+    height: number;
+}
+
+// An edge between two nodes. Offsets are measured from the top of each node to the row the
+// edge attaches to, so the ordering works at field granularity.
+export interface LayeredLink {
+    source: string;
+    sourceOffset: number;
+    target: string;
+    targetOffset: number;
+}
+
+interface Neighbor {
+    id: string;
+    ownOffset: number;
+    otherOffset: number;
+}
+
+// Above this many links crossings aren't counted and the last sweep's ordering is kept
+const MAX_COUNTED_LINKS = 2000;
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    // With an even count this is the barycenter of the two middle values
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Tops for nodes stacked in the given order that stay as close as possible to `targets`
+// without overlapping: a weighted isotonic regression solved with pool-adjacent-violators.
+// Nodes without a target stick to their nearest neighbor that has one.
+function placeLayer(heights: number[], targets: (number | null)[], weights: number[], spacing: number): number[] {
+    const offsets: number[] = [];
+    heights.reduce((offset, height, i) => {
+        offsets[i] = offset;
+        return offset + height + spacing;
+    }, 0);
+
+    // Shifted targets must be non-decreasing for the nodes not to overlap
+    const shifted = targets.map((target, i) => target === null ? null : target - offsets[i]);
+    const firstKnown = shifted.find(value => value !== null);
+    let previous = firstKnown === undefined || firstKnown === null ? 0 : firstKnown;
+    const filled = shifted.map(value => {
+        if (value === null) return previous;
+        previous = value;
+        return value;
+    });
+
+    const blocks: { total: number; weight: number; size: number }[] = [];
+    filled.forEach((value, i) => {
+        const weight = shifted[i] === null ? 1e-6 : weights[i];
+        blocks.push({ total: value * weight, weight, size: 1 });
+        while (blocks.length > 1) {
+            const last = blocks[blocks.length - 1];
+            const before = blocks[blocks.length - 2];
+            if (before.total / before.weight <= last.total / last.weight) break;
+            blocks.pop();
+            before.total += last.total;
+            before.weight += last.weight;
+            before.size += last.size;
+        }
+    });
+
+    const tops: number[] = [];
+    blocks.forEach(block => {
+        const value = block.total / block.weight;
+        for (let i = 0; i < block.size; i++) {
+            tops.push(value + offsets[tops.length]);
+        }
+    });
+    return tops;
+}
+
+// Sugiyama-style placement of nodes that already have levels: median ordering sweeps across the
+// levels to reduce edge crossings, then compaction that aligns connected rows without overlap.
+// Returns the top of every node, with the highest node at 0.
+export function layeredLayout(nodes: LayeredNode[], links: LayeredLink[], spacing: number, sweeps: number = 8): Map<string, number> {
+    const levelNumbers = Array.from(new Set(nodes.map(node => node.level))).sort((a, b) => a - b);
+    const layers: LayeredNode[][] = levelNumbers.map(level => nodes.filter(node => node.level === level));
+    const layerOf = new Map<string, number>();
+    layers.forEach((layer, index) => layer.forEach(node => layerOf.set(node.id, index)));
+
+    const neighbors = new Map<string, Neighbor[]>(nodes.map(node => [node.id, []]));
+    const layeredLinks = links.filter(link => (
+        layerOf.has(link.source) && layerOf.has(link.target) && layerOf.get(link.source) !== layerOf.get(link.target)
+    ));
+    layeredLinks.forEach(link => {
+        neighbors.get(link.source)!.push({ id: link.target, ownOffset: link.sourceOffset, otherOffset: link.targetOffset });
+        neighbors.get(link.target)!.push({ id: link.source, ownOffset: link.targetOffset, otherOffset: link.sourceOffset });
+    });
+
+    // Tops when every layer is simply stacked in its current order
+    const stackedTops = () => {
+        const tops = new Map<string, number>();
+        layers.forEach(layer => layer.reduce((top, node) => {
+            tops.set(node.id, top);
+            return top + node.height + spacing;
+        }, 0));
+        return tops;
+    };
+
+    // Desired top of a node: the median of the positions that line its rows up with its neighbors'
+    const desiredTop = (node: LayeredNode, tops: Map<string, number>, include: (layer: number) => boolean) => {
+        const candidates = neighbors.get(node.id)!
+            .filter(neighbor => include(layerOf.get(neighbor.id)!) && tops.has(neighbor.id))
+            .map(neighbor => tops.get(neighbor.id)! + neighbor.otherOffset - neighbor.ownOffset);
+        return candidates.length > 0 ? { top: median(candidates), weight: candidates.length } : null;
+    };
+
+    const countCrossings = (tops: Map<string, number>) => {
+        const groups = new Map<string, { low: number; high: number }[]>();
+        layeredLinks.forEach(link => {
+            const sourceY = tops.get(link.source)! + link.sourceOffset;
+            const targetY = tops.get(link.target)! + link.targetOffset;
+            const sourceLayer = layerOf.get(link.source)!;
+            const targetLayer = layerOf.get(link.target)!;
+            const [low, high] = sourceLayer < targetLayer ? [sourceY, targetY] : [targetY, sourceY];
+            const key = `${Math.min(sourceLayer, targetLayer)}-${Math.max(sourceLayer, targetLayer)}`;
+            if (!groups.has(key)) groups.set(key, []);
+            groups.get(key)!.push({ low, high });
+        });
+        let crossings = 0;
+        groups.forEach(group => {
+            for (let i = 0; i < group.length; i++) {
+                for (let j = i + 1; j < group.length; j++) {
+                    if ((group[i].low - group[j].low) * (group[i].high - group[j].high) < 0) crossings++;
+                }
+            }
+        });
+        return crossings;
+    };
+
+    const countable = layeredLinks.length <= MAX_COUNTED_LINKS;
+    let bestOrder = layers.map(layer => [...layer]);
+    let bestCrossings = countable ? countCrossings(stackedTops()) : Infinity;
+
+    for (let sweep = 0; sweep < sweeps && bestCrossings > 0; sweep++) {
+        const downward = sweep % 2 === 0;
+        const indices = layers.map((_, index) => index);
+        if (!downward) indices.reverse();
+
+        indices.forEach(index => {
+            const tops = stackedTops();
+            const keys = new Map(layers[index].map(node => {
+                const desired = desiredTop(node, tops, layer => downward ? layer < index : layer > index);
+                // Nodes without neighbors on that side keep their place
+                return [node.id, desired ? desired.top : tops.get(node.id)!];
+            }));
+            layers[index].sort((a, b) => keys.get(a.id)! - keys.get(b.id)!);
+        });
+
+        if (countable) {
+            const crossings = countCrossings(stackedTops());
+            if (crossings < bestCrossings) {
+                bestCrossings = crossings;
+                bestOrder = layers.map(layer => [...layer]);
+            }
+        } else {
+            bestOrder = layers.map(layer => [...layer]);
+        }
+    }
+
+    // Compaction: align each layer with the layers before it, then balance against both sides
+    const tops = new Map<string, number>();
+    const place = (index: number, include: (layer: number) => boolean) => {
+        const layer = bestOrder[index];
+        const desired = layer.map(node => desiredTop(node, tops, include));
+        const placed = placeLayer(
+            layer.map(node => node.height),
+            desired.map(d => d ? d.top : null),
+            desired.map(d => d ? d.weight : 0),
+            spacing
+        );
+        layer.forEach((node, i) => tops.set(node.id, placed[i]));
+    };
+    bestOrder.forEach((_, index) => place(index, layer => layer < index));
+    for (let index = bestOrder.length - 1; index >= 0; index--) {
+        place(index, layer => layer !== index);
+    }
+
+    if (tops.size === 0) return tops;
+    const minTop = Math.min(...Array.from(tops.values()));
+    tops.forEach((top, id) => tops.set(id, top - minTop));
+    return tops;
+}
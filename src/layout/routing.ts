@@ -0,0 +1,250 @@
+import * as d3 from 'd3';
+import { LayoutOrientation, Position } from "../types/index"
+
+// Routing works in a frame where `main` runs along the flow of the lineage and `cross` across
+// it, so one router serves every orientation.
+export interface FramePoint {
+    main: number;
+    cross: number;
+}
+
+// A level of the layout: where it lies along the flow, and the cross extents of its tables
+export interface RoutingBand {
+    start: number;
+    end: number;
+    obstacles: [number, number][];
+}
+
+export interface RouteRequest {
+    id: string;
+    from: FramePoint;
+    fromBand: number;
+    to: FramePoint;
+    toBand: number;
+}
+
+export interface RoutingOptions {
+    // Size of the channels before the first and after the last level
+    outerChannel: number;
+    // Distance between parallel edges
+    spacing: number;
+    // Distance kept between an edge and the tables it passes
+    margin: number;
+}
+
+interface Gap {
+    lo: number;
+    hi: number;
+}
+
+// A route turns once in each channel it passes: along the channel from `crosses[t]` to
+// `crosses[t + 1]`, at the main coordinate of its track `mains[t]`
+interface Route {
+    request: RouteRequest;
+    channels: number[];
+    crosses: number[];
+    mains: number[];
+}
+
+export function toFrame(point: Position, orientation: LayoutOrientation): FramePoint {
+    switch (orientation) {
+        case 'RL': return { main: -point.x, cross: point.y };
+        case 'TB': return { main: point.y, cross: point.x };
+        case 'BT': return { main: -point.y, cross: point.x };
+        default: return { main: point.x, cross: point.y };
+    }
+}
+
+export function fromFrame(point: FramePoint, orientation: LayoutOrientation): Position {
+    switch (orientation) {
+        case 'RL': return { x: -point.main, y: point.cross };
+        case 'TB': return { x: point.cross, y: point.main };
+        case 'BT': return { x: point.cross, y: -point.main };
+        default: return { x: point.main, y: point.cross };
+    }
+}
+
+function getGaps(obstacles: [number, number][]): Gap[] {
+    const sorted = [...obstacles].sort((a, b) => a[0] - b[0]);
+    const gaps: Gap[] = [];
+    let lo = -Infinity;
+    sorted.forEach(([start, end]) => {
+        if (start > lo) gaps.push({ lo, hi: start });
+        lo = Math.max(lo, end);
+    });
+    gaps.push({ lo, hi: Infinity });
+    return gaps;
+}
+
+// Closest cross coordinate to `desired` that stays `margin` away from the gap's sides
+function clampToGap(gap: Gap, desired: number, margin: number): number {
+    if (gap.hi - gap.lo < margin * 2) return (gap.lo + gap.hi) / 2;
+    return Math.min(Math.max(desired, gap.lo + margin), gap.hi - margin);
+}
+
+// Spreads `values` (sorted) at least `spacing` apart while keeping them within [lo, hi] when possible
+function separate(values: number[], spacing: number, lo: number, hi: number): number[] {
+    const result = [...values];
+    for (let i = 1; i < result.length; i++) {
+        result[i] = Math.max(result[i], result[i - 1] + spacing);
+    }
+    const overflow = result.length > 0 ? result[result.length - 1] - hi : 0;
+    if (overflow > 0) {
+        for (let i = result.length - 1; i >= 0; i--) {
+            const next = i < result.length - 1 ? result[i + 1] - spacing : hi;
+            result[i] = Math.min(result[i], next);
+        }
+        // Still not enough room: share the gap evenly
+        if (result[0] < lo && isFinite(lo)) {
+            const step = (hi - lo) / (result.length + 1);
+            return result.map((_, i) => lo + step * (i + 1));
+        }
+    }
+    return result;
+}
+
+// Routes every request through the channels between levels, passing intermediate levels through
+// the gaps between their tables and sending backward edges around the levels they span.
+// Returns a polyline per request, with parallel segments spread apart.
+export function routeEdges(bands: RoutingBand[], requests: RouteRequest[], options: RoutingOptions): Map<string, FramePoint[]> {
+    const { outerChannel, spacing, margin } = options;
+    const gapsByBand = bands.map(band => getGaps(band.obstacles));
+
+    // Channel k lies between band k and band k + 1; -1 is before the first band
+    const getChannel = (k: number): Gap => {
+        if (bands.length === 0) return { lo: -outerChannel, hi: outerChannel };
+        if (k < 0) return { lo: bands[0].start - outerChannel, hi: bands[0].start };
+        if (k >= bands.length - 1) return { lo: bands[bands.length - 1].end, hi: bands[bands.length - 1].end + outerChannel };
+        return { lo: bands[k].end, hi: bands[k + 1].start };
+    };
+
+    let laneCount = 0;
+    const routes: Route[] = requests.map(request => {
+        const { from, to, fromBand, toBand } = request;
+
+        if (toBand > fromBand) {
+            // Aim for the straight line between the ends in every level passed on the way
+            const crosses = [from.cross];
+            for (let band = fromBand + 1; band < toBand; band++) {
+                const progress = (band - fromBand) / (toBand - fromBand);
+                crosses.push(from.cross + (to.cross - from.cross) * progress);
+            }
+            crosses.push(to.cross);
+            const channels = crosses.slice(1).map((_, t) => fromBand + t);
+            return { request, channels, crosses, mains: [] };
+        }
+
+        // Backward edges leave downstream, run past every table in the levels they span and come back
+        let laneCross = Math.max(from.cross, to.cross);
+        for (let band = Math.max(toBand, 0); band <= fromBand && band < bands.length; band++) {
+            bands[band].obstacles.forEach(([, end]) => { laneCross = Math.max(laneCross, end); });
+        }
+        laneCross += margin * 2 + (laneCount++ % 5) * spacing;
+        return { request, channels: [fromBand, toBand - 1], crosses: [from.cross, laneCross, to.cross], mains: [] };
+    });
+
+    // Corridors: pass each level through the gap closest to where the edge wants to cross it,
+    // spreading edges that share a gap
+    const corridorGroups = new Map<string, { route: Route; index: number; gap: Gap }[]>();
+    routes.forEach(route => {
+        if (route.request.toBand <= route.request.fromBand) return;
+        for (let index = 1; index < route.crosses.length - 1; index++) {
+            const band = route.request.fromBand + index;
+            const desired = route.crosses[index];
+            const gaps = gapsByBand[band];
+            const distance = (gap: Gap) => Math.abs(clampToGap(gap, desired, margin) - desired);
+            const best = gaps.reduce((bestIndex, gap, i) => distance(gap) < distance(gaps[bestIndex]) ? i : bestIndex, 0);
+            const key = `${band}:${best}`;
+            if (!corridorGroups.has(key)) corridorGroups.set(key, []);
+            corridorGroups.get(key)!.push({ route, index, gap: gaps[best] });
+        }
+    });
+    corridorGroups.forEach(group => {
+        group.sort((a, b) => a.route.crosses[a.index] - b.route.crosses[b.index]);
+        const gap = group[0].gap;
+        const clamped = group.map(({ route, index }) => clampToGap(gap, route.crosses[index], margin));
+        const crosses = separate(clamped, spacing, gap.lo + margin, gap.hi - margin);
+        group.forEach(({ route, index }, i) => { route.crosses[index] = crosses[i]; });
+    });
+
+    // Channels: give each edge its own track so parallel edges don't merge into one line
+    const channelGroups = new Map<number, { route: Route; turn: number }[]>();
+    routes.forEach(route => route.channels.forEach((channel, turn) => {
+        if (!channelGroups.has(channel)) channelGroups.set(channel, []);
+        channelGroups.get(channel)!.push({ route, turn });
+    }));
+    channelGroups.forEach((group, channel) => {
+        const { lo, hi } = getChannel(channel);
+        const center = (lo + hi) / 2;
+        const step = Math.min(spacing, ((hi - lo) * 0.8) / group.length);
+        const low = ({ route, turn }: { route: Route; turn: number }) => Math.min(route.crosses[turn], route.crosses[turn + 1]);
+        const high = ({ route, turn }: { route: Route; turn: number }) => Math.max(route.crosses[turn], route.crosses[turn + 1]);
+        group.sort((a, b) => low(a) - low(b) || high(a) - high(b));
+        group.forEach(({ route, turn }, i) => {
+            route.mains[turn] = center + (i - (group.length - 1) / 2) * step;
+        });
+    });
+
+    const result = new Map<string, FramePoint[]>();
+    routes.forEach(({ request, crosses, mains }) => {
+        const points: FramePoint[] = [request.from];
+        mains.forEach((main, turn) => {
+            points.push({ main, cross: crosses[turn] }, { main, cross: crosses[turn + 1] });
+        });
+        points.push(request.to);
+        result.set(request.id, simplify(points));
+    });
+    return result;
+}
+
+// Drops repeated points and points in the middle of a straight run
+function simplify(points: FramePoint[]): FramePoint[] {
+    const result: FramePoint[] = [];
+    points.forEach(point => {
+        const last = result[result.length - 1];
+        if (last && last.main === point.main && last.cross === point.cross) return;
+        const beforeLast = result[result.length - 2];
+        if (beforeLast && last &&
+            ((beforeLast.main === last.main && last.main === point.main) ||
+             (beforeLast.cross === last.cross && last.cross === point.cross))) {
+            result[result.length - 1] = point;
+            return;
+        }
+        result.push(point);
+    });
+    return result;
+}
+
+// Polyline with rounded corners
+export function orthogonalPath(points: Position[], radius: number = 6): string {
+    if (points.length === 0) return '';
+    let path = `M ${points[0].x},${points[0].y}`;
+    for (let i = 1; i < points.length - 1; i++) {
+        const previous = points[i - 1];
+        const corner = points[i];
+        const next = points[i + 1];
+        const before = Math.hypot(corner.x - previous.x, corner.y - previous.y);
+        const after = Math.hypot(next.x - corner.x, next.y - corner.y);
+        const r = Math.min(radius, before / 2, after / 2);
+        if (r <= 0) continue;
+        const entry = {
+            x: corner.x - ((corner.x - previous.x) / before) * r,
+            y: corner.y - ((corner.y - previous.y) / before) * r
+        };
+        const exit = {
+            x: corner.x + ((next.x - corner.x) / after) * r,
+            y: corner.y + ((next.y - corner.y) / after) * r
+        };
+        path += ` L ${entry.x},${entry.y} Q ${corner.x},${corner.y} ${exit.x},${exit.y}`;
+    }
+    const last = points[points.length - 1];
+    return `${path} L ${last.x},${last.y}`;
+}
+
+// Smooth curve that follows the route; it starts and ends on the route's end points
+export function splinePath(points: Position[]): string {
+    return d3.line<Position>()
+        .x(p => p.x)
+        .y(p => p.y)
+        .curve(d3.curveBasis)(points) || '';
+}
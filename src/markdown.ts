@@ -0,0 +1,98 @@
+import { PopupSpan } from "./types/index"
+
+// One line of a note. Notes keep their line breaks, so every line stands on its own rather than
+// being joined into paragraphs as in full Markdown.
+export type MarkdownLine =
+    | { type: 'heading'; level: number; spans: PopupSpan[] }
+    | { type: 'listItem'; marker: string; spans: PopupSpan[] }
+    | { type: 'paragraph'; spans: PopupSpan[] }
+    | { type: 'blank' };
+
+type SpanStyle = Omit<PopupSpan, 'text'>;
+
+interface InlineRule {
+    pattern: RegExp;
+    // Text of the match and the style it adds; `literal` content is not parsed any further
+    apply: (match: RegExpExecArray) => { content: string; style: SpanStyle; literal?: boolean };
+}
+
+// Tried at every position in order; the earliest match wins
+const INLINE_RULES: InlineRule[] = [
+    { pattern: /\\([\\`*_[\]()#+\-.!])/, apply: match => ({ content: match[1], style: {}, literal: true }) },
+    { pattern: /`([^`]+)`/, apply: match => ({ content: match[1], style: { code: true }, literal: true }) },
+    { pattern: /\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)/, apply: match => ({ content: match[1], style: isSafeLink(match[2]) ? { href: match[2] } : {} }) },
+    { pattern: /\*\*(.+?)\*\*|__(.+?)__/, apply: match => ({ content: match[1] ?? match[2], style: { bold: true } }) },
+    // Underscores inside words are left alone, so snake_case names stay as they are
+    { pattern: /\*([^*\s](?:[^*]*[^*\s])?)\*|\b_([^_\s](?:[^_]*[^_\s])?)_\b/, apply: match => ({ content: match[1] ?? match[2], style: { italic: true } }) },
+];
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const LIST_ITEM = /^\s*([-*+•]|\d+[.)])\s+(.*)$/;
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+// Only links that can't run script are made clickable. The href is parsed as the browser will open
+// it, since URL parsing drops control characters and whitespace that would hide a scheme from a
+// pattern. Relative links resolve against the page, or any http URL outside a browser.
+export function isSafeLink(href: string): boolean {
+    const base = typeof location !== 'undefined' ? location.href : 'http://localhost/';
+    try {
+        return SAFE_PROTOCOLS.includes(new URL(href, base).protocol);
+    } catch {
+        return false;
+    }
+}
+
+export function parseMarkdownLines(text: string): MarkdownLine[] {
+    return text.split('\n').map((line): MarkdownLine => {
+        if (line.trim() === '') return { type: 'blank' };
+
+        const heading = HEADING.exec(line);
+        if (heading) return { type: 'heading', level: heading[1].length, spans: parseInline(heading[2]) };
+
+        const item = LIST_ITEM.exec(line);
+        if (item) {
+            const marker = /\d/.test(item[1]) ? item[1] : '•';
+            return { type: 'listItem', marker, spans: parseInline(item[2]) };
+        }
+        return { type: 'paragraph', spans: parseInline(line.trim()) };
+    });
+}
+
+// Bold, italic, inline code and links, which may be nested
+export function parseInline(text: string, style: SpanStyle = {}): PopupSpan[] {
+    const spans: PopupSpan[] = [];
+    let rest = text;
+    while (rest) {
+        let earliest: { rule: InlineRule; match: RegExpExecArray } | null = null;
+        for (const rule of INLINE_RULES) {
+            const match = rule.pattern.exec(rest);
+            if (match && (!earliest || match.index < earliest.match.index)) earliest = { rule, match };
+        }
+        if (!earliest) {
+            spans.push({ ...style, text: rest });
+            break;
+        }
+
+        const { rule, match } = earliest;
+        if (match.index > 0) spans.push({ ...style, text: rest.slice(0, match.index) });
+        const { content, style: added, literal } = rule.apply(match);
+        const merged = { ...style, ...added };
+        if (literal) {
+            spans.push({ ...merged, text: content });
+        } else {
+            spans.push(...parseInline(content, merged));
+        }
+        rest = rest.slice(match.index + match[0].length);
+    }
+    // Neighbours with the same style are joined, so wrapping sees whole words
+    return spans.reduce<PopupSpan[]>((joined, span) => {
+        const last = joined[joined.length - 1];
+        if (last && last.bold === span.bold && last.italic === span.italic && last.code === span.code && last.href === span.href) {
+            last.text += span.text;
+        } else {
+            joined.push({ ...span });
+        }
+        return joined;
+    }, []);
+}
@@ -0,0 +1,127 @@
+import * as d3 from 'd3';
+import { MinimapOptions, Position } from "./types/index"
+import { themeColor, themeShadow } from "./theme"
+
+export interface MinimapRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+const MARGIN = 12;
+const PADDING = 6;
+
+// Overview of the whole map in a corner of the container. Tables are drawn as plain blocks and the
+// part of the map in view as a rectangle; clicking or dragging on it pans the map to that point.
+export class Minimap {
+    private overlay: d3.Selection<HTMLDivElement, unknown, null, undefined>;
+    private svg: d3.Selection<SVGSVGElement, unknown, null, undefined>;
+    private content: d3.Selection<SVGGElement, unknown, null, undefined>;
+    private viewport: d3.Selection<SVGRectElement, unknown, null, undefined>;
+    private width: number = 200;
+    private height: number = 140;
+    private tables: MinimapRect[] = [];
+
+    constructor(container: HTMLElement, options: boolean | MinimapOptions, onNavigate: (point: Position) => void) {
+        this.overlay = d3.select(container).append('div')
+            .attr('class', 'lineage-minimap')
+            .style('position', 'absolute')
+            .style('overflow', 'hidden')
+            .style('background', themeColor('surface'))
+            .style('border', `1px solid ${themeColor('border')}`)
+            .style('border-radius', '6px')
+            .style('filter', themeShadow('popup'))
+            .style('cursor', 'crosshair') as d3.Selection<HTMLDivElement, unknown, null, undefined>;
+
+        this.svg = this.overlay.append('svg')
+            .style('display', 'block') as d3.Selection<SVGSVGElement, unknown, null, undefined>;
+        this.content = this.svg.append('g') as d3.Selection<SVGGElement, unknown, null, undefined>;
+        this.viewport = this.content.append('rect')
+            .attr('class', 'minimap-viewport')
+            .style('fill', themeColor('upstream'))
+            .style('fill-opacity', 0.08)
+            .style('stroke', themeColor('upstream'))
+            .style('stroke-width', 1.5)
+            .attr('vector-effect', 'non-scaling-stroke') as d3.Selection<SVGRectElement, unknown, null, undefined>;
+
+        const navigate = (event: d3.D3DragEvent<SVGSVGElement, unknown, unknown>) => {
+            const [x, y] = d3.pointer(event, this.content.node());
+            onNavigate({ x, y });
+        };
+        this.svg.call(d3.drag<SVGSVGElement, unknown>()
+            .container(() => this.svg.node() as SVGSVGElement)
+            .on('start drag', navigate));
+
+        this.setOptions(options);
+    }
+
+    setOptions(options: boolean | MinimapOptions): void {
+        const { position = 'bottom-right', width = 200, height = 140 } = options === true ? {} : options || {};
+        this.width = width;
+        this.height = height;
+
+        const [vertical, horizontal] = position.split('-');
+        this.overlay
+            .style('top', vertical === 'top' ? `${MARGIN}px` : 'auto')
+            .style('bottom', vertical === 'bottom' ? `${MARGIN}px` : 'auto')
+            .style('left', horizontal === 'left' ? `${MARGIN}px` : 'auto')
+            .style('right', horizontal === 'right' ? `${MARGIN}px` : 'auto')
+            .style('width', `${width}px`)
+            .style('height', `${height}px`);
+        this.svg
+            .attr('width', width)
+            .attr('height', height);
+        this.fit();
+    }
+
+    // Redraws the tables, in graph coordinates
+    update(tables: MinimapRect[]): void {
+        this.tables = tables;
+        this.content.selectAll<SVGRectElement, MinimapRect>('.minimap-table')
+            .data(tables)
+            .join('rect')
+            .attr('class', 'minimap-table')
+            .attr('x', d => d.x)
+            .attr('y', d => d.y)
+            .attr('width', d => d.width)
+            .attr('height', d => d.height)
+            .attr('rx', 2)
+            .style('fill', themeColor('border'))
+            .style('stroke', 'none');
+        this.viewport.raise();
+        this.fit();
+    }
+
+    // The part of the map in view, in graph coordinates
+    setViewport(rect: MinimapRect): void {
+        this.viewport
+            .attr('x', rect.x)
+            .attr('y', rect.y)
+            .attr('width', Math.max(rect.width, 0))
+            .attr('height', Math.max(rect.height, 0));
+    }
+
+    // Scales the tables to fill the minimap, centered
+    private fit(): void {
+        if (this.tables.length === 0) {
+            this.content.attr('transform', null);
+            return;
+        }
+        const minX = Math.min(...this.tables.map(rect => rect.x));
+        const minY = Math.min(...this.tables.map(rect => rect.y));
+        const maxX = Math.max(...this.tables.map(rect => rect.x + rect.width));
+        const maxY = Math.max(...this.tables.map(rect => rect.y + rect.height));
+        const scale = Math.min(
+            (this.width - PADDING * 2) / Math.max(maxX - minX, 1),
+            (this.height - PADDING * 2) / Math.max(maxY - minY, 1)
+        );
+        const offsetX = (this.width - (maxX - minX) * scale) / 2 - minX * scale;
+        const offsetY = (this.height - (maxY - minY) * scale) / 2 - minY * scale;
+        this.content.attr('transform', `translate(${offsetX},${offsetY}) scale(${scale})`);
+    }
+
+    destroy(): void {
+        this.overlay.remove();
+    }
+}
@@ -0,0 +1,29 @@
+import { Edge, Graph, GraphProp, Node } from "./types/index"
+
+// The graph the map works on, built from graph props without changing them. Fields without a
+// `tableId` belong to the table named before the `:` in their id. Edges without an id get one from
+// their ends; ids that are already taken get the edge's index added, so keyed joins keep every edge.
+// A graph that needs none of this is returned as is, keeping caches keyed on it.
+export function normalizeGraph(data: GraphProp): Graph {
+    let changed = false;
+    const nodes = data.nodes.map((node): Node => {
+        if (node.type !== 'field' || node.tableId) return node as Node;
+        changed = true;
+        return { ...node, tableId: node.id.split(':')[0] };
+    });
+
+    const ids = new Set<string>();
+    const edges = data.edges.map((edge, index): Edge => {
+        const base = edge.id || `${edge.source}->${edge.target}`;
+        let id = base;
+        for (let n = index; ids.has(id); n++) {
+            id = `${base}#${n}`;
+        }
+        ids.add(id);
+        if (id === edge.id) return edge as Edge;
+        changed = true;
+        return { ...edge, id };
+    });
+
+    return changed ? { nodes, edges } : data as Graph;
+}
@@ -0,0 +1,35 @@
+import { LineageMapOptions } from "./types/index"
+
+// Every option with its default filled in
+export function resolveOptions(options: LineageMapOptions = {}): Required<LineageMapOptions> {
+    return {
+        width: options.width || '100%',
+        height: options.height || '100%',
+        tableWidth: options.tableWidth || 150,
+        tableHeight: options.tableHeight || 40,
+        fieldHeight: options.fieldHeight || 20,
+        fieldSpacing: options.fieldSpacing || 4,
+        levelPadding: options.levelPadding || 100,
+        verticalPadding: options.verticalPadding || 50,
+        popUpWidth: options.popUpWidth || 300,
+        popUpFloat: options.popUpFloat || "high",
+        popUpMaxHeight: options.popUpMaxHeight !== undefined ? options.popUpMaxHeight : 400,
+        formatSql: options.formatSql || false,
+        sqlLineNumbers: options.sqlLineNumbers !== undefined ? options.sqlLineNumbers : true,
+        maxCurveOffset: options.maxCurveOffset || 100,
+        lineageDirection: options.lineageDirection || "upstream",
+        showSearch: options.showSearch || false,
+        inferEdgesFromSql: options.inferEdgesFromSql || false,
+        validation: options.validation || {},
+        layoutAlgorithm: options.layoutAlgorithm || "simple",
+        orientation: options.orientation || "LR",
+        tableLevelView: options.tableLevelView || false,
+        edgeStyle: options.edgeStyle || "curved",
+        arrowheads: options.arrowheads || false,
+        theme: options.theme || "light",
+        minimap: options.minimap || false,
+        viewportCulling: options.viewportCulling !== undefined ? options.viewportCulling : true,
+        lowDetailScale: options.lowDetailScale !== undefined ? options.lowDetailScale : 0.4,
+        shortestPathOnly: options.shortestPathOnly || false
+    };
+}
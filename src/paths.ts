@@ -0,0 +1,110 @@
+import { Edge, Graph, LineagePath, LineagePathOptions, LineagePathStep } from "./types/index"
+import { GraphIndex, getEdges, getGraphIndex } from "./graphIndex"
+
+// Hops from `nodeId` to every node it reaches (downstream) or is reached from (upstream)
+function getDistances(index: GraphIndex, nodeId: string, direction: 'upstream' | 'downstream'): Map<string, number> {
+    const distances = new Map([[nodeId, 0]]);
+    const queue = [nodeId];
+    for (let i = 0; i < queue.length; i++) {
+        const distance = distances.get(queue[i])! + 1;
+        getEdges(index, queue[i], direction).forEach(edge => {
+            const next = direction === 'upstream' ? edge.source : edge.target;
+            if (!distances.has(next)) {
+                distances.set(next, distance);
+                queue.push(next);
+            }
+        });
+    }
+    return distances;
+}
+
+function toStep(index: GraphIndex, edge: Edge): LineagePathStep {
+    const target = index.nodes.get(edge.target);
+    const transformation = edge.transformation ?? (target?.type === 'field' ? target.transformation : undefined);
+    return { edgeId: edge.id, source: edge.source, target: edge.target, transformation };
+}
+
+// Simple paths from `source` to `target` over `outgoing`, trying the edges closest to the target
+// first. Iterative, so long chains can't overflow the call stack.
+function listPaths(
+    source: string,
+    target: string,
+    outgoing: Map<string, Edge[]>,
+    limit: number
+): Edge[][] {
+    const paths: Edge[][] = [];
+    const visited = new Set([source]);
+    const trail: Edge[] = [];
+    const work: { id: string; edge: number }[] = [{ id: source, edge: 0 }];
+
+    while (work.length > 0 && paths.length < limit) {
+        const frame = work[work.length - 1];
+        const edges = outgoing.get(frame.id) || [];
+        if (frame.edge >= edges.length) {
+            work.pop();
+            visited.delete(frame.id);
+            trail.pop();
+            continue;
+        }
+
+        const edge = edges[frame.edge++];
+        if (visited.has(edge.target)) continue;
+        if (edge.target === target) {
+            paths.push([...trail, edge]);
+            continue;
+        }
+        visited.add(edge.target);
+        trail.push(edge);
+        work.push({ id: edge.target, edge: 0 });
+    }
+    return paths;
+}
+
+// The fields and edges lying on any path from `source` down to `target`, or only on the shortest
+// ones, with the paths listed hop by hop
+export function findLineagePaths(
+    graph: Graph,
+    source: string,
+    target: string,
+    options: LineagePathOptions = {}
+): LineagePath {
+    const { shortestOnly = false, maxPaths = 20 } = options;
+    const index = getGraphIndex(graph);
+    const result: LineagePath = { source, target, nodeIds: [], edgeIds: [], paths: [], truncated: false };
+    if (!index.nodes.has(source) || !index.nodes.has(target) || source === target) return result;
+
+    const fromSource = getDistances(index, source, 'downstream');
+    const toTarget = getDistances(index, target, 'upstream');
+    const length = fromSource.get(target);
+    if (length === undefined) return result;
+
+    // An edge lies on a path when the source reaches its start and its end reaches the target.
+    // Paths end at the target, so edges leaving it or leading back to the source are left out.
+    const onPath = graph.edges.filter(edge => {
+        if (edge.source === target || edge.target === source) return false;
+        const before = fromSource.get(edge.source);
+        const after = toTarget.get(edge.target);
+        if (before === undefined || after === undefined) return false;
+        return !shortestOnly || before + 1 + after === length;
+    });
+
+    const nodeIds = new Set([source, target]);
+    const outgoing = new Map<string, Edge[]>();
+    onPath.forEach(edge => {
+        nodeIds.add(edge.source);
+        nodeIds.add(edge.target);
+        if (!outgoing.has(edge.source)) outgoing.set(edge.source, []);
+        outgoing.get(edge.source)!.push(edge);
+    });
+    outgoing.forEach(edges => edges.sort((a, b) => toTarget.get(a.target)! - toTarget.get(b.target)!));
+
+    const paths = listPaths(source, target, outgoing, maxPaths + 1);
+    result.truncated = paths.length > maxPaths;
+    result.paths = paths
+        .slice(0, maxPaths)
+        .sort((a, b) => a.length - b.length)
+        .map(path => path.map(edge => toStep(index, edge)));
+    result.nodeIds = Array.from(index.nodes.keys()).filter(id => nodeIds.has(id));
+    result.edgeIds = onPath.map(edge => edge.id);
+    return result;
+}
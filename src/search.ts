@@ -0,0 +1,83 @@
+import { Graph, Node, SearchMatchField, SearchResult } from "./types/index"
+
+// Relative weight of each searchable attribute, so a hit on a name outranks one buried in a note
+const FIELD_WEIGHTS: Record<SearchMatchField, number> = {
+    name: 1,
+    id: 0.9,
+    transformation: 0.6,
+    note: 0.5,
+    description: 0.5,
+};
+
+// Scores how well `query` matches `text`: contiguous substrings score highest (more so at the
+// start of a word), otherwise the characters of the query must appear in order. Returns null on no match.
+export function fuzzyScore(query: string, text: string, allowSubsequence: boolean = true): number | null {
+    const tokens = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    const t = text.toLowerCase();
+    if (tokens.length === 0 || !t) return null;
+
+    // Every whitespace separated token has to match on its own
+    let total = 0;
+    for (const token of tokens) {
+        const score = scoreToken(token, t, allowSubsequence);
+        if (score === null) return null;
+        total += score;
+    }
+    return total / tokens.length;
+}
+
+function scoreToken(q: string, t: string, allowSubsequence: boolean): number | null {
+    const index = t.indexOf(q);
+    if (index !== -1) {
+        const atWordStart = index === 0 || /[^a-z0-9]/.test(t[index - 1]);
+        const exact = q.length === t.length;
+        return exact ? 1 : (atWordStart ? 0.9 : 0.75) - Math.min(index / t.length, 1) * 0.1;
+    }
+
+    if (!allowSubsequence) return null;
+
+    // Subsequence match, penalized by how spread out the matched characters are
+    let position = 0;
+    let gaps = 0;
+    for (const char of q) {
+        const found = t.indexOf(char, position);
+        if (found === -1) return null;
+        if (found > position && position > 0) gaps += found - position;
+        position = found + 1;
+    }
+    return Math.max(0.1, 0.5 - (gaps / t.length) * 0.4);
+}
+
+function getSearchableText(node: Node): [SearchMatchField, string | undefined][] {
+    return [
+        ['name', node.name],
+        ['id', node.id],
+        ['transformation', node.type === 'field' ? node.transformation : undefined],
+        ['note', node.note],
+        ['description', node.type === 'field' ? node.description : undefined],
+    ];
+}
+
+export function searchGraph(graph: Graph, query: string): SearchResult[] {
+    if (!query.trim()) return [];
+
+    const results: SearchResult[] = [];
+    graph.nodes.forEach(node => {
+        let best: SearchResult | null = null;
+        getSearchableText(node).forEach(([field, text]) => {
+            if (!text) return;
+            // Free text is only matched as a substring, otherwise short queries match every note
+            const allowSubsequence = field === 'name' || field === 'id';
+            const score = fuzzyScore(query, text, allowSubsequence);
+            if (score === null) return;
+            const weighted = score * FIELD_WEIGHTS[field];
+            if (!best || weighted > best.score) {
+                best = { nodeId: node.id, score: weighted, matchedIn: field };
+            }
+        });
+        if (best) results.push(best);
+    });
+
+    // Array.prototype.sort is stable, so ties keep graph order
+    return results.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,153 @@
+import { SqlHighlightToken, SqlHighlightType } from "../types/index"
+import { SqlToken, tokenizeSql } from "./tokenizer"
+
+const SQL_KEYWORDS = new Set([
+    'select', 'distinct', 'from', 'where', 'group', 'by', 'having', 'order', 'limit', 'offset', 'fetch', 'qualify',
+    'window', 'with', 'recursive', 'as', 'union', 'intersect', 'except', 'minus', 'all', 'join', 'inner', 'left',
+    'right', 'full', 'outer', 'cross', 'natural', 'lateral', 'on', 'using', 'and', 'or', 'not', 'null', 'is', 'in',
+    'like', 'ilike', 'between', 'exists', 'case', 'when', 'then', 'else', 'end', 'true', 'false', 'over',
+    'partition', 'rows', 'range', 'unbounded', 'preceding', 'following', 'current', 'row', 'asc', 'desc', 'nulls',
+    'first', 'last', 'interval', 'filter', 'within', 'cast', 'insert', 'into', 'values', 'update', 'set', 'delete',
+    'create', 'table', 'view', 'replace', 'merge', 'matched', 'any', 'some', 'escape', 'similar', 'to',
+]);
+
+// Clauses of a query that start a new line when formatting
+const CLAUSE_KEYWORDS = new Set([
+    'select', 'from', 'where', 'group', 'having', 'order', 'limit', 'offset', 'fetch', 'qualify', 'window', 'with',
+    'union', 'intersect', 'except', 'minus', 'values',
+]);
+
+// Keywords that are also called like functions
+const CALL_KEYWORDS = new Set(['cast', 'any', 'some', 'filter', 'replace', 'left', 'right']);
+
+const JOIN_KEYWORDS = new Set(['join', 'inner', 'left', 'right', 'full', 'outer', 'cross', 'natural', 'lateral']);
+
+function getHighlightType(token: SqlToken): SqlHighlightType {
+    switch (token.type) {
+        case 'comment':
+        case 'string':
+        case 'number':
+            return token.type;
+        case 'identifier':
+            return SQL_KEYWORDS.has(token.text.toLowerCase()) ? 'keyword' : 'identifier';
+        case 'quotedIdentifier':
+        case 'fieldRef':
+            return 'identifier';
+        default:
+            return 'plain';
+    }
+}
+
+// Highlighted tokens of each line of `sql`; strings and comments spanning lines are split at the breaks
+export function highlightSqlLines(sql: string): SqlHighlightToken[][] {
+    const lines: SqlHighlightToken[][] = [[]];
+    tokenizeSql(sql).forEach(token => {
+        const type = getHighlightType(token);
+        token.text.split('\n').forEach((text, index) => {
+            if (index > 0) lines.push([]);
+            if (text) lines[lines.length - 1].push({ type, text });
+        });
+    });
+    return lines;
+}
+
+interface FormatFrame {
+    // Subqueries are laid out clause by clause; other parentheses stay on their line
+    subquery: boolean;
+    indent: number;
+    clause: string;
+}
+
+// Re-indents a query with each clause on its own line, select items one per line and keywords in
+// upper case. Comments and the text of other tokens are kept as written.
+export function formatSql(sql: string): string {
+    const tokens = tokenizeSql(sql).filter(token => token.type !== 'whitespace');
+    const lines: string[] = [];
+    const frames: FormatFrame[] = [{ subquery: true, indent: 0, clause: '' }];
+    let line = '';
+    let joinNext = false;
+    let betweenPending = false;
+
+    const newLine = (indent: number) => {
+        if (line.trim()) lines.push(line.trimEnd());
+        line = '  '.repeat(indent);
+    };
+    const append = (text: string, spaceBefore: boolean = true) => {
+        if (spaceBefore && !joinNext && line.trim() && !line.endsWith(' ')) line += ' ';
+        line += text;
+        joinNext = false;
+    };
+
+    tokens.forEach((token, i) => {
+        const frame = frames[frames.length - 1];
+        const word = token.type === 'identifier' ? token.text.toLowerCase() : '';
+        const previous = tokens[i - 1];
+        const previousWord = previous?.type === 'identifier' ? previous.text.toLowerCase() : '';
+        const text = SQL_KEYWORDS.has(word) ? token.text.toUpperCase() : token.text;
+
+        if (token.type === 'comment') {
+            append(token.text);
+            // A line comment runs to the end of its line
+            if (token.text.startsWith('--')) newLine(frame.indent + (frame.clause === 'select' ? 1 : 0));
+            return;
+        }
+
+        if (frame.subquery && word) {
+            const startsJoin = JOIN_KEYWORDS.has(word) && !JOIN_KEYWORDS.has(previousWord);
+            if (CLAUSE_KEYWORDS.has(word)) {
+                newLine(frame.indent);
+                frame.clause = word;
+            } else if (startsJoin) {
+                newLine(frame.indent);
+                frame.clause = 'join';
+            } else if ((word === 'and' || word === 'or') && ['where', 'having', 'join', 'qualify'].includes(frame.clause)) {
+                if (betweenPending && word === 'and') {
+                    betweenPending = false;
+                } else {
+                    newLine(frame.indent + 1);
+                }
+            }
+            if (word === 'between') betweenPending = true;
+            append(text);
+            return;
+        }
+
+        if (token.text === '(') {
+            const next = tokens[i + 1];
+            const nextWord = next?.type === 'identifier' ? next.text.toLowerCase() : '';
+            const subquery = nextWord === 'select' || nextWord === 'with';
+            // Function calls keep their parenthesis next to the name
+            append('(', !previous || previous.type !== 'identifier' ||
+                (SQL_KEYWORDS.has(previousWord) && !CALL_KEYWORDS.has(previousWord)));
+            frames.push({ subquery, indent: frame.indent + 1, clause: '' });
+            if (subquery) {
+                newLine(frame.indent + 1);
+            } else {
+                joinNext = true;
+            }
+            return;
+        }
+        if (token.text === ')') {
+            if (frames.length > 1) {
+                frames.pop();
+                if (frame.subquery) newLine(frame.indent - 1);
+            }
+            append(')', false);
+            return;
+        }
+        if (token.text === ',') {
+            append(',', false);
+            if (frame.subquery && frame.clause === 'select') newLine(frame.indent + 1);
+            if (frame.subquery && frame.clause === 'with') newLine(frame.indent);
+            return;
+        }
+        if (token.text === '.' || token.text === '::') {
+            append(token.text, false);
+            joinNext = true;
+            return;
+        }
+        append(text);
+    });
+    newLine(0);
+    return lines.join('\n');
+}
@@ -0,0 +1,313 @@
+import { EdgeProp, GraphProp, NodeProp, SqlAnalysisResult, SqlUnresolvedReference } from "../types/index"
+import { extractTextBlocks } from "../textBlocks"
+import { tokenizeSql } from "./tokenizer"
+import { SqlOutputColumn, SqlQuery, SqlReference, SqlSource, parseExpressionReferences, parseSelect, startsWithSelect } from "./parser"
+
+// Recursive CTEs can refer to themselves; stop following references this deep
+const MAX_RESOLUTION_DEPTH = 25;
+
+interface Resolution {
+    fields: string[];
+    unresolved: { reference: string; reason: string }[];
+}
+
+const emptyResolution = (): Resolution => ({ fields: [], unresolved: [] });
+
+function mergeResolutions(resolutions: Resolution[]): Resolution {
+    return {
+        fields: resolutions.flatMap(r => r.fields),
+        unresolved: resolutions.flatMap(r => r.unresolved),
+    };
+}
+
+function getTableId(node: NodeProp): string | undefined {
+    if (node.type === 'table') return node.id;
+    return node.tableId || node.id.split(':')[0];
+}
+
+// Case-insensitive lookups from SQL names to graph ids
+class GraphNameIndex {
+    private tables: Map<string, string> = new Map();
+    private ambiguousTables: Set<string> = new Set();
+    private fieldsByTable: Map<string, Map<string, string>> = new Map();
+    readonly fieldIds: Set<string> = new Set();
+
+    constructor(graph: GraphProp) {
+        graph.nodes.forEach(node => {
+            if (node.type === 'table') {
+                this.addTableKey(node.id.toLowerCase(), node.id);
+                this.addTableKey(node.name.toLowerCase(), node.id);
+                // `schema.table` in SQL also matches a table known only as `table`, and vice versa
+                this.addTableKey(node.id.toLowerCase().split('.').pop()!, node.id);
+                this.addTableKey(node.name.toLowerCase().split('.').pop()!, node.id);
+            } else {
+                const tableId = getTableId(node)!;
+                this.fieldIds.add(node.id);
+                if (!this.fieldsByTable.has(tableId)) this.fieldsByTable.set(tableId, new Map());
+                const fields = this.fieldsByTable.get(tableId)!;
+                fields.set(node.name.toLowerCase(), node.id);
+                fields.set(node.id.slice(tableId.length + 1).toLowerCase(), node.id);
+            }
+        });
+    }
+
+    private addTableKey(key: string, tableId: string): void {
+        const existing = this.tables.get(key);
+        if (existing && existing !== tableId) {
+            this.ambiguousTables.add(key);
+        }
+        this.tables.set(key, tableId);
+    }
+
+    findTable(name: string): string | null {
+        const key = name.toLowerCase();
+        if (this.tables.has(key) && !this.ambiguousTables.has(key)) return this.tables.get(key)!;
+        const shortKey = key.split('.').pop()!;
+        if (this.tables.has(shortKey) && !this.ambiguousTables.has(shortKey)) return this.tables.get(shortKey)!;
+        return null;
+    }
+
+    findField(tableId: string, column: string): string | null {
+        return this.fieldsByTable.get(tableId)?.get(column.toLowerCase()) || null;
+    }
+}
+
+class SqlResolver {
+    constructor(private index: GraphNameIndex) {}
+
+    resolveReferences(references: SqlReference[], scope: SqlQuery | null, depth: number = 0): Resolution {
+        return mergeResolutions(references.map(reference => this.resolveReference(reference, scope, depth)));
+    }
+
+    // Unqualified columns of a bare expression come from the tables feeding the field, or failing
+    // that from the field's own table
+    resolveExpression(references: SqlReference[], tiers: string[][]): Resolution {
+        return mergeResolutions(references.map(reference => {
+            if (reference.kind !== 'column' || reference.qualifier.length > 0) {
+                return this.resolveReference(reference, null, 0);
+            }
+            for (const tableIds of tiers) {
+                const candidates = tableIds.filter(tableId => this.index.findField(tableId, reference.column));
+                if (candidates.length === 1) {
+                    return this.resolveInTable(candidates[0], reference.column, reference.text);
+                }
+                if (candidates.length > 1) {
+                    return { fields: [], unresolved: [{ reference: reference.text, reason: 'Column is ambiguous between several upstream tables.' }] };
+                }
+            }
+            return { fields: [], unresolved: [{ reference: reference.text, reason: "Neither the field's upstream tables nor its own table have this column." }] };
+        }));
+    }
+
+    private resolveReference(reference: SqlReference, scope: SqlQuery | null, depth: number): Resolution {
+        if (depth > MAX_RESOLUTION_DEPTH) return emptyResolution();
+
+        if (reference.kind === 'field') {
+            return this.index.fieldIds.has(reference.fieldId)
+                ? { fields: [reference.fieldId], unresolved: [] }
+                : { fields: [], unresolved: [{ reference: reference.text, reason: 'No field with this id exists in the graph.' }] };
+        }
+
+        if (reference.kind === 'subquery') {
+            return this.resolveReferences(reference.query.outputs.flatMap(output => output.references), reference.query, depth + 1);
+        }
+
+        if (reference.qualifier.length > 0) {
+            const qualifier = reference.qualifier.join('.').toLowerCase();
+            const source = this.findSource(scope, qualifier) ||
+                this.findSource(scope, reference.qualifier[reference.qualifier.length - 1].toLowerCase());
+            if (source) {
+                return this.resolveInSource(source, reference.column, reference.text, depth);
+            }
+            // Without a matching FROM item, treat the qualifier as a table name
+            const tableId = this.index.findTable(qualifier);
+            if (!tableId) {
+                return { fields: [], unresolved: [{ reference: reference.text, reason: `Table "${reference.qualifier.join('.')}" is not in the graph.` }] };
+            }
+            return this.resolveInTable(tableId, reference.column, reference.text);
+        }
+
+        // Bare expressions resolve their unqualified columns through `resolveExpression`
+        if (!scope) {
+            return { fields: [], unresolved: [{ reference: reference.text, reason: 'Column has no table to resolve against.' }] };
+        }
+
+        for (let current: SqlQuery | null = scope; current; current = current.parent) {
+            const sources = Array.from(new Set(current.sources.values()));
+            const candidates = sources.filter(source => this.sourceHasColumn(source, reference.column));
+            if (candidates.length === 1) {
+                return this.resolveInSource(candidates[0], reference.column, reference.text, depth);
+            }
+            if (candidates.length > 1) {
+                return { fields: [], unresolved: [{ reference: reference.text, reason: 'Column is ambiguous between several joined tables.' }] };
+            }
+            if (sources.length === 1) {
+                return this.resolveInSource(sources[0], reference.column, reference.text, depth);
+            }
+        }
+        return { fields: [], unresolved: [{ reference: reference.text, reason: 'No table in the FROM clause has this column.' }] };
+    }
+
+    private findSource(scope: SqlQuery | null, alias: string): SqlSource | null {
+        for (let current = scope; current; current = current.parent) {
+            const source = current.sources.get(alias);
+            if (source) return source;
+        }
+        return null;
+    }
+
+    private findOutput(query: SqlQuery, column: string): SqlOutputColumn | undefined {
+        return query.outputs.find(output => output.name?.toLowerCase() === column.toLowerCase());
+    }
+
+    private sourceHasColumn(source: SqlSource, column: string): boolean {
+        if (source.kind === 'table') {
+            const tableId = this.index.findTable(source.name);
+            return !!tableId && !!this.index.findField(tableId, column);
+        }
+        return !!this.findOutput(source.query, column) || source.query.outputs.some(output => output.star !== undefined);
+    }
+
+    private resolveInTable(tableId: string, column: string, text: string): Resolution {
+        const fieldId = this.index.findField(tableId, column);
+        return fieldId
+            ? { fields: [fieldId], unresolved: [] }
+            : { fields: [], unresolved: [{ reference: text, reason: `Table "${tableId}" has no field "${column}".` }] };
+    }
+
+    private resolveInSource(source: SqlSource, column: string, text: string, depth: number): Resolution {
+        if (source.kind === 'table') {
+            const tableId = this.index.findTable(source.name);
+            if (!tableId) {
+                return { fields: [], unresolved: [{ reference: text, reason: `Table "${source.name}" is not in the graph.` }] };
+            }
+            return this.resolveInTable(tableId, column, text);
+        }
+
+        // Column of a CTE or derived table: follow the expression that produced it
+        const output = this.findOutput(source.query, column);
+        if (output) {
+            return this.resolveReferences(output.references, source.query, depth + 1);
+        }
+        const star = source.query.outputs.find(o => o.star !== undefined);
+        if (star) {
+            const starReference: SqlReference = {
+                kind: 'column',
+                qualifier: star.star ? [star.star] : [],
+                column,
+                text,
+            };
+            return this.resolveReference(starReference, source.query, depth + 1);
+        }
+        return { fields: [], unresolved: [{ reference: text, reason: 'The subquery or CTE does not select this column.' }] };
+    }
+}
+
+// SQL texts that describe how a field is produced
+function getFieldSqlTexts(field: NodeProp): string[] {
+    const texts: string[] = [];
+    if (field.type === 'field' && field.transformation) {
+        texts.push(field.transformation);
+    }
+    if (field.note) {
+        extractTextBlocks(field.note)
+            .filter(block => block.type === 'sql')
+            .forEach(block => texts.push(block.content));
+    }
+    return texts;
+}
+
+function matchesFieldName(output: SqlOutputColumn, field: NodeProp, tableId: string): boolean {
+    const name = output.name?.toLowerCase();
+    return !!name && (name === field.name.toLowerCase() || name === field.id.slice(tableId.length + 1).toLowerCase());
+}
+
+// Derives column-level source references from SQL in field transformations, SQL blocks in
+// field notes and SELECT statements in table notes (whose output columns map to the table's
+// fields by name), and proposes the edges missing from the graph.
+export function analyzeSqlLineage(graph: GraphProp): SqlAnalysisResult {
+    const index = new GraphNameIndex(graph);
+    const resolver = new SqlResolver(index);
+    const references = new Map<string, Set<string>>();
+    const unresolved: SqlUnresolvedReference[] = [];
+
+    const record = (fieldId: string, resolution: Resolution) => {
+        if (!references.has(fieldId)) references.set(fieldId, new Set());
+        resolution.fields
+            .filter(source => source !== fieldId)
+            .forEach(source => references.get(fieldId)!.add(source));
+        resolution.unresolved.forEach(entry => unresolved.push({ fieldId, ...entry }));
+    };
+
+    const fieldsByTable = new Map<string, NodeProp[]>();
+    graph.nodes.forEach(node => {
+        if (node.type !== 'field') return;
+        const tableId = getTableId(node)!;
+        if (!fieldsByTable.has(tableId)) fieldsByTable.set(tableId, []);
+        fieldsByTable.get(tableId)!.push(node);
+    });
+
+    // Tables of the fields that already feed each field
+    const tableOf = new Map(graph.nodes.map(node => [node.id, getTableId(node)!]));
+    const upstreamTables = new Map<string, Set<string>>();
+    graph.edges.forEach(edge => {
+        const tableId = tableOf.get(edge.source);
+        if (!tableId) return;
+        if (!upstreamTables.has(edge.target)) upstreamTables.set(edge.target, new Set());
+        upstreamTables.get(edge.target)!.add(tableId);
+    });
+
+    graph.nodes.forEach(node => {
+        if (node.type === 'table') {
+            // A SELECT in a table note defines the table's fields by output name
+            const blocks = node.note ? extractTextBlocks(node.note).filter(block => block.type === 'sql') : [];
+            blocks.forEach(block => {
+                const query = parseSelect(block.content);
+                if (!query) return;
+                (fieldsByTable.get(node.id) || []).forEach(field => {
+                    const output = query.outputs.find(o => matchesFieldName(o, field, node.id));
+                    if (output) {
+                        record(field.id, resolver.resolveReferences(output.references, query));
+                    }
+                });
+            });
+            return;
+        }
+
+        const tableId = getTableId(node)!;
+        getFieldSqlTexts(node).forEach(sql => {
+            if (startsWithSelect(sql)) {
+                const query = parseSelect(sql);
+                if (!query) return;
+                // Prefer the select item named like the field; otherwise every item feeds it
+                const named = query.outputs.find(o => matchesFieldName(o, node, tableId));
+                const outputs = named ? [named] : query.outputs;
+                record(node.id, resolver.resolveReferences(outputs.flatMap(o => o.references), query));
+            } else {
+                const tokens = tokenizeSql(sql).filter(token => token.type !== 'whitespace' && token.type !== 'comment');
+                record(node.id, resolver.resolveExpression(parseExpressionReferences(tokens, null), [Array.from(upstreamTables.get(node.id) || []), [tableId]]));
+            }
+        });
+    });
+
+    const existingEdges = new Set(graph.edges.map(edge => `${edge.source}->${edge.target}`));
+    const edges: EdgeProp[] = [];
+    const result: Record<string, string[]> = {};
+    references.forEach((sources, target) => {
+        result[target] = Array.from(sources);
+        sources.forEach(source => {
+            const key = `${source}->${target}`;
+            if (!existingEdges.has(key)) {
+                existingEdges.add(key);
+                edges.push({ source, target });
+            }
+        });
+    });
+
+    return { references: result, edges, unresolved };
+}
+
+// Returns a copy of the graph with the edges proposed by `analyzeSqlLineage` added
+export function applyInferredEdges(graph: GraphProp, analysis: SqlAnalysisResult = analyzeSqlLineage(graph)): GraphProp {
+    return { ...graph, edges: [...graph.edges, ...analysis.edges] };
+}
@@ -0,0 +1,464 @@
+import { SqlToken, tokenizeSql, unquoteIdentifier } from "./tokenizer"
+
+// A column mentioned in an expression, before it is resolved against any scope
+export type SqlReference =
+    | { kind: 'column'; qualifier: string[]; column: string; text: string }
+    // `table:field` written with the graph's own id format
+    | { kind: 'field'; fieldId: string; text: string }
+    // A scalar subquery; every column it selects feeds the expression
+    | { kind: 'subquery'; query: SqlQuery; text: string };
+
+export interface SqlOutputColumn {
+    // Alias, or the column name for bare column references; null for unnamed expressions
+    name: string | null;
+    references: SqlReference[];
+    // Set for `*` (null) and `alias.*` (the alias) items
+    star?: string | null;
+}
+
+export type SqlSource =
+    | { kind: 'table'; name: string }
+    | { kind: 'query'; query: SqlQuery };
+
+export interface SqlQuery {
+    outputs: SqlOutputColumn[];
+    // Keyed by lower-cased alias (or table name when unaliased)
+    sources: Map<string, SqlSource>;
+    ctes: Map<string, SqlQuery>;
+    parent: SqlQuery | null;
+}
+
+const CLAUSE_KEYWORDS = new Set([
+    'from', 'where', 'group', 'having', 'order', 'limit', 'offset', 'fetch', 'qualify', 'window',
+    'union', 'intersect', 'except', 'minus', 'into',
+]);
+
+const JOIN_KEYWORDS = new Set(['join', 'inner', 'left', 'right', 'full', 'outer', 'cross', 'natural', 'lateral']);
+
+// Words that can appear bare inside expressions without being column references
+const EXPRESSION_KEYWORDS = new Set([
+    'select', 'distinct', 'all', 'as', 'case', 'when', 'then', 'else', 'end', 'and', 'or', 'not', 'null',
+    'is', 'in', 'like', 'ilike', 'between', 'exists', 'true', 'false', 'over', 'partition', 'by', 'order',
+    'asc', 'desc', 'nulls', 'first', 'last', 'rows', 'range', 'unbounded', 'preceding', 'following',
+    'current', 'row', 'interval', 'filter', 'within', 'group', 'from', 'for', 'at', 'time', 'zone',
+    'current_date', 'current_time', 'current_timestamp', 'localtime', 'localtimestamp',
+    'year', 'quarter', 'month', 'week', 'day', 'hour', 'minute', 'second', 'epoch', 'dow', 'doy',
+    'date', 'timestamp', 'leading', 'trailing', 'both', 'any', 'some', 'escape', 'similar', 'to',
+]);
+
+function lower(token: SqlToken | undefined): string {
+    return token && token.type === 'identifier' ? token.text.toLowerCase() : '';
+}
+
+function isName(token: SqlToken | undefined): boolean {
+    return !!token && (token.type === 'identifier' || token.type === 'quotedIdentifier');
+}
+
+function createQuery(parent: SqlQuery | null): SqlQuery {
+    return { outputs: [], sources: new Map(), ctes: new Map(), parent };
+}
+
+// Best-effort parser for the SELECT subset needed for column lineage: CTEs, subqueries,
+// joins, aliases, set operations and expressions. Anything else is skipped, not rejected.
+class SelectParser {
+    private tokens: SqlToken[];
+    private pos: number = 0;
+
+    constructor(sql: string) {
+        this.tokens = tokenizeSql(sql).filter(token => token.type !== 'whitespace' && token.type !== 'comment');
+    }
+
+    private peek(offset: number = 0): SqlToken | undefined {
+        return this.tokens[this.pos + offset];
+    }
+
+    private isKeyword(keyword: string, offset: number = 0): boolean {
+        return lower(this.peek(offset)) === keyword;
+    }
+
+    private isPunctuation(text: string, offset: number = 0): boolean {
+        const token = this.peek(offset);
+        return !!token && token.type === 'punctuation' && token.text === text;
+    }
+
+    private atEnd(): boolean {
+        return this.pos >= this.tokens.length;
+    }
+
+    // Skips a balanced parenthesized group starting at the current '('
+    private skipGroup(): void {
+        let depth = 0;
+        while (!this.atEnd()) {
+            if (this.isPunctuation('(')) depth++;
+            if (this.isPunctuation(')')) depth--;
+            this.pos++;
+            if (depth === 0) return;
+        }
+    }
+
+    startsQuery(offset: number = 0): boolean {
+        return this.isKeyword('select', offset) || this.isKeyword('with', offset);
+    }
+
+    parseStatement(parent: SqlQuery | null): SqlQuery | null {
+        while (!this.atEnd() && !this.startsQuery()) this.pos++;
+        if (this.atEnd()) return null;
+        return this.parseQuery(parent);
+    }
+
+    parseQuery(parent: SqlQuery | null): SqlQuery {
+        const query = createQuery(parent);
+
+        if (this.isKeyword('with')) {
+            this.pos++;
+            if (this.isKeyword('recursive')) this.pos++;
+            while (isName(this.peek())) {
+                const name = unquoteIdentifier(this.peek()!).toLowerCase();
+                this.pos++;
+                let columnNames: string[] = [];
+                if (this.isPunctuation('(')) {
+                    columnNames = this.parseNameList();
+                }
+                if (this.isKeyword('as')) this.pos++;
+                if (this.isKeyword('not') && this.isKeyword('materialized', 1)) this.pos += 2;
+                if (this.isKeyword('materialized')) this.pos++;
+                if (this.isPunctuation('(')) {
+                    this.pos++;
+                    const cte = this.parseQuery(query);
+                    // `name (a, b) AS (...)` renames the CTE's output columns positionally
+                    columnNames.forEach((columnName, i) => {
+                        if (cte.outputs[i]) cte.outputs[i].name = columnName;
+                    });
+                    query.ctes.set(name, cte);
+                    this.expectClosingParenthesis();
+                }
+                if (!this.isPunctuation(',')) break;
+                this.pos++;
+            }
+        }
+
+        this.parseSelectCore(query);
+
+        // Set operations combine their outputs positionally
+        while (this.isKeyword('union') || this.isKeyword('intersect') || this.isKeyword('except') || this.isKeyword('minus')) {
+            this.pos++;
+            if (this.isKeyword('all') || this.isKeyword('distinct')) this.pos++;
+            const wrapped = this.isPunctuation('(');
+            if (wrapped) this.pos++;
+            const branch = createQuery(query);
+            this.parseSelectCore(branch);
+            if (wrapped) this.expectClosingParenthesis();
+            branch.outputs.forEach((output, i) => {
+                const target = query.outputs[i];
+                if (target) {
+                    target.references.push(...this.scopeReferences(output.references, branch));
+                }
+            });
+        }
+
+        this.skipToQueryEnd();
+        return query;
+    }
+
+    // References of a union branch are wrapped so they still resolve against that branch's sources
+    private scopeReferences(references: SqlReference[], branch: SqlQuery): SqlReference[] {
+        if (references.length === 0) return [];
+        return [{ kind: 'subquery', query: { ...branch, outputs: [{ name: null, references }] }, text: '' }];
+    }
+
+    private parseNameList(): string[] {
+        const names: string[] = [];
+        this.pos++; // (
+        while (!this.atEnd() && !this.isPunctuation(')')) {
+            const token = this.peek()!;
+            if (isName(token)) names.push(unquoteIdentifier(token));
+            this.pos++;
+        }
+        this.pos++; // )
+        return names;
+    }
+
+    private expectClosingParenthesis(): void {
+        this.skipToQueryEnd();
+        if (this.isPunctuation(')')) this.pos++;
+    }
+
+    // Skips trailing clauses (GROUP BY, ORDER BY, ...) up to the end of this (sub)query
+    private skipToQueryEnd(): void {
+        while (!this.atEnd() && !this.isPunctuation(')') && !this.isPunctuation(';')) {
+            if (this.isKeyword('union') || this.isKeyword('intersect') || this.isKeyword('except')) return;
+            if (this.isPunctuation('(')) {
+                this.skipGroup();
+            } else {
+                this.pos++;
+            }
+        }
+    }
+
+    private parseSelectCore(query: SqlQuery): void {
+        if (this.isPunctuation('(') && this.startsQuery(1)) {
+            // Parenthesized select, e.g. the first branch of a union
+            this.pos++;
+            const inner = this.parseQuery(query);
+            query.outputs.push(...inner.outputs.map(output => ({
+                ...output,
+                references: this.scopeReferences(output.references, inner),
+            })));
+            this.expectClosingParenthesis();
+            return;
+        }
+
+        if (!this.isKeyword('select')) return;
+        this.pos++;
+        if (this.isKeyword('distinct')) {
+            this.pos++;
+            if (this.isKeyword('on') && this.isPunctuation('(', 1)) {
+                this.pos++;
+                this.skipGroup();
+            }
+        }
+        if (this.isKeyword('all')) this.pos++;
+        if (this.isKeyword('top')) this.pos += 2;
+
+        while (!this.atEnd()) {
+            query.outputs.push(this.parseSelectItem(query));
+            if (!this.isPunctuation(',')) break;
+            this.pos++;
+        }
+
+        if (this.isKeyword('from')) {
+            this.pos++;
+            this.parseFromClause(query);
+        }
+
+        // Column references in WHERE/GROUP BY/HAVING do not feed the output values
+        while (!this.atEnd() && !this.isPunctuation(')') && !this.isPunctuation(';')) {
+            if (this.isKeyword('union') || this.isKeyword('intersect') || this.isKeyword('except') || this.isKeyword('minus')) return;
+            if (this.isPunctuation('(')) {
+                this.skipGroup();
+            } else {
+                this.pos++;
+            }
+        }
+    }
+
+    private parseSelectItem(query: SqlQuery): SqlOutputColumn {
+        const start = this.pos;
+        let depth = 0;
+        while (!this.atEnd()) {
+            if (depth === 0 && (this.isPunctuation(',') || this.isPunctuation(')') || this.isPunctuation(';'))) break;
+            if (depth === 0 && CLAUSE_KEYWORDS.has(lower(this.peek()))) break;
+            if (this.isPunctuation('(')) depth++;
+            if (this.isPunctuation(')')) depth--;
+            this.pos++;
+        }
+        const itemTokens = this.tokens.slice(start, this.pos);
+
+        // `*` and `alias.*`
+        const last = itemTokens[itemTokens.length - 1];
+        if (last && last.text === '*' && (itemTokens.length === 1 || itemTokens[itemTokens.length - 2]?.text === '.')) {
+            const qualifier = itemTokens.length >= 3 ? unquoteIdentifier(itemTokens[itemTokens.length - 3]).toLowerCase() : null;
+            return { name: null, references: [], star: qualifier };
+        }
+
+        let alias: string | null = null;
+        let expression = itemTokens;
+        const beforeLast = itemTokens[itemTokens.length - 2];
+        if (itemTokens.length >= 2 && isName(last) && lower(beforeLast) === 'as') {
+            alias = unquoteIdentifier(last);
+            expression = itemTokens.slice(0, -2);
+        } else if (
+            itemTokens.length >= 2 && isName(last) && !EXPRESSION_KEYWORDS.has(lower(last)) &&
+            (!EXPRESSION_KEYWORDS.has(lower(beforeLast)) || lower(beforeLast) === 'end') &&
+            (isName(beforeLast) || beforeLast.type === 'fieldRef' || beforeLast.text === ')' ||
+                beforeLast.type === 'string' || beforeLast.type === 'number') &&
+            !(beforeLast.type === 'punctuation' && beforeLast.text === '.')
+        ) {
+            // Implicit alias: `expr alias`
+            alias = unquoteIdentifier(last);
+            expression = itemTokens.slice(0, -1);
+        }
+
+        const references = parseExpressionReferences(expression, query);
+        const bareColumn = references.length === 1 && references[0].kind !== 'subquery' &&
+            expression.length === references[0].text.split('.').length * 2 - 1;
+        let name = alias;
+        if (!name && bareColumn) {
+            const reference = references[0];
+            name = reference.kind === 'column' ? reference.column : reference.kind === 'field' ? reference.fieldId.split(':')[1] : null;
+        }
+        return { name, references };
+    }
+
+    private parseFromClause(query: SqlQuery): void {
+        while (!this.atEnd()) {
+            this.parseSource(query);
+
+            // Join conditions do not feed output values
+            if (this.isKeyword('on')) {
+                this.pos++;
+                let depth = 0;
+                while (!this.atEnd()) {
+                    if (depth === 0 && (this.isPunctuation(',') || this.isPunctuation(')') || this.isPunctuation(';'))) break;
+                    if (depth === 0 && (CLAUSE_KEYWORDS.has(lower(this.peek())) || JOIN_KEYWORDS.has(lower(this.peek())))) break;
+                    if (this.isPunctuation('(')) depth++;
+                    if (this.isPunctuation(')')) depth--;
+                    this.pos++;
+                }
+            } else if (this.isKeyword('using') && this.isPunctuation('(', 1)) {
+                this.pos++;
+                this.skipGroup();
+            }
+
+            if (this.isPunctuation(',')) {
+                this.pos++;
+                continue;
+            }
+            if (JOIN_KEYWORDS.has(lower(this.peek()))) {
+                while (JOIN_KEYWORDS.has(lower(this.peek()))) this.pos++;
+                continue;
+            }
+            break;
+        }
+    }
+
+    private parseSource(query: SqlQuery): void {
+        let source: SqlSource | null = null;
+        let defaultAlias: string | null = null;
+
+        if (this.isPunctuation('(')) {
+            this.pos++;
+            if (this.startsQuery()) {
+                source = { kind: 'query', query: this.parseQuery(query) };
+                this.expectClosingParenthesis();
+            } else {
+                // Parenthesized join or table function arguments; not tracked
+                this.pos--;
+                this.skipGroup();
+            }
+        } else if (isName(this.peek())) {
+            const parts: string[] = [unquoteIdentifier(this.peek()!)];
+            this.pos++;
+            while (this.isPunctuation('.') && isName(this.peek(1))) {
+                parts.push(unquoteIdentifier(this.peek(1)!));
+                this.pos += 2;
+            }
+            if (this.isPunctuation('(')) {
+                // Table-valued function
+                this.skipGroup();
+            } else {
+                const name = parts.join('.');
+                const cte = findCte(query, name.toLowerCase());
+                source = cte ? { kind: 'query', query: cte } : { kind: 'table', name };
+                defaultAlias = parts[parts.length - 1].toLowerCase();
+            }
+        }
+
+        if (this.isKeyword('as')) this.pos++;
+        let alias = defaultAlias;
+        const aliasToken = this.peek();
+        if (isName(aliasToken) && !CLAUSE_KEYWORDS.has(lower(aliasToken)) && !JOIN_KEYWORDS.has(lower(aliasToken)) &&
+            lower(aliasToken) !== 'on' && lower(aliasToken) !== 'using') {
+            alias = unquoteIdentifier(aliasToken!).toLowerCase();
+            this.pos++;
+            // Column alias list: `t (a, b)`
+            if (this.isPunctuation('(')) this.skipGroup();
+        }
+
+        if (source && alias) {
+            query.sources.set(alias, source);
+            // Tables stay reachable by their full name as well as by alias
+            if (source.kind === 'table' && alias !== source.name.toLowerCase()) {
+                query.sources.set(source.name.toLowerCase(), source);
+            }
+        }
+    }
+}
+
+export function findCte(query: SqlQuery | null, name: string): SqlQuery | null {
+    for (let scope = query; scope; scope = scope.parent) {
+        const cte = scope.ctes.get(name);
+        if (cte) return cte;
+    }
+    return null;
+}
+
+// Collects column references from a run of expression tokens
+export function parseExpressionReferences(tokens: SqlToken[], scope: SqlQuery | null): SqlReference[] {
+    const references: SqlReference[] = [];
+    let i = 0;
+
+    while (i < tokens.length) {
+        const token = tokens[i];
+        const previous = tokens[i - 1];
+
+        if (token.type === 'punctuation' && token.text === '(' && (lower(tokens[i + 1]) === 'select' || lower(tokens[i + 1]) === 'with')) {
+            // Scalar subquery: find its closing parenthesis and parse it on its own
+            let depth = 0;
+            let end = i;
+            for (; end < tokens.length; end++) {
+                if (tokens[end].text === '(' && tokens[end].type === 'punctuation') depth++;
+                if (tokens[end].text === ')' && tokens[end].type === 'punctuation') depth--;
+                if (depth === 0) break;
+            }
+            const subquery = parseSelect(tokens.slice(i + 1, end).map(t => t.text).join(' '), scope);
+            if (subquery) {
+                references.push({ kind: 'subquery', query: subquery, text: '' });
+            }
+            i = end + 1;
+            continue;
+        }
+
+        // Type names after CAST(... AS type) and x::type are not columns
+        const isTypeName = lower(previous) === 'as' || (previous?.type === 'operator' && previous.text === '::');
+
+        if (token.type === 'fieldRef' && !isTypeName) {
+            references.push({ kind: 'field', fieldId: token.text, text: token.text });
+            i++;
+            continue;
+        }
+
+        if (isName(token) && !isTypeName && !(previous?.type === 'punctuation' && previous.text === '.')) {
+            const parts: SqlToken[] = [token];
+            let j = i + 1;
+            while (tokens[j]?.type === 'punctuation' && tokens[j].text === '.' &&
+                (isName(tokens[j + 1]) || tokens[j + 1]?.type === 'fieldRef')) {
+                parts.push(tokens[j + 1]);
+                j += 2;
+            }
+            const isFunctionCall = tokens[j]?.type === 'punctuation' && tokens[j].text === '(';
+            const isKeyword = token.type === 'identifier' && parts.length === 1 && EXPRESSION_KEYWORDS.has(lower(token));
+            const last = parts[parts.length - 1];
+
+            if (last.type === 'fieldRef') {
+                // Dotted table ids, e.g. `schema.table:field`
+                const fieldId = parts.map(part => unquoteIdentifier(part)).join('.');
+                references.push({ kind: 'field', fieldId, text: fieldId });
+            } else if (!isFunctionCall && !isKeyword) {
+                const names = parts.map(part => unquoteIdentifier(part));
+                references.push({
+                    kind: 'column',
+                    qualifier: names.slice(0, -1),
+                    column: names[names.length - 1],
+                    text: names.join('.'),
+                });
+            }
+            i = j;
+            continue;
+        }
+
+        i++;
+    }
+
+    return references;
+}
+
+// Parses the first SELECT statement in `sql`. CTEs of `parent` remain visible to it.
+export function parseSelect(sql: string, parent: SqlQuery | null = null): SqlQuery | null {
+    return new SelectParser(sql).parseStatement(parent);
+}
+
+export function startsWithSelect(sql: string): boolean {
+    const first = tokenizeSql(sql).find(token => token.type !== 'whitespace' && token.type !== 'comment');
+    return lower(first) === 'select' || lower(first) === 'with' || (first?.text === '(' && /^\(\s*(select|with)\b/i.test(sql.trim()));
+}
@@ -0,0 +1,106 @@
+export type SqlTokenType =
+    | 'whitespace'
+    | 'comment'
+    | 'string'
+    | 'number'
+    | 'identifier'
+    | 'quotedIdentifier'
+    // `table:field` references, the id format used by the graph
+    | 'fieldRef'
+    | 'punctuation'
+    | 'operator';
+
+export interface SqlToken {
+    type: SqlTokenType;
+    text: string;
+    start: number;
+}
+
+const IDENTIFIER_START = /[A-Za-z_]/;
+const IDENTIFIER_PART = /[A-Za-z0-9_$]/;
+const PUNCTUATION = new Set([',', '.', '(', ')', ';']);
+const MULTI_CHAR_OPERATORS = ['::', '<=', '>=', '<>', '!=', '||', '->>', '->'];
+
+// Lossless tokenizer: joining every token's text gives back the input, which lets the
+// highlighter reuse it. Unterminated strings and comments run to the end of the input.
+export function tokenizeSql(sql: string): SqlToken[] {
+    const tokens: SqlToken[] = [];
+    let pos = 0;
+
+    const push = (type: SqlTokenType, end: number) => {
+        tokens.push({ type, text: sql.slice(pos, end), start: pos });
+        pos = end;
+    };
+
+    const readUntil = (terminator: string, from: number) => {
+        const end = sql.indexOf(terminator, from);
+        return end === -1 ? sql.length : end + terminator.length;
+    };
+
+    const readIdentifier = (from: number) => {
+        let end = from;
+        while (end < sql.length && IDENTIFIER_PART.test(sql[end])) end++;
+        return end;
+    };
+
+    while (pos < sql.length) {
+        const char = sql[pos];
+        const next = sql[pos + 1];
+
+        if (/\s/.test(char)) {
+            let end = pos;
+            while (end < sql.length && /\s/.test(sql[end])) end++;
+            push('whitespace', end);
+        } else if (char === '-' && next === '-') {
+            const end = sql.indexOf('\n', pos);
+            push('comment', end === -1 ? sql.length : end);
+        } else if (char === '/' && next === '*') {
+            push('comment', readUntil('*/', pos + 2));
+        } else if (char === "'") {
+            // '' is an escaped quote inside a string
+            let end = pos + 1;
+            while (end < sql.length) {
+                if (sql[end] === "'" && sql[end + 1] === "'") {
+                    end += 2;
+                } else if (sql[end] === "'") {
+                    end++;
+                    break;
+                } else {
+                    end++;
+                }
+            }
+            push('string', Math.min(end, sql.length));
+        } else if (char === '"' || char === '`') {
+            push('quotedIdentifier', readUntil(char, pos + 1));
+        } else if (char === '[') {
+            push('quotedIdentifier', readUntil(']', pos + 1));
+        } else if (/[0-9]/.test(char) || (char === '.' && next !== undefined && /[0-9]/.test(next))) {
+            let end = pos + 1;
+            while (end < sql.length && /[0-9.eE]/.test(sql[end])) end++;
+            push('number', end);
+        } else if (IDENTIFIER_START.test(char)) {
+            const end = readIdentifier(pos);
+            // `table:field` (but not `x::type`) is a single graph field reference
+            if (sql[end] === ':' && sql[end + 1] !== ':' && sql[end + 1] !== undefined && IDENTIFIER_START.test(sql[end + 1])) {
+                push('fieldRef', readIdentifier(end + 1));
+            } else {
+                push('identifier', end);
+            }
+        } else if (PUNCTUATION.has(char)) {
+            push('punctuation', pos + 1);
+        } else {
+            const operator = MULTI_CHAR_OPERATORS.find(op => sql.startsWith(op, pos));
+            push('operator', pos + (operator ? operator.length : 1));
+        }
+    }
+
+    return tokens;
+}
+
+// Identifier text without its quotes
+export function unquoteIdentifier(token: SqlToken): string {
+    if (token.type !== 'quotedIdentifier') return token.text;
+    const closing = token.text[0] === '[' ? ']' : token.text[0];
+    const inner = token.text.slice(1);
+    return inner.endsWith(closing) ? inner.slice(0, -1) : inner;
+}
@@ -0,0 +1,232 @@
+import { Edge, FieldNode, Graph, GraphProp, LineageTheme, Position, RenderedEdge, StaticSVGOptions, TableNode, ValidationSeverity } from "./types/index"
+import { resolveOptions } from "./options"
+import { resolveTheme, EDGE_KIND_STYLES } from "./theme"
+import { formatDataType } from "./dataTypes"
+import { detectCycles } from "./cycles"
+import { analyzeSqlLineage } from "./sql/lineage"
+import { SEVERITY_ICONS, getHighestSeverity, groupIssuesByNode, runValidation } from "./validation/validate"
+import { getFields, getGraphIndex } from "./graphIndex"
+import { normalizeGraph } from "./normalize"
+import { getEdgeKind, getPathMidpoint, layoutLineage } from "./layout/engine"
+
+// Average advance of a character as a share of the font size. Without a browser there is nothing
+// to measure text with, so names are fitted against these estimates of a sans-serif font.
+const NARROW_CHARS = /[ilIjt.,:;'|!()[\]f ]/;
+const WIDE_CHARS = /[mwMW@%]/;
+
+export function estimateTextWidth(text: string, fontSize: number): number {
+    let width = 0;
+    for (const char of text) {
+        width += NARROW_CHARS.test(char) ? 0.3 : WIDE_CHARS.test(char) ? 0.85 :
+            /[A-Z]/.test(char) ? 0.65 : 0.55;
+    }
+    return width * fontSize;
+}
+
+// `text`, cut short with an ellipsis where it would run past `maxWidth`
+function fitText(text: string, fontSize: number, maxWidth: number): string {
+    if (estimateTextWidth(text, fontSize) <= maxWidth) return text;
+    const chars = Array.from(text);
+    while (chars.length > 0 && estimateTextWidth(`${chars.join('')}…`, fontSize) > maxWidth) chars.pop();
+    return `${chars.join('')}…`;
+}
+
+function escapeXml(value: string | number): string {
+    return String(value)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+// Attribute list from an object; null and undefined values are left out
+function attrs(values: Record<string, string | number | null | undefined>): string {
+    return Object.entries(values)
+        .filter(([, value]) => value !== null && value !== undefined)
+        .map(([name, value]) => ` ${name}="${escapeXml(value!)}"`)
+        .join('');
+}
+
+function text(content: string, values: Record<string, string | number | null | undefined>): string {
+    return `<text${attrs({ dy: '0.35em', ...values })}>${escapeXml(content)}</text>`;
+}
+
+// Static SVG markup of a lineage map, for server-side rendering and documentation. Layout is the
+// same as the interactive map's; text is sized with estimated metrics, so long names may be cut
+// a little earlier or later than in a browser. Colors are written out, so the markup needs no CSS.
+export function renderToSVGString(data: GraphProp | Graph, options: StaticSVGOptions = {}): string {
+    const resolved = resolveOptions(options);
+    const { tableWidth, tableHeight, fieldHeight } = resolved;
+    const theme = resolveTheme(resolved.theme);
+    const { colors, fonts, radii, shadows } = theme;
+    const color = (name: keyof LineageTheme['colors']) => colors[name];
+
+    let graph = normalizeGraph(data);
+    const sqlAnalysis = resolved.inferEdgesFromSql ? analyzeSqlLineage(graph) : null;
+    if (sqlAnalysis && sqlAnalysis.edges.length > 0) {
+        graph = {
+            ...graph,
+            edges: [...graph.edges, ...sqlAnalysis.edges.map(edge => ({ ...edge, id: `sql:${edge.source}->${edge.target}` }))],
+        };
+    }
+    const index = getGraphIndex(graph);
+
+    const expandedTables = new Set(options.expandedTables ||
+        (resolved.tableLevelView ? [] : index.tables.map(table => table.id)));
+    const layout = layoutLineage(graph, resolved, expandedTables);
+    const cyclicNodes = new Set(detectCycles(graph).flatMap(cycle => cycle.nodeIds));
+    const issuesByNode = groupIssuesByNode(runValidation(graph, resolved.validation, sqlAnalysis));
+    const severityColor = (severity: ValidationSeverity) => color(severity);
+
+    // Each color gets one arrowhead marker
+    const markers = new Map<string, string>();
+    const getArrowMarker = (stroke: string) => {
+        if (!markers.has(stroke)) markers.set(stroke, `lineage-arrow-${markers.size}`);
+        return `url(#${markers.get(stroke)})`;
+    };
+
+    const renderTable = (table: TableNode, pos: Position): string => {
+        const gradientId = `headerGradient-${table.id}`;
+        const parts = [
+            `<defs><linearGradient${attrs({ id: gradientId, x1: '0%', y1: '0%', x2: '0%', y2: '100%' })}>` +
+                `<stop offset="0%"${attrs({ 'stop-color': color('headerStart') })}/>` +
+                `<stop offset="100%"${attrs({ 'stop-color': color('headerEnd') })}/>` +
+                `</linearGradient></defs>`,
+            `<rect${attrs({ width: tableWidth, height: tableHeight, rx: radii.table, fill: color('surface'), stroke: color('border'), style: `filter: ${shadows.table}` })}/>`,
+            `<rect${attrs({ width: tableWidth, height: tableHeight, rx: radii.table, fill: `url(#${gradientId})`, stroke: color('border') })}/>`,
+        ];
+
+        const hasNote = !!table.note;
+        const reserved = (hasNote ? 32 : 0) + (cyclicNodes.has(table.id) ? 24 : 0);
+        parts.push(text(fitText(table.name, 13, tableWidth - 24 - reserved), {
+            x: 16, y: tableHeight / 2, fill: color('text'), 'font-family': fonts.body, 'font-size': 13, 'font-weight': 500
+        }));
+        if (cyclicNodes.has(table.id)) {
+            parts.push(text('↻', {
+                class: 'cycle-indicator', x: tableWidth - (hasNote ? 44 : 20), y: tableHeight / 2, 'text-anchor': 'middle',
+                fill: color('warning'), 'font-family': fonts.body, 'font-size': 14
+            }));
+        }
+        if (hasNote) {
+            const size = 20;
+            parts.push(`<g${attrs({ class: 'table-info-button', transform: `translate(${tableWidth - size - 12},${(tableHeight - size) / 2})` })}>` +
+                `<rect${attrs({ width: size, height: size, rx: radii.control, fill: color('controlSurface'), stroke: color('controlBorder') })}/>` +
+                text('ⓘ', { x: size / 2, y: size / 2, 'text-anchor': 'middle', fill: color('textMuted'), 'font-family': fonts.body, 'font-size': 12, 'font-weight': 500 }) +
+                `</g>`);
+        }
+        return `<g${attrs({ class: 'table-node', 'data-table-id': table.id, transform: `translate(${pos.x},${pos.y})` })}>${parts.join('')}</g>`;
+    };
+
+    const renderField = (field: FieldNode, pos: Position): string => {
+        const severity = getHighestSeverity(issuesByNode.get(field.id) || []);
+        const outlined = severity && severity !== 'info';
+        const parts = [
+            `<rect${attrs({ class: 'field-row', width: tableWidth, height: fieldHeight, fill: color('surface'),
+                stroke: outlined ? severityColor(severity) : color('fieldBorder'), 'stroke-width': outlined ? 2 : null })}/>`,
+        ];
+        const y = fieldHeight / 2;
+        if (severity) {
+            parts.push(text(SEVERITY_ICONS[severity], {
+                class: `validation-indicator ${severity}-indicator`, x: tableWidth - 40, y,
+                fill: severityColor(severity), 'font-family': fonts.body, 'font-size': 11
+            }));
+        }
+
+        const keyBadges = [
+            field.isPrimaryKey ? { label: 'PK', color: color('primaryKey') } : null,
+            field.isForeignKey ? { label: 'FK', color: color('foreignKey') } : null,
+        ].filter(badge => badge !== null);
+        keyBadges.forEach((badge, badgeIndex) => {
+            parts.push(text(badge.label, {
+                class: 'key-badge', x: 8 + badgeIndex * 15, y, fill: badge.color, 'font-family': fonts.body, 'font-size': 8, 'font-weight': 700
+            }));
+        });
+
+        const hasIndicator = !!(field.transformation || field.note || field.description);
+        const dataTypeEnd = severity ? tableWidth - 44 : hasIndicator ? tableWidth - 24 : tableWidth - 8;
+        const dataType = field.dataType ? formatDataType(field) : '';
+        const nameX = keyBadges.length > 0 ? 10 + keyBadges.length * 15 : 10;
+        // The name gives way to the data type and indicators on the right
+        const nameEnd = dataTypeEnd - (dataType ? estimateTextWidth(dataType, 9) + 6 : 0);
+        parts.push(text(fitText(field.name, 11, nameEnd - nameX), {
+            class: 'field-text', x: nameX, y, fill: color('fieldText'), 'font-family': fonts.body, 'font-size': 11
+        }));
+        if (dataType) {
+            parts.push(text(dataType, {
+                class: 'data-type', x: dataTypeEnd, y, 'text-anchor': 'end', fill: color('textMuted'), 'font-family': fonts.mono, 'font-size': 9
+            }));
+        }
+        if (hasIndicator) {
+            parts.push(text(field.transformation ? 'ƒ' : 'ⓘ', {
+                class: field.transformation ? 'transform-indicator' : 'note-indicator', x: tableWidth - 20, y,
+                fill: outlined ? severityColor(severity) : color('fieldText'), 'font-family': fonts.body, 'font-size': 11
+            }));
+        }
+        return `<g${attrs({ class: 'field-group', 'data-field-id': field.id, transform: `translate(${pos.x},${pos.y})` })}>${parts.join('')}</g>`;
+    };
+
+    const isFeedback = (d: RenderedEdge) => d.edges.some((edge: Edge) => layout.feedbackEdges.edges.has(edge.id));
+    const edgeParts: string[] = [];
+    const labelParts: string[] = [];
+    layout.edges.forEach(d => {
+        if (!d.path) return;
+        const kind = getEdgeKind(d);
+        const stroke = color(kind ? EDGE_KIND_STYLES[kind].color : 'edge');
+        edgeParts.push(`<path${attrs({
+            class: 'edge', d: d.path, fill: 'none', stroke, 'stroke-width': d.aggregated ? 1.5 : 1,
+            'stroke-dasharray': (kind ? EDGE_KIND_STYLES[kind].dasharray : null) || (isFeedback(d) ? '5,4' : null),
+            'marker-end': resolved.arrowheads ? getArrowMarker(stroke) : null
+        })}/>`);
+
+        const label = d.aggregated ? String(d.edges.length) : d.edges[0].label;
+        const midpoint = label ? getPathMidpoint(d.path) : null;
+        if (!label || !midpoint) return;
+        if (d.aggregated) {
+            labelParts.push(`<g${attrs({ class: 'edge-badge', transform: `translate(${midpoint.x},${midpoint.y})` })}>` +
+                `<rect${attrs({ x: -(8 + label.length * 3), y: -8, width: 16 + label.length * 6, height: 16, rx: 8, fill: color('surface'), stroke: color('edge') })}/>` +
+                text(label, { 'text-anchor': 'middle', fill: color('textMuted'), 'font-family': fonts.body, 'font-size': 10 }) +
+                `</g>`);
+        } else {
+            labelParts.push(`<text${attrs({
+                class: 'edge-label', x: midpoint.x, y: midpoint.y, dy: '-0.4em', 'text-anchor': 'middle', fill: color('textMuted'),
+                stroke: color('surface'), 'stroke-width': 3, 'paint-order': 'stroke', 'font-family': fonts.body, 'font-size': 10
+            })}>${escapeXml(label)}</text>`);
+        }
+    });
+
+    const nodeParts: string[] = [];
+    index.tables.forEach(table => {
+        const pos = layout.positions.get(table.id);
+        if (!pos) return;
+        nodeParts.push(renderTable(table, pos));
+        if (!expandedTables.has(table.id)) return;
+        getFields(index, table.id).forEach(field => {
+            const fieldPos = layout.positions.get(field.id);
+            if (fieldPos) nodeParts.push(renderField(field, fieldPos));
+        });
+    });
+
+    const markerDefs = Array.from(markers.entries()).map(([stroke, id]) =>
+        `<marker${attrs({ id, viewBox: '0 0 10 10', refX: 10, refY: 5, markerWidth: 8, markerHeight: 8, markerUnits: 'userSpaceOnUse', orient: 'auto' })}>` +
+        `<path d="M 0 0 L 10 5 L 0 10 z"${attrs({ fill: stroke })}/></marker>`
+    );
+
+    // Sized to the tables with room around them; edges stay between tables, so they fit as well
+    const padding = options.padding !== undefined ? options.padding : 20;
+    const rects = Array.from(layout.tableRects.values());
+    const minX = rects.length > 0 ? Math.min(...rects.map(rect => rect.x)) - padding : 0;
+    const minY = rects.length > 0 ? Math.min(...rects.map(rect => rect.y)) - padding : 0;
+    const width = rects.length > 0 ? Math.max(...rects.map(rect => rect.x + rect.width)) + padding - minX : padding * 2;
+    const height = rects.length > 0 ? Math.max(...rects.map(rect => rect.y + rect.height)) + padding - minY : padding * 2;
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg"${attrs({ width, height, viewBox: `${minX} ${minY} ${width} ${height}`, class: 'lineage-map' })}>`,
+        colors.background !== 'transparent'
+            ? `<rect${attrs({ x: minX, y: minY, width, height, fill: colors.background })}/>`
+            : '',
+        markerDefs.length > 0 ? `<defs>${markerDefs.join('')}</defs>` : '',
+        `<g class="edge-layer">${edgeParts.join('')}${labelParts.join('')}</g>`,
+        `<g class="node-layer">${nodeParts.join('')}</g>`,
+        `</svg>`,
+    ].join('');
+}
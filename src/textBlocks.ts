@@ -0,0 +1,91 @@
+export const SQL_START_TAG = '---startsql';
+export const SQL_END_TAG = '---endsql';
+
+// Fenced code is 'sql' when its language is sql or not given, and 'code' otherwise, so SQL
+// lineage inference only reads blocks that can hold SQL
+export interface TextBlock {
+    type: 'sql' | 'code' | 'text';
+    content: string;
+    language?: string;
+}
+
+const CODE_FENCE = /^```[ \t]*([\w+-]*)[^\n]*\n([\s\S]*?)\n?^```[ \t]*$/gm;
+
+// Splits a note into plain text, `---startsql` / `---endsql` delimited SQL blocks and
+// Markdown fenced code blocks
+export function extractTextBlocks(text: string): TextBlock[] {
+    return extractSqlBlocks(text).flatMap(block => block.type === 'text' ? extractCodeFences(block.content) : [block]);
+}
+
+function extractCodeFences(text: string): TextBlock[] {
+    const blocks: TextBlock[] = [];
+    let currentPos = 0;
+    let match: RegExpExecArray | null;
+    CODE_FENCE.lastIndex = 0;
+    while ((match = CODE_FENCE.exec(text)) !== null) {
+        const before = text.slice(currentPos, match.index).trim();
+        if (before) {
+            blocks.push({ type: 'text', content: before });
+        }
+        const language = match[1].toLowerCase();
+        const code = match[2].replace(/\s+$/, '');
+        if (code.trim()) {
+            blocks.push({ type: !language || language === 'sql' ? 'sql' : 'code', content: code, language: language || undefined });
+        }
+        currentPos = match.index + match[0].length;
+    }
+    const remaining = text.slice(currentPos).trim();
+    if (remaining) {
+        blocks.push({ type: 'text', content: remaining });
+    }
+    return blocks;
+}
+
+function extractSqlBlocks(text: string): TextBlock[] {
+    const blocks: TextBlock[] = [];
+
+    // Convert to lowercase for case-insensitive matching but keep original for content
+    const lowerText = text.toLowerCase();
+    let currentPos = 0;
+
+    while (true) {
+        const startTag = lowerText.indexOf(SQL_START_TAG, currentPos);
+        if (startTag === -1) {
+            // Add remaining text if there's any
+            const remaining = text.slice(currentPos).trim();
+            if (remaining) {
+                blocks.push({ type: 'text', content: remaining });
+            }
+            break;
+        }
+
+        // Add text before SQL block if there's any
+        const beforeSql = text.slice(currentPos, startTag).trim();
+        if (beforeSql) {
+            blocks.push({ type: 'text', content: beforeSql });
+        }
+
+        // Find the end of SQL block
+        const sqlStart = startTag + SQL_START_TAG.length;
+        const endTag = lowerText.indexOf(SQL_END_TAG, sqlStart);
+
+        if (endTag === -1) {
+            // If no end tag, treat rest as text
+            const remaining = text.slice(currentPos).trim();
+            if (remaining) {
+                blocks.push({ type: 'text', content: remaining });
+            }
+            break;
+        }
+
+        // Extract SQL content
+        const sql = text.slice(sqlStart, endTag).trim();
+        if (sql) {
+            blocks.push({ type: 'sql', content: sql });
+        }
+
+        currentPos = endTag + SQL_END_TAG.length;
+    }
+
+    return blocks;
+}
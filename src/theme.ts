@@ -0,0 +1,158 @@
+import { EdgeKind, LineageTheme, ThemeName } from "./types/index"
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K] };
+
+export type ThemeOverrides = DeepPartial<LineageTheme>;
+
+const SYSTEM_FONT = '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+
+export const lightTheme: LineageTheme = {
+    colors: {
+        background: 'transparent',
+        surface: '#ffffff',
+        headerStart: '#F8FAFC',
+        headerEnd: '#F1F5F9',
+        border: '#E2E8F0',
+        fieldBorder: '#eeeeee',
+        controlSurface: '#F8FAFC',
+        controlBorder: '#CBD5E1',
+        text: '#1E293B',
+        textMuted: '#64748B',
+        fieldText: '#666666',
+        popupSurface: 'rgba(255, 255, 255, 0.95)',
+        popupBorder: '#dee2e6',
+        code: '#2563eb',
+        upstream: '#2196f3',
+        upstreamSurface: '#e3f2fd',
+        downstream: '#4caf50',
+        downstreamSurface: '#e8f5e9',
+        error: '#ef4444',
+        warning: '#ff9800',
+        info: '#64748B',
+        edge: '#bbbbbb',
+        searchMatch: '#fcd34d',
+        searchCurrent: '#f59e0b',
+        primaryKey: '#b45309',
+        foreignKey: '#7c3aed',
+        edgeJoin: '#8b5cf6',
+        edgeFilter: '#d97706',
+        sqlKeyword: '#9333ea',
+        sqlString: '#047857',
+        sqlNumber: '#c2410c',
+        sqlComment: '#94a3b8',
+    },
+    fonts: {
+        body: SYSTEM_FONT,
+        mono: 'monospace',
+    },
+    radii: {
+        table: 6,
+        popup: 4,
+        control: 4,
+    },
+    shadows: {
+        table: 'drop-shadow(0 2px 3px rgba(0, 0, 0, 0.15))',
+        popup: 'drop-shadow(0 2px 4px rgba(0, 0, 0, 0.1))',
+    },
+};
+
+export const darkTheme: LineageTheme = {
+    colors: {
+        background: '#0F172A',
+        surface: '#1E293B',
+        headerStart: '#334155',
+        headerEnd: '#293548',
+        border: '#475569',
+        fieldBorder: '#334155',
+        controlSurface: '#334155',
+        controlBorder: '#475569',
+        text: '#E2E8F0',
+        textMuted: '#94A3B8',
+        fieldText: '#CBD5E1',
+        popupSurface: 'rgba(30, 41, 59, 0.97)',
+        popupBorder: '#475569',
+        code: '#93C5FD',
+        upstream: '#60A5FA',
+        upstreamSurface: '#1E3A5F',
+        downstream: '#4ADE80',
+        downstreamSurface: '#14532D',
+        error: '#F87171',
+        warning: '#FBBF24',
+        info: '#94A3B8',
+        edge: '#64748B',
+        searchMatch: '#CA8A04',
+        searchCurrent: '#FACC15',
+        primaryKey: '#FBBF24',
+        foreignKey: '#C4B5FD',
+        edgeJoin: '#A78BFA',
+        edgeFilter: '#F59E0B',
+        sqlKeyword: '#C4B5FD',
+        sqlString: '#6EE7B7',
+        sqlNumber: '#FDBA74',
+        sqlComment: '#64748B',
+    },
+    fonts: {
+        body: SYSTEM_FONT,
+        mono: 'monospace',
+    },
+    radii: {
+        table: 6,
+        popup: 4,
+        control: 4,
+    },
+    shadows: {
+        table: 'drop-shadow(0 2px 3px rgba(0, 0, 0, 0.5))',
+        popup: 'drop-shadow(0 2px 6px rgba(0, 0, 0, 0.6))',
+    },
+};
+
+const THEMES: Record<ThemeName, LineageTheme> = { light: lightTheme, dark: darkTheme };
+
+// A built-in theme with some values replaced
+export function createTheme(overrides: ThemeOverrides, base: ThemeName | LineageTheme = 'light'): LineageTheme {
+    const baseTheme = typeof base === 'string' ? THEMES[base] : base;
+    return {
+        colors: { ...baseTheme.colors, ...overrides.colors },
+        fonts: { ...baseTheme.fonts, ...overrides.fonts },
+        radii: { ...baseTheme.radii, ...overrides.radii },
+        shadows: { ...baseTheme.shadows, ...overrides.shadows },
+    } as LineageTheme;
+}
+
+export function resolveTheme(theme: ThemeName | LineageTheme): LineageTheme {
+    return typeof theme === 'string' ? THEMES[theme] || lightTheme : theme;
+}
+
+// Dash pattern and color of each edge kind
+export const EDGE_KIND_STYLES: Record<EdgeKind, { dasharray: string | null; color: keyof LineageTheme['colors'] }> = {
+    direct: { dasharray: null, color: 'edge' },
+    derived: { dasharray: '6,3', color: 'edge' },
+    join: { dasharray: '2,3', color: 'edgeJoin' },
+    filter: { dasharray: '6,3,2,3', color: 'edgeFilter' },
+};
+
+const toKebabCase = (name: string) => name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+
+// Elements are styled through CSS custom properties, so host stylesheets can override any of them
+export function themeColor(name: keyof LineageTheme['colors']): string {
+    return `var(--lineage-${toKebabCase(name)})`;
+}
+
+export function themeFont(name: keyof LineageTheme['fonts']): string {
+    return `var(--lineage-font-${name})`;
+}
+
+export function themeShadow(name: keyof LineageTheme['shadows']): string {
+    return `var(--lineage-shadow-${name})`;
+}
+
+// Custom property declarations for a theme; radii are applied as SVG attributes instead
+export function themeToCss(selector: string, theme: LineageTheme): string {
+    const declarations = [
+        ...Object.entries(theme.colors).map(([name, value]) => `--lineage-${toKebabCase(name)}: ${value};`),
+        ...Object.entries(theme.fonts).map(([name, value]) => `--lineage-font-${name}: ${value};`),
+        ...Object.entries(theme.shadows).map(([name, value]) => `--lineage-shadow-${name}: ${value};`),
+    ];
+    // :where() keeps the specificity at zero so any host rule for the map wins
+    return `:where(${selector}) {\n  ${declarations.join('\n  ')}\n}`;
+}
@@ -1,5 +1,7 @@
+import type { ReactNode } from 'react';
+
 // types users can supply as props
-export interface FieldNodeProp extends BaseNode {
+export interface FieldNodeProp extends BaseNode, FieldMetadata {
   type: 'field';
   tableId?: string;
   transformation?: string;
@@ -8,7 +10,7 @@ export interface FieldNodeProp extends BaseNode {
 
 export type NodeProp = TableNode | FieldNodeProp;
 
-export interface EdgeProp {
+export interface EdgeProp extends EdgeMetadata {
   id?: string;
   source: string;
   target: string;
@@ -31,7 +33,16 @@ export interface TableNode extends BaseNode {
   note?: string;
 }
 
-export interface FieldNode extends BaseNode {
+// Optional column details, shown on the field row and in its popup
+export interface FieldMetadata {
+  dataType?: string;
+  isPrimaryKey?: boolean;
+  isForeignKey?: boolean;
+  nullable?: boolean;
+  description?: string;
+}
+
+export interface FieldNode extends BaseNode, FieldMetadata {
   type: 'field';
   tableId: string;
   transformation?: string;
@@ -40,7 +51,18 @@ export interface FieldNode extends BaseNode {
 
 export type Node = TableNode | FieldNode;
 
-export interface Edge {
+// How a source field contributes to its target: copied as is, computed from it, used to join or to filter
+export type EdgeKind = 'direct' | 'derived' | 'join' | 'filter';
+
+// Optional details of an edge, shown in its popup
+export interface EdgeMetadata {
+  kind?: EdgeKind;
+  label?: string;
+  note?: string;
+  transformation?: string;
+}
+
+export interface Edge extends EdgeMetadata {
   id: string;
   source: string;
   target: string;
@@ -52,6 +74,76 @@ export interface Graph {
   edges: Edge[];
 }
 
+export type LineageDirection = 'upstream' | 'downstream' | 'both';
+
+// 'simple' stacks tables in each level in input order; 'layered' orders them to reduce edge crossings
+export type LayoutAlgorithm = 'simple' | 'layered';
+
+// 'curved' draws one Bézier per edge; 'orthogonal' and 'spline' are routed around tables
+export type EdgeStyle = 'curved' | 'orthogonal' | 'spline';
+
+// Direction data flows in: left to right, right to left, top to bottom or bottom to top
+export type LayoutOrientation = 'LR' | 'RL' | 'TB' | 'BT';
+
+export type ThemeName = 'light' | 'dark';
+
+export interface MinimapOptions {
+  position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+  width?: number;
+  height?: number;
+}
+
+export interface LineageTheme {
+  colors: {
+    background: string;
+    surface: string;
+    headerStart: string;
+    headerEnd: string;
+    border: string;
+    fieldBorder: string;
+    controlSurface: string;
+    controlBorder: string;
+    text: string;
+    textMuted: string;
+    fieldText: string;
+    popupSurface: string;
+    popupBorder: string;
+    code: string;
+    upstream: string;
+    upstreamSurface: string;
+    downstream: string;
+    downstreamSurface: string;
+    error: string;
+    warning: string;
+    info: string;
+    edge: string;
+    searchMatch: string;
+    searchCurrent: string;
+    primaryKey: string;
+    foreignKey: string;
+    edgeJoin: string;
+    edgeFilter: string;
+    sqlKeyword: string;
+    sqlString: string;
+    sqlNumber: string;
+    sqlComment: string;
+  };
+  fonts: {
+    body: string;
+    mono: string;
+  };
+  radii: {
+    table: number;
+    popup: number;
+    control: number;
+  };
+  // CSS filter values
+  shadows: {
+    table: string;
+    popup: string;
+  };
+}
+
 export interface LineageMapOptions {
   width?: string | number;
   height?: string | number;
@@ -63,15 +155,115 @@ export interface LineageMapOptions {
   verticalPadding?: number;
   popUpWidth?: number;
   popUpFloat?: "high" | "low";
+  popUpMaxHeight?: number;
+  formatSql?: boolean;
+  sqlLineNumbers?: boolean;
   maxCurveOffset?: number;
+  lineageDirection?: LineageDirection;
+  showSearch?: boolean;
+  inferEdgesFromSql?: boolean;
+  validation?: ValidationOptions;
+  layoutAlgorithm?: LayoutAlgorithm;
+  orientation?: LayoutOrientation;
+  tableLevelView?: boolean;
+  edgeStyle?: EdgeStyle;
+  arrowheads?: boolean;
+  theme?: ThemeName | LineageTheme;
+  minimap?: boolean | MinimapOptions;
+  viewportCulling?: boolean;
+  lowDetailScale?: number;
+  shortestPathOnly?: boolean;
+}
+
+export interface LineageMapCallbacks {
+  onFieldClick?: (field: FieldNode) => void;
+  onFieldHover?: (field: FieldNode | null) => void;
+  onTableToggle?: (tableId: string, expanded: boolean) => void;
+  onSelectionChange?: (fieldId: string | null) => void;
+  onSqlAnalysis?: (analysis: SqlAnalysisResult) => void;
+  onValidate?: (issues: ValidationIssue[]) => void;
+  // Called instead of opening the link in a new tab when a link in a note is clicked
+  onLinkClick?: (href: string, event: MouseEvent) => void;
+  // Called when a path between two fields is shown or cleared
+  onPathChange?: (path: LineagePath | null) => void;
+}
+
+// Parts of the map that can be drawn by the host instead of the built-in rendering
+export type RenderSlotKind = 'tableHeader' | 'fieldRow' | 'popup';
+
+// An HTML element mounted in the SVG (through a foreignObject) for custom content. Slots are
+// republished whenever their node's state changes.
+export interface RenderSlot {
+  key: string;
+  kind: RenderSlotKind;
+  node: TableNode | FieldNode;
+  element: HTMLDivElement;
+  expanded: boolean;
+  selected: boolean;
+  highlight: 'upstream' | 'downstream' | null;
+  issues: ValidationIssue[];
+}
+
+export interface RenderSlotHost {
+  kinds: RenderSlotKind[];
+  onSlotsChange: (slots: RenderSlot[]) => void;
 }
 
-export interface LineageMapProps {
+export interface TableHeaderRenderProps {
+  table: TableNode;
+  expanded: boolean;
+  fieldCount: number;
+  issues: ValidationIssue[];
+  toggle: () => void;
+  showPopup: () => void;
+}
+
+export interface FieldRowRenderProps {
+  field: FieldNode;
+  selected: boolean;
+  highlight: 'upstream' | 'downstream' | null;
+  issues: ValidationIssue[];
+}
+
+export interface PopupRenderProps {
+  node: TableNode | FieldNode;
+  issues: ValidationIssue[];
+  close: () => void;
+}
+
+export interface LineageMapProps extends LineageMapCallbacks {
   data: GraphProp;
   width?: string | number;
   height?: string | number;
   options?: LineageMapOptions;
   className?: string;
+  selectedFieldId?: string | null;
+  expandedTableIds?: string[];
+  renderTableHeader?: (props: TableHeaderRenderProps) => ReactNode;
+  renderFieldRow?: (props: FieldRowRenderProps) => ReactNode;
+  renderPopup?: (props: PopupRenderProps) => ReactNode;
+}
+
+export interface LineageMapHandle {
+  focusNode: (nodeId: string) => void;
+  expandAll: () => void;
+  collapseAll: () => void;
+  clearSelection: () => void;
+  selectField: (fieldId: string | null) => void;
+  setLineageDirection: (direction: LineageDirection) => void;
+  search: (query: string) => SearchResult[];
+  nextSearchResult: () => SearchResult | null;
+  previousSearchResult: () => SearchResult | null;
+  clearSearch: () => void;
+  exportSVG: (options?: SVGExportOptions) => string;
+  exportPNG: (options?: PNGExportOptions) => Promise<Blob>;
+  getValidationIssues: () => ValidationIssue[];
+  getCycles: () => LineageCycle[];
+  setTableLevelView: (enabled: boolean) => void;
+  setTheme: (theme: ThemeName | LineageTheme) => void;
+  findPath: (sourceId: string, targetId: string) => LineagePath | null;
+  clearPath: () => void;
+  setPathMode: (enabled: boolean) => void;
 }
 
 export interface Position {
@@ -79,15 +271,211 @@ export interface Position {
   y: number;
 }
 
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export interface TableLevel {
   id: string;
   level: number;
   dependencies: string[];
 }
 
+// An edge as drawn: a single field edge, or the field edges between two visible ends when either
+// end is a collapsed table
+export interface RenderedEdge {
+  id: string;
+  source: string;
+  target: string;
+  edges: Edge[];
+  aggregated: boolean;
+  path: string;
+}
+
+// A rendered edge waiting to be routed, with the positions of its visible ends
+export interface RoutedEdge {
+  rendered: RenderedEdge;
+  sourcePos: Position;
+  targetPos: Position;
+  sourceTableId: string;
+  targetTableId: string;
+}
+
+export interface LineageCycle {
+  // 'field' cycles follow field edges; 'table' cycles follow the table relationships those edges imply
+  type: 'field' | 'table';
+  nodeIds: string[];
+  // Ids of the field edges that make up the cycle
+  edgeIds: string[];
+}
+
+export interface LineagePathOptions {
+  // Only keep the paths with the fewest hops
+  shortestOnly?: boolean;
+  // Most paths to list; nodeIds and edgeIds cover every path regardless. Defaults to 20
+  maxPaths?: number;
+}
+
+// One hop of a path between two fields
+export interface LineagePathStep {
+  edgeId: string;
+  source: string;
+  target: string;
+  // The edge's transformation, or else the target field's
+  transformation?: string;
+}
+
+// The fields and edges lying on any path from `source` down to `target`. Both lists are empty when
+// there is no path.
+export interface LineagePath {
+  source: string;
+  target: string;
+  nodeIds: string[];
+  edgeIds: string[];
+  // Paths hop by hop, fewest hops first
+  paths: LineagePathStep[][];
+  // Whether there were more than `maxPaths` paths
+  truncated: boolean;
+}
+
+export type SqlHighlightType = 'keyword' | 'string' | 'comment' | 'number' | 'identifier' | 'plain';
+
+export interface SqlHighlightToken {
+  type: SqlHighlightType;
+  text: string;
+}
+
+// A built-in popup's box in graph coordinates
+export interface PopupBox {
+  boxWidth: number;
+  boxHeight: number;
+  popupX: number;
+  popupY: number;
+}
+
+// Kept as the datum of a built-in popup. `target` is the outline of the field, table or edge point
+// the popup belongs to, and `offset` how far the popup has been dragged from where it opened.
+export interface PopupState {
+  targetId: string;
+  target: Bounds;
+  box: PopupBox;
+  offset: Position;
+  pinned: boolean;
+}
+
+// A run of formatted text in a popup line
+export interface PopupSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  href?: string;
+}
+
 export interface PopupLine {
   text: string;
   isError: boolean; 
   isCode?: boolean;
   extraSpace?: boolean;
+  severity?: ValidationSeverity;
+  // Formatted text, drawn instead of `text`; `indent` lines continuation lines up with a list item's text
+  spans?: PopupSpan[];
+  indent?: number;
+  heading?: number;
+  // Highlighted code, drawn instead of `text`, after its line number if it has one
+  tokens?: SqlHighlightToken[];
+  lineNumber?: string;
+  // Measured width of a code line
+  width?: number;
+  // The whole code block, on its first line, for the copy button
+  copyText?: string;
+}
+
+export type SearchMatchField = 'name' | 'id' | 'transformation' | 'note' | 'description';
+
+export interface SearchResult {
+  nodeId: string;
+  score: number;
+  matchedIn: SearchMatchField;
+}
+
+export interface SVGExportOptions {
+  includePopup?: boolean;
+  padding?: number;
+  // Color behind the graph; the theme's background by default, `null` for none
+  background?: string | null;
+}
+
+export interface PNGExportOptions extends SVGExportOptions {
+  scale?: number;
+}
+
+export interface StaticSVGOptions extends LineageMapOptions {
+  // Tables drawn with their fields; all of them by default, or none with `tableLevelView`
+  expandedTables?: string[];
+  padding?: number;
+}
+
+export interface ImportWarning {
+  code: string;
+  subject: string;
+  message: string;
+}
+
+export interface ImportResult {
+  graph: GraphProp;
+  warnings: ImportWarning[];
+}
+
+export interface SqlUnresolvedReference {
+  fieldId: string;
+  reference: string;
+  reason: string;
+}
+
+export interface SqlAnalysisResult {
+  // Field id -> ids of the fields its SQL reads from
+  references: Record<string, string[]>;
+  // Edges implied by the SQL that the graph does not have yet
+  edges: EdgeProp[];
+  unresolved: SqlUnresolvedReference[];
+}
+
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+export interface ValidationIssue {
+  code: string;
+  severity: ValidationSeverity;
+  message: string;
+  nodeId?: string;
+  edgeId?: string;
+}
+
+export interface ValidationContext {
+  graph: Graph;
+  nodesById: Map<string, Node>;
+  incomingEdges: Map<string, Edge[]>;
+  outgoingEdges: Map<string, Edge[]>;
+  sqlAnalysis: SqlAnalysisResult | null;
+  cycles: LineageCycle[];
+}
+
+// Rules return issues without code/severity to use the rule's own, or set them to override
+export interface ValidationRule {
+  code: string;
+  severity: ValidationSeverity;
+  description?: string;
+  validate: (context: ValidationContext) => (Omit<ValidationIssue, 'code' | 'severity'> & Partial<ValidationIssue>)[];
+}
+
+export interface ValidationOptions {
+  // Custom rules, run after the built-in ones
+  rules?: ValidationRule[];
+  // Codes of built-in or custom rules to skip
+  disabledRules?: string[];
+  // Change the severity reported by a rule, keyed by rule code
+  severities?: Record<string, ValidationSeverity>;
 }
\ No newline at end of file
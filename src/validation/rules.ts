@@ -0,0 +1,178 @@
+import { ValidationRule } from "../types/index"
+import { areTypesCompatible } from "../dataTypes"
+
+// Regular expression to find `table:field` references
+const FIELD_REF_REGEX = /[a-zA-Z_]+:[a-zA-Z_]+\d*/g;
+
+export const transformationEdgeMismatchRule: ValidationRule = {
+    code: 'transformation-edge-mismatch',
+    severity: 'warning',
+    description: 'Fields referenced by a transformation must match the edges feeding the field.',
+    validate: ({ graph, incomingEdges, sqlAnalysis }) => graph.nodes.flatMap(node => {
+        if (node.type !== 'field' || !node.transformation) return [];
+
+        // Referenced fields, including columns resolved from SQL
+        const referencedFieldSet = new Set([
+            ...(node.transformation.match(FIELD_REF_REGEX) || []),
+            ...(sqlAnalysis?.references[node.id] || []),
+        ]);
+        const incomingFields = new Set((incomingEdges.get(node.id) || []).map(edge => edge.source));
+        const issues = [];
+
+        for (const fieldRef of referencedFieldSet) {
+            if (!incomingFields.has(fieldRef)) {
+                issues.push({
+                    nodeId: node.id,
+                    message: `Field "${fieldRef}" is used in transformation but has no edge connecting to "${node.id}".`,
+                });
+            }
+        }
+        for (const sourceField of incomingFields) {
+            if (!referencedFieldSet.has(sourceField)) {
+                issues.push({
+                    nodeId: node.id,
+                    message: `Field "${sourceField}" has an edge but isn't used in the transformation.`,
+                });
+            }
+        }
+        return issues;
+    }),
+};
+
+export const danglingEdgeRule: ValidationRule = {
+    code: 'dangling-edge',
+    severity: 'error',
+    description: 'Both ends of an edge must be nodes in the graph.',
+    validate: ({ graph, nodesById }) => graph.edges.flatMap(edge => {
+        const missing = [edge.source, edge.target].filter(id => !nodesById.has(id));
+        if (missing.length === 0) return [];
+        // Attach the issue to the end that does exist so it shows up on the map
+        const existing = [edge.source, edge.target].find(id => nodesById.has(id));
+        return [{
+            edgeId: edge.id,
+            nodeId: existing,
+            message: `Edge "${edge.source}" → "${edge.target}" points to ${missing.map(id => `"${id}"`).join(' and ')}, which ${missing.length > 1 ? 'do' : 'does'} not exist.`,
+        }];
+    }),
+};
+
+export const duplicateNodeIdRule: ValidationRule = {
+    code: 'duplicate-node-id',
+    severity: 'error',
+    description: 'Node ids must be unique.',
+    validate: ({ graph }) => {
+        const counts = new Map<string, number>();
+        graph.nodes.forEach(node => counts.set(node.id, (counts.get(node.id) || 0) + 1));
+        return Array.from(counts.entries())
+            .filter(([, count]) => count > 1)
+            .map(([id, count]) => ({
+                nodeId: id,
+                message: `Node id "${id}" is used by ${count} nodes; only one of them can be shown and connected.`,
+            }));
+    },
+};
+
+export const missingTableRule: ValidationRule = {
+    code: 'missing-table',
+    severity: 'error',
+    description: 'Every field must belong to a table in the graph.',
+    validate: ({ graph, nodesById }) => graph.nodes.flatMap(node => {
+        if (node.type !== 'field' || nodesById.get(node.tableId)?.type === 'table') return [];
+        return [{
+            nodeId: node.id,
+            message: `Field "${node.id}" belongs to table "${node.tableId}", which does not exist.`,
+        }];
+    }),
+};
+
+export const selfLoopRule: ValidationRule = {
+    code: 'self-loop',
+    severity: 'warning',
+    description: 'A field should not feed itself.',
+    validate: ({ graph }) => graph.edges
+        .filter(edge => edge.source === edge.target)
+        .map(edge => ({
+            edgeId: edge.id,
+            nodeId: edge.source,
+            message: `Field "${edge.source}" has an edge to itself.`,
+        })),
+};
+
+export const unusedSourceFieldRule: ValidationRule = {
+    code: 'unused-source-field',
+    severity: 'info',
+    description: 'Fields without any edges in a table whose other fields feed downstream fields.',
+    validate: ({ graph, nodesById, incomingEdges, outgoingEdges }) => {
+        // Tables that are consumed somewhere, through at least one of their fields
+        const consumedTables = new Set<string>();
+        graph.edges.forEach(edge => {
+            const source = nodesById.get(edge.source);
+            if (source?.type === 'field') consumedTables.add(source.tableId);
+        });
+        return graph.nodes.flatMap(node => {
+            if (node.type !== 'field' || !consumedTables.has(node.tableId)) return [];
+            if ((incomingEdges.get(node.id) || []).length > 0 || (outgoingEdges.get(node.id) || []).length > 0) return [];
+            return [{
+                nodeId: node.id,
+                message: `Field "${node.id}" feeds no other field, although other fields of "${node.tableId}" do.`,
+            }];
+        });
+    },
+};
+
+export const unresolvedSqlReferenceRule: ValidationRule = {
+    code: 'unresolved-sql-reference',
+    severity: 'warning',
+    description: 'Columns in SQL that match no node in the graph (only with `inferEdgesFromSql`).',
+    validate: ({ sqlAnalysis }) => (sqlAnalysis?.unresolved || []).map(entry => ({
+        nodeId: entry.fieldId,
+        message: `SQL reference "${entry.reference}" could not be resolved. ${entry.reason}`,
+    })),
+};
+
+export const cycleRule: ValidationRule = {
+    code: 'cycle',
+    severity: 'warning',
+    description: 'Fields or tables that feed back into themselves. A field feeding itself is reported by `self-loop`.',
+    validate: ({ cycles }) => cycles.flatMap(cycle => {
+        if (cycle.nodeIds.length < 2) return [];
+        const kind = cycle.type === 'field' ? 'Field' : 'Table';
+        return cycle.nodeIds.map(nodeId => {
+            const others = cycle.nodeIds.filter(id => id !== nodeId).map(id => `"${id}"`);
+            const list = others.length > 1 ? `${others.slice(0, -1).join(', ')} and ${others[others.length - 1]}` : others[0];
+            return {
+                nodeId,
+                message: `${kind} "${nodeId}" is part of a cycle with ${list}.`,
+            };
+        });
+    }),
+};
+
+export const incompatibleTypesRule: ValidationRule = {
+    code: 'incompatible-types',
+    severity: 'warning',
+    description: 'Fields connected by an edge must have compatible data types, e.g. not a date feeding a boolean.',
+    validate: ({ graph, nodesById }) => graph.edges.flatMap(edge => {
+        const source = nodesById.get(edge.source);
+        const target = nodesById.get(edge.target);
+        if (source?.type !== 'field' || target?.type !== 'field' || !source.dataType || !target.dataType) return [];
+        if (areTypesCompatible(source.dataType, target.dataType)) return [];
+        return [{
+            edgeId: edge.id,
+            nodeId: target.id,
+            message: `Field "${source.id}" (${source.dataType}) feeds "${target.id}" (${target.dataType}), which is an incompatible type.`,
+        }];
+    }),
+};
+
+export const builtInRules: ValidationRule[] = [
+    transformationEdgeMismatchRule,
+    danglingEdgeRule,
+    duplicateNodeIdRule,
+    missingTableRule,
+    selfLoopRule,
+    unusedSourceFieldRule,
+    unresolvedSqlReferenceRule,
+    cycleRule,
+    incompatibleTypesRule,
+];
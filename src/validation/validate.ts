@@ -0,0 +1,75 @@
+import { Edge, Graph, Node, SqlAnalysisResult, ValidationContext, ValidationIssue, ValidationOptions, ValidationSeverity } from "../types/index"
+import { builtInRules } from "./rules"
+import { detectCycles } from "../cycles"
+
+const SEVERITY_RANK: Record<ValidationSeverity, number> = { info: 0, warning: 1, error: 2 };
+
+export const SEVERITY_ICONS: Record<ValidationSeverity, string> = {
+    error: '✕',
+    warning: '⚠',
+    info: 'ℹ',
+};
+
+export function createValidationContext(graph: Graph, sqlAnalysis: SqlAnalysisResult | null = null): ValidationContext {
+    const nodesById = new Map<string, Node>();
+    const incomingEdges = new Map<string, Edge[]>();
+    const outgoingEdges = new Map<string, Edge[]>();
+
+    graph.nodes.forEach(node => {
+        if (!nodesById.has(node.id)) nodesById.set(node.id, node);
+    });
+    graph.edges.forEach(edge => {
+        if (!incomingEdges.has(edge.target)) incomingEdges.set(edge.target, []);
+        incomingEdges.get(edge.target)!.push(edge);
+        if (!outgoingEdges.has(edge.source)) outgoingEdges.set(edge.source, []);
+        outgoingEdges.get(edge.source)!.push(edge);
+    });
+
+    return { graph, nodesById, incomingEdges, outgoingEdges, sqlAnalysis, cycles: detectCycles(graph) };
+}
+
+// Runs the built-in rules followed by any custom ones and returns every issue found
+export function runValidation(graph: Graph, options: ValidationOptions = {}, sqlAnalysis: SqlAnalysisResult | null = null): ValidationIssue[] {
+    const context = createValidationContext(graph, sqlAnalysis);
+    const disabled = new Set(options.disabledRules || []);
+    const severities = options.severities || {};
+    const rules = [...builtInRules, ...(options.rules || [])].filter(rule => !disabled.has(rule.code));
+
+    return rules.flatMap(rule => {
+        let results;
+        try {
+            results = rule.validate(context);
+        } catch (error) {
+            // A broken custom rule should not take the whole map down
+            console.warn(`Validation rule "${rule.code}" failed`, error);
+            return [];
+        }
+        return results.map(result => {
+            const code = result.code || rule.code;
+            return {
+                ...result,
+                code,
+                severity: severities[code] || result.severity || rule.severity,
+            } as ValidationIssue;
+        });
+    });
+}
+
+// Highest severity among `issues`, or null when there are none
+export function getHighestSeverity(issues: ValidationIssue[]): ValidationSeverity | null {
+    return issues.reduce<ValidationSeverity | null>((highest, issue) => (
+        !highest || SEVERITY_RANK[issue.severity] > SEVERITY_RANK[highest] ? issue.severity : highest
+    ), null);
+}
+
+export function groupIssuesByNode(issues: ValidationIssue[]): Map<string, ValidationIssue[]> {
+    const byNode = new Map<string, ValidationIssue[]>();
+    issues.forEach(issue => {
+        if (!issue.nodeId) return;
+        if (!byNode.has(issue.nodeId)) byNode.set(issue.nodeId, []);
+        byNode.get(issue.nodeId)!.push(issue);
+    });
+    // Most severe first, so popups lead with errors
+    byNode.forEach(nodeIssues => nodeIssues.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]));
+    return byNode;
+}
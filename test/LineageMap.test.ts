@@ -0,0 +1,300 @@
+// @vitest-environment jsdom
+import * as d3 from 'd3';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LineageMap } from '../src/LineageMap';
+import { normalizeGraph } from '../src/normalize';
+import { GraphProp, LineageMapOptions, NodeProp } from '../src/types';
+
+const table = (id: string, fields: string[]): NodeProp[] => [
+  { id, type: 'table', name: id },
+  ...fields.map((name): NodeProp => ({ id: `${id}:${name}`, type: 'field', name })),
+];
+
+const data: GraphProp = {
+  nodes: [...table('orders', ['id', 'amount']), ...table('revenue', ['total'])],
+  edges: [{ source: 'orders:amount', target: 'revenue:total' }],
+};
+
+const withTable = (graph: GraphProp, id: string, fields: string[]): GraphProp => ({
+  nodes: [...graph.nodes, ...table(id, fields)],
+  edges: graph.edges,
+});
+
+let container: HTMLDivElement;
+
+beforeAll(() => {
+  // jsdom does no layout, so every element measures the same
+  const getBBox = (): DOMRect => DOMRect.fromRect({ x: 0, y: 0, width: 120, height: 20 });
+  Object.defineProperty(SVGElement.prototype, 'getBBox', { value: getBBox, configurable: true });
+});
+
+beforeEach(() => {
+  container = document.createElement('div');
+  document.body.appendChild(container);
+});
+
+afterEach(() => {
+  container.remove();
+});
+
+const createMap = (graph: GraphProp, options: LineageMapOptions = {}) => {
+  const map = new LineageMap(container, options);
+  map.renderBase(normalizeGraph(graph));
+  return map;
+};
+
+const svg = () => container.querySelector('svg')!;
+
+describe('LineageMap.update', () => {
+  it('keeps the zoom level', () => {
+    const map = createMap(data);
+    const transform = d3.zoomIdentity.translate(40, 10).scale(2);
+    // jsdom has no SVG lengths to derive the zoom extent from
+    const zoom = map['zoom'].extent([[0, 0], [800, 600]]);
+    d3.select(svg()).call(zoom.transform, transform);
+
+    map.update(normalizeGraph(withTable(data, 'customers', ['name'])));
+    expect(d3.zoomTransform(svg()).toString()).toBe(transform.toString());
+    expect(svg().querySelector(':scope > g')!.getAttribute('transform')).toBe(transform.toString());
+  });
+
+  it('keeps collapsed tables collapsed and expands new tables', () => {
+    const map = createMap(data);
+    map.toggleTableExpansion('orders');
+
+    map.update(normalizeGraph(withTable(data, 'customers', ['name'])));
+    expect(map.getExpandedTables().sort()).toEqual(['customers', 'revenue']);
+  });
+
+  it('forgets removed tables', () => {
+    const map = createMap(withTable(data, 'customers', ['name']));
+    map.update(normalizeGraph(data));
+    expect(map.getExpandedTables().sort()).toEqual(['orders', 'revenue']);
+  });
+
+  it('keeps the selected field', () => {
+    const onSelectionChange = vi.fn();
+    const map = createMap(data);
+    map.setCallbacks({ onSelectionChange });
+    map.selectField('orders:amount');
+
+    map.update(normalizeGraph(withTable(data, 'customers', ['name'])));
+    expect(map.getSelectedField()).toBe('orders:amount');
+    expect(container.querySelector('[data-field-id="orders:amount"]')!.parentElement!.getAttribute('aria-selected')).toBe('true');
+    expect(onSelectionChange).not.toHaveBeenCalled();
+  });
+
+  it('clears the selection and reports it when the selected field is removed', () => {
+    const onSelectionChange = vi.fn();
+    const map = createMap(data);
+    map.setCallbacks({ onSelectionChange });
+    map.selectField('revenue:total');
+
+    map.update(normalizeGraph({ nodes: table('orders', ['id', 'amount']), edges: [] }));
+    expect(onSelectionChange).toHaveBeenCalledWith(null);
+    expect(map.getSelectedField()).toBeNull();
+  });
+
+  it('leaves new tables collapsed in the table-level view until it is left', () => {
+    const map = createMap(data, { tableLevelView: true });
+    map.update(normalizeGraph(withTable(data, 'customers', ['name'])));
+    expect(map.getExpandedTables()).toEqual([]);
+
+    map.setTableLevelView(false);
+    expect(map.getExpandedTables().sort()).toEqual(['customers', 'orders', 'revenue']);
+  });
+});
+
+describe('LineageMap table-level view', () => {
+  it('collapses every table and restores the expansion when left', () => {
+    const onTableToggle = vi.fn();
+    const map = createMap(data);
+    map.setCallbacks({ onTableToggle });
+    map.toggleTableExpansion('revenue');
+
+    map.setTableLevelView(true);
+    expect(map.getExpandedTables()).toEqual([]);
+    expect(container.querySelectorAll('[data-field-id]')).toHaveLength(0);
+    expect(container.querySelectorAll('.edge')).toHaveLength(1);
+    expect(onTableToggle).toHaveBeenLastCalledWith('orders', false);
+
+    map.setTableLevelView(false);
+    expect(map.getExpandedTables()).toEqual(['orders']);
+  });
+});
+
+describe('LineageMap edges', () => {
+  it('styles edges by kind and describes aggregated edges', () => {
+    const graph: GraphProp = {
+      nodes: data.nodes,
+      edges: [
+        { source: 'orders:amount', target: 'revenue:total', kind: 'filter' },
+        { source: 'orders:id', target: 'revenue:total', kind: 'join' },
+      ],
+    };
+    const map = createMap(graph);
+    const edges = () => Array.from(container.querySelectorAll('.edge'), edge => [
+      edge.getAttribute('data-kind'),
+      edge.getAttribute('stroke-dasharray'),
+      edge.classList.contains('aggregated-edge'),
+    ]);
+    expect(edges()).toEqual([
+      ['filter', '6,3,2,3', false],
+      ['join', '2,3', false],
+    ]);
+
+    // With both tables collapsed the field edges are drawn as one, which has no kind as theirs differ
+    map.toggleTableExpansion('orders');
+    map.toggleTableExpansion('revenue');
+    expect(edges()).toEqual([[null, null, true]]);
+    expect(container.querySelector('.edge-hit title')!.textContent).toBe(
+      '2 field edges:\norders:amount → revenue:total (filter)\norders:id → revenue:total (join)'
+    );
+  });
+});
+
+describe('LineageMap lineage direction', () => {
+  // orders:amount → revenue:total → report:total
+  const chain: GraphProp = {
+    nodes: [...data.nodes, ...table('report', ['total'])],
+    edges: [...data.edges, { source: 'revenue:total', target: 'report:total' }],
+  };
+  const fill = (fieldId: string) =>
+    (container.querySelector(`[data-field-id="${fieldId}"] .field-row`) as SVGElement).style.fill;
+
+  it('highlights upstream fields by default and downstream or both when asked', () => {
+    const map = createMap(chain);
+    map.selectField('revenue:total');
+    expect(fill('orders:amount')).toBe('var(--lineage-upstream-surface)');
+    expect(fill('report:total')).toBe('var(--lineage-surface)');
+
+    map.setLineageDirection('downstream');
+    expect(fill('orders:amount')).toBe('var(--lineage-surface)');
+    expect(fill('report:total')).toBe('var(--lineage-downstream-surface)');
+
+    map.setLineageDirection('both');
+    expect(fill('orders:amount')).toBe('var(--lineage-upstream-surface)');
+    expect(fill('report:total')).toBe('var(--lineage-downstream-surface)');
+    expect(fill('orders:id')).toBe('var(--lineage-surface)');
+  });
+
+  it('starts with the direction from the options', () => {
+    const map = createMap(chain, { lineageDirection: 'downstream' });
+    map.selectField('orders:amount');
+    expect(map.getLineageDirection()).toBe('downstream');
+    expect(fill('report:total')).toBe('var(--lineage-downstream-surface)');
+  });
+});
+
+describe('LineageMap accessibility', () => {
+  const tableNode = (id: string) => container.querySelector(`[data-table-id="${id}"]`)!;
+  const fieldNode = (id: string) => container.querySelector(`[data-field-id="${id}"]`)!.parentElement!;
+  const liveRegion = () => container.querySelector('.lineage-live-region')!;
+  const press = (element: Element, key: string) =>
+    element.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true }));
+
+  it('exposes tables and fields as a tree with one tab stop', () => {
+    createMap(data);
+    expect(container.querySelector('.node-layer')!.getAttribute('role')).toBe('tree');
+
+    const orders = tableNode('orders');
+    expect(orders.getAttribute('role')).toBe('treeitem');
+    expect(orders.getAttribute('aria-level')).toBe('1');
+    expect(orders.getAttribute('aria-expanded')).toBe('true');
+    expect(orders.getAttribute('aria-label')).toBe('orders table, 2 fields');
+    expect(fieldNode('orders:amount').getAttribute('aria-level')).toBe('2');
+    expect(fieldNode('orders:amount').getAttribute('aria-selected')).toBe('false');
+
+    const tabStops = Array.from(container.querySelectorAll('.node[tabindex="0"]'));
+    expect(tabStops).toEqual([orders]);
+  });
+
+  it('announces the selected lineage and its clearing', () => {
+    const map = createMap(data);
+    map.selectField('revenue:total');
+    expect(liveRegion().textContent).toBe(
+      'Selected revenue.total. Upstream: 1 field, orders.amount. Downstream: none.'
+    );
+
+    map.clearSelection();
+    expect(liveRegion().textContent).toBe('Selection cleared.');
+  });
+
+  it('moves between rows, selects fields and toggles tables from the keyboard', () => {
+    const map = createMap(data);
+    press(tableNode('orders'), 'ArrowDown');
+    expect(document.activeElement).toBe(fieldNode('orders:id'));
+    expect(fieldNode('orders:id').getAttribute('tabindex')).toBe('0');
+
+    press(fieldNode('orders:id'), 'ArrowDown');
+    press(fieldNode('orders:amount'), 'Enter');
+    expect(map.getSelectedField()).toBe('orders:amount');
+
+    // Space collapses the field's table and moves focus onto it
+    press(fieldNode('orders:amount'), ' ');
+    expect(map.getExpandedTables()).toEqual(['revenue']);
+    expect(document.activeElement).toBe(tableNode('orders'));
+    expect(tableNode('orders').getAttribute('aria-expanded')).toBe('false');
+
+    press(tableNode('orders'), 'Escape');
+    expect(map.getSelectedField()).toBeNull();
+  });
+
+  it('says so when there is nothing further along the lineage', () => {
+    createMap(data);
+    press(tableNode('orders'), 'ArrowLeft');
+    expect(liveRegion().textContent).toBe('No upstream tables.');
+  });
+});
+
+describe('LineageMap pinned popups', () => {
+  const graph: GraphProp = {
+    nodes: data.nodes.map(node => node.type === 'field' ? { ...node, transformation: `CAST(${node.name} AS INT)` } : node),
+    edges: data.edges,
+  };
+  const popups = () => Array.from(container.querySelectorAll('.transformation-popup'), popup => [
+    popup.getAttribute('data-target-id'),
+    popup.classList.contains('pinned'),
+  ]);
+  const click = (element: Element) => element.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+  const popupButton = (fieldId: string, className: string) =>
+    container.querySelector(`.transformation-popup[data-target-id="${fieldId}"] .${className}`)!;
+
+  beforeAll(() => {
+    // Popups wrap their text by measuring it
+    const getComputedTextLength = (): number => 50;
+    Object.defineProperty(SVGElement.prototype, 'getComputedTextLength', { value: getComputedTextLength, configurable: true });
+  });
+
+  it('keeps a pinned popup open as the selection changes', () => {
+    const map = createMap(graph);
+    map.selectField('orders:amount');
+    click(popupButton('orders:amount', 'popup-pin'));
+    expect(popupButton('orders:amount', 'popup-pin').getAttribute('aria-pressed')).toBe('true');
+
+    map.selectField('revenue:total');
+    expect(popups()).toEqual([['orders:amount', true], ['revenue:total', false]]);
+
+    // Selecting the pinned field again raises its popup instead of opening a second one
+    map.selectField('orders:amount');
+    expect(popups()).toEqual([['orders:amount', true]]);
+
+    map.clearSelection();
+    expect(popups()).toEqual([['orders:amount', true]]);
+  });
+
+  it('closes a pinned popup with its button or when its field is removed', () => {
+    const map = createMap(graph);
+    map.selectField('orders:amount');
+    click(popupButton('orders:amount', 'popup-pin'));
+    map.selectField('orders:id');
+    click(popupButton('orders:id', 'popup-pin'));
+
+    click(popupButton('orders:id', 'popup-close'));
+    expect(popups()).toEqual([['orders:amount', true]]);
+
+    map.clearSelection();
+    map.update(normalizeGraph({ nodes: graph.nodes.filter(node => node.id !== 'orders:amount'), edges: [] }));
+    expect(popups()).toEqual([]);
+  });
+});
@@ -0,0 +1,142 @@
+// @vitest-environment jsdom
+import React, { act } from 'react';
+import { Root, createRoot } from 'react-dom/client';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { LineageMapComponent } from '../src/components/LineageMapComponent';
+import { GraphProp, LineageMapProps } from '../src/types';
+
+declare global {
+  var IS_REACT_ACT_ENVIRONMENT: boolean;
+}
+
+const data: GraphProp = {
+  nodes: [
+    { id: 'orders', type: 'table', name: 'orders' },
+    { id: 'orders:amount', type: 'field', name: 'amount' },
+    { id: 'revenue', type: 'table', name: 'revenue' },
+    { id: 'revenue:total', type: 'field', name: 'total' },
+  ],
+  edges: [{ source: 'orders:amount', target: 'revenue:total' }],
+};
+
+let container: HTMLDivElement;
+let root: Root;
+
+beforeAll(() => {
+  globalThis.IS_REACT_ACT_ENVIRONMENT = true;
+  // jsdom does no layout, so every element measures the same
+  const getBBox = (): DOMRect => DOMRect.fromRect({ x: 0, y: 0, width: 120, height: 20 });
+  Object.defineProperty(SVGElement.prototype, 'getBBox', { value: getBBox, configurable: true });
+});
+
+afterEach(() => {
+  act(() => root.unmount());
+  container.remove();
+});
+
+const render = (props: Partial<LineageMapProps>) => {
+  act(() => root.render(<LineageMapComponent data={data} {...props} />));
+};
+
+const mount = (props: Partial<LineageMapProps>) => {
+  container = document.createElement('div');
+  document.body.appendChild(container);
+  root = createRoot(container);
+  render(props);
+};
+
+const field = (id: string) => container.querySelector(`[data-field-id="${id}"]`);
+const isSelected = (id: string) => field(id)?.parentElement?.getAttribute('aria-selected') === 'true';
+const table = (id: string) => container.querySelector(`[data-table-id="${id}"]`);
+const isExpanded = (id: string) => table(id)?.getAttribute('aria-expanded') === 'true';
+const click = (element: Element | null) => {
+  act(() => {
+    element?.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+  });
+};
+
+describe('LineageMapComponent', () => {
+  it('shows the controlled selection and only reports clicks', () => {
+    const onSelectionChange = vi.fn();
+    mount({ selectedFieldId: 'orders:amount', onSelectionChange });
+    expect(isSelected('orders:amount')).toBe(true);
+
+    click(field('revenue:total'));
+    expect(onSelectionChange).toHaveBeenCalledWith('revenue:total');
+    expect(isSelected('orders:amount')).toBe(true);
+    expect(isSelected('revenue:total')).toBe(false);
+
+    render({ selectedFieldId: 'revenue:total', onSelectionChange });
+    expect(isSelected('revenue:total')).toBe(true);
+    expect(isSelected('orders:amount')).toBe(false);
+  });
+
+  it('selects clicked fields itself when selection is not controlled', () => {
+    const onSelectionChange = vi.fn();
+    mount({ onSelectionChange });
+    click(field('orders:amount'));
+    expect(onSelectionChange).toHaveBeenCalledWith('orders:amount');
+    expect(isSelected('orders:amount')).toBe(true);
+  });
+
+  it('shows the controlled expansion and only reports toggles', () => {
+    const onTableToggle = vi.fn();
+    mount({ expandedTableIds: ['orders'], onTableToggle });
+    expect(isExpanded('orders')).toBe(true);
+    expect(isExpanded('revenue')).toBe(false);
+    expect(field('revenue:total')).toBeNull();
+
+    click(table('revenue')!.querySelector('.table-header'));
+    expect(onTableToggle).toHaveBeenCalledWith('revenue', true);
+    expect(isExpanded('revenue')).toBe(false);
+
+    render({ expandedTableIds: ['orders', 'revenue'], onTableToggle });
+    expect(isExpanded('revenue')).toBe(true);
+    expect(field('revenue:total')).not.toBeNull();
+  });
+
+  it('calls the latest callbacks after a re-render', () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    mount({ onTableToggle: first });
+    render({ onTableToggle: second });
+    click(table('orders')!.querySelector('.table-header'));
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledWith('orders', false);
+    expect(isExpanded('orders')).toBe(false);
+  });
+});
+
+describe('LineageMapComponent render props', () => {
+  it('draws custom table headers and field rows with their state', () => {
+    mount({
+      selectedFieldId: 'orders:amount',
+      options: { lineageDirection: 'downstream' },
+      renderTableHeader: ({ table, expanded, fieldCount }) => (
+        <span className="header">{`${table.name} ${fieldCount} ${expanded ? 'open' : 'closed'}`}</span>
+      ),
+      renderFieldRow: ({ field, selected, highlight }) => (
+        <span className="row">{[field.name, selected && 'selected', highlight].filter(Boolean).join(' ')}</span>
+      ),
+    });
+    const texts = (selector: string) => Array.from(container.querySelectorAll(selector), element => element.textContent);
+    expect(texts('.header')).toEqual(['orders 1 open', 'revenue 1 open']);
+    expect(texts('.row')).toEqual(['amount selected downstream', 'total downstream']);
+  });
+
+  it('does not re-render custom content when hovering changes nothing it shows', () => {
+    const renderTableHeader = vi.fn(({ table }) => <span>{table.name}</span>);
+    mount({ renderTableHeader });
+    const calls = renderTableHeader.mock.calls.length;
+
+    act(() => {
+      field('orders:amount')!.dispatchEvent(new MouseEvent('mouseenter'));
+      field('orders:amount')!.dispatchEvent(new MouseEvent('mouseleave'));
+    });
+    expect(renderTableHeader).toHaveBeenCalledTimes(calls);
+
+    click(table('orders')!.querySelector('.table-header'));
+    expect(renderTableHeader.mock.calls.length).toBeGreaterThan(calls);
+  });
+});
+
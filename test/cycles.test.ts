@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { detectCycles, findFeedbackEdges, findStronglyConnectedComponents, getFeedbackEdges } from '../src/cycles';
+import { normalizeGraph } from '../src/normalize';
+import { GraphProp, NodeProp } from '../src/types';
+
+const link = (source: string, target: string) => ({ id: `${source}->${target}`, source, target });
+
+const table = (id: string, fields: string[]): NodeProp[] => [
+  { id, type: 'table', name: id },
+  ...fields.map((name): NodeProp => ({ id: `${id}:${name}`, type: 'field', name })),
+];
+
+describe('findStronglyConnectedComponents', () => {
+  it('groups nodes that reach each other, in reverse topological order', () => {
+    const components = findStronglyConnectedComponents(
+      ['a', 'b', 'c', 'd'],
+      [link('a', 'b'), link('b', 'c'), link('c', 'b'), link('c', 'd')]
+    );
+    expect(components.map(component => component.sort())).toEqual([['d'], ['b', 'c'], ['a']]);
+  });
+
+  it('handles long chains without recursion', () => {
+    const ids = Array.from({ length: 20000 }, (_, i) => `n${i}`);
+    const edges = ids.slice(1).map((id, i) => link(ids[i], id));
+    edges.push(link(ids[ids.length - 1], ids[0]));
+    expect(findStronglyConnectedComponents(ids, edges)).toHaveLength(1);
+  });
+});
+
+describe('findFeedbackEdges', () => {
+  it('picks the edges that close a cycle in search order', () => {
+    const edges = [link('a', 'b'), link('b', 'c'), link('c', 'a'), link('c', 'c')];
+    expect(findFeedbackEdges(['a', 'b', 'c'], edges)).toEqual(new Set(['c->a', 'c->c']));
+  });
+
+  it('finds none in an acyclic graph', () => {
+    expect(findFeedbackEdges(['a', 'b', 'c'], [link('a', 'b'), link('a', 'c'), link('b', 'c')]).size).toBe(0);
+  });
+});
+
+describe('detectCycles', () => {
+  it('reports field cycles and fields feeding themselves', () => {
+    const graph = normalizeGraph({
+      nodes: [...table('a', ['x', 'y']), ...table('b', ['z'])],
+      edges: [
+        { id: 'e1', source: 'a:x', target: 'b:z' },
+        { id: 'e2', source: 'b:z', target: 'a:x' },
+        { id: 'e3', source: 'a:y', target: 'a:y' },
+      ],
+    });
+    expect(detectCycles(graph)).toEqual([
+      { type: 'field', nodeIds: ['a:x', 'b:z'], edgeIds: ['e1', 'e2'] },
+      { type: 'field', nodeIds: ['a:y'], edgeIds: ['e3'] },
+      { type: 'table', nodeIds: ['a', 'b'], edgeIds: ['e1', 'e2'] },
+    ]);
+  });
+
+  it('reports table cycles that have no field cycle', () => {
+    const graph = normalizeGraph({
+      nodes: [...table('a', ['x', 'w']), ...table('b', ['y', 'z'])],
+      edges: [
+        { id: 'e1', source: 'a:x', target: 'b:y' },
+        { id: 'e2', source: 'b:z', target: 'a:w' },
+      ],
+    });
+    expect(detectCycles(graph)).toEqual([{ type: 'table', nodeIds: ['a', 'b'], edgeIds: ['e1', 'e2'] }]);
+  });
+
+  it('finds nothing in a graph without cycles', () => {
+    const data: GraphProp = {
+      nodes: [...table('a', ['x']), ...table('b', ['y'])],
+      edges: [{ source: 'a:x', target: 'b:y' }],
+    };
+    expect(detectCycles(normalizeGraph(data))).toEqual([]);
+  });
+});
+
+describe('getFeedbackEdges', () => {
+  it('marks the table relationship closing a cycle and its field edges', () => {
+    const graph = normalizeGraph({
+      nodes: [...table('a', ['x', 'w']), ...table('b', ['y', 'z'])],
+      edges: [
+        { id: 'e1', source: 'a:x', target: 'b:y' },
+        { id: 'e2', source: 'b:z', target: 'a:w' },
+        { id: 'e3', source: 'b:z', target: 'a:x' },
+      ],
+    });
+    expect(getFeedbackEdges(graph)).toEqual({ tables: new Set(['b->a']), edges: new Set(['e2', 'e3']) });
+  });
+
+  it('marks field edges closing a cycle within one table', () => {
+    const graph = normalizeGraph({
+      nodes: table('a', ['x', 'y']),
+      edges: [
+        { id: 'e1', source: 'a:x', target: 'a:y' },
+        { id: 'e2', source: 'a:y', target: 'a:x' },
+      ],
+    });
+    expect(getFeedbackEdges(graph)).toEqual({ tables: new Set(), edges: new Set(['e2']) });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { areTypesCompatible, formatDataType, getTypeFamily } from '../src/dataTypes';
+import { FieldNode } from '../src/types';
+
+describe('getTypeFamily', () => {
+  it('groups SQL types regardless of case, parameters and spacing', () => {
+    expect(getTypeFamily('VARCHAR(255)')).toBe('string');
+    expect(getTypeFamily('character  varying')).toBe('string');
+    expect(getTypeFamily('NUMERIC(10, 2)')).toBe('number');
+    expect(getTypeFamily('double precision')).toBe('number');
+    expect(getTypeFamily('bool')).toBe('boolean');
+    expect(getTypeFamily('uuid')).toBe('uuid');
+    expect(getTypeFamily('jsonb')).toBe('json');
+    expect(getTypeFamily('bytea')).toBe('binary');
+  });
+
+  it('tells times from timestamps and dates', () => {
+    expect(getTypeFamily('time')).toBe('time');
+    expect(getTypeFamily('time with time zone')).toBe('time');
+    expect(getTypeFamily('timestamp with time zone')).toBe('date');
+    expect(getTypeFamily('TIMESTAMP_NTZ')).toBe('date');
+    expect(getTypeFamily('date')).toBe('date');
+  });
+
+  it('recognizes array types before their element type', () => {
+    expect(getTypeFamily('integer[]')).toBe('array');
+    expect(getTypeFamily('ARRAY<STRING>')).toBe('array');
+  });
+
+  it('returns null for unknown types', () => {
+    expect(getTypeFamily('geography')).toBeNull();
+    expect(getTypeFamily('')).toBeNull();
+  });
+});
+
+describe('areTypesCompatible', () => {
+  it('accepts types of the same family', () => {
+    expect(areTypesCompatible('int', 'bigint')).toBe(true);
+    expect(areTypesCompatible('date', 'timestamp')).toBe(true);
+  });
+
+  it('lets anything become text or semi-structured data', () => {
+    expect(areTypesCompatible('timestamp', 'varchar')).toBe(true);
+    expect(areTypesCompatible('integer[]', 'json')).toBe(true);
+  });
+
+  it('lets text be parsed into scalars but not binary or arrays', () => {
+    expect(areTypesCompatible('text', 'date')).toBe(true);
+    expect(areTypesCompatible('text', 'bytea')).toBe(false);
+    expect(areTypesCompatible('text', 'text[]')).toBe(false);
+  });
+
+  it('treats booleans as numbers but not the other way around', () => {
+    expect(areTypesCompatible('boolean', 'int')).toBe(true);
+    expect(areTypesCompatible('int', 'boolean')).toBe(false);
+  });
+
+  it('rejects unrelated families', () => {
+    expect(areTypesCompatible('date', 'boolean')).toBe(false);
+    expect(areTypesCompatible('uuid', 'int')).toBe(false);
+  });
+
+  it('accepts unknown types', () => {
+    expect(areTypesCompatible('geography', 'boolean')).toBe(true);
+  });
+});
+
+describe('formatDataType', () => {
+  const field = (details: Partial<FieldNode>): FieldNode => ({ id: 't:f', type: 'field', name: 'f', tableId: 't', ...details });
+
+  it('marks nullable columns', () => {
+    expect(formatDataType(field({ dataType: 'int', nullable: true }))).toBe('int?');
+    expect(formatDataType(field({ dataType: 'int' }))).toBe('int');
+  });
+
+  it('shortens long type names', () => {
+    expect(formatDataType(field({ dataType: 'timestamp with time zone' }))).toBe('timestamp wit…');
+  });
+
+  it('is empty without a type', () => {
+    expect(formatDataType(field({}))).toBe('');
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { computeTableLevels, getEdgeKind, getPathBounds, getPathMidpoint, inferTableEdges, layoutLineage } from '../src/layout/engine';
+import { normalizeGraph } from '../src/normalize';
+import { Edge, GraphProp, LayoutOrientation, NodeProp, RenderedEdge } from '../src/types';
+
+const table = (id: string, fields: string[]): NodeProp[] => [
+  { id, type: 'table', name: id },
+  ...fields.map((name): NodeProp => ({ id: `${id}:${name}`, type: 'field', name })),
+];
+
+// orders and customers feed revenue
+const data: GraphProp = {
+  nodes: [...table('orders', ['id', 'amount']), ...table('customers', ['id', 'region']), ...table('revenue', ['region', 'total'])],
+  edges: [
+    { source: 'orders:amount', target: 'revenue:total' },
+    { source: 'orders:id', target: 'revenue:total' },
+    { source: 'customers:region', target: 'revenue:region' },
+  ],
+};
+
+const allTables = new Set(['orders', 'customers', 'revenue']);
+
+describe('layout orientation', () => {
+  const layout = (orientation: LayoutOrientation) => layoutLineage(data, { orientation }, allTables).positions;
+
+  it('places levels left to right by default', () => {
+    const positions = layout('LR');
+    expect(positions.get('revenue')!.x).toBeGreaterThan(positions.get('orders')!.x);
+    expect(positions.get('orders')!.x).toBe(positions.get('customers')!.x);
+    expect(positions.get('orders')!.y).not.toBe(positions.get('customers')!.y);
+  });
+
+  it('places levels top to bottom with tables of a level side by side', () => {
+    const positions = layout('TB');
+    expect(positions.get('revenue')!.y).toBeGreaterThan(positions.get('orders')!.y);
+    expect(positions.get('orders')!.y).toBe(positions.get('customers')!.y);
+    expect(positions.get('orders')!.x).not.toBe(positions.get('customers')!.x);
+  });
+
+  it('mirrors the flow for right to left and bottom to top', () => {
+    const rightToLeft = layout('RL');
+    expect(rightToLeft.get('revenue')!.x).toBeLessThan(rightToLeft.get('orders')!.x);
+    const bottomToTop = layout('BT');
+    expect(bottomToTop.get('revenue')!.y).toBeLessThan(bottomToTop.get('orders')!.y);
+  });
+
+  it('keeps fields listed below their table header in every orientation', () => {
+    (['LR', 'RL', 'TB', 'BT'] as LayoutOrientation[]).forEach(orientation => {
+      const positions = layout(orientation);
+      const header = positions.get('orders')!;
+      const first = positions.get('orders:id')!;
+      const second = positions.get('orders:amount')!;
+      expect(first.x).toBe(header.x);
+      expect(second.y).toBeGreaterThan(first.y);
+      expect(first.y).toBeGreaterThan(header.y);
+    });
+  });
+
+  it('draws every edge between the levels in every orientation', () => {
+    (['LR', 'RL', 'TB', 'BT'] as LayoutOrientation[]).forEach(orientation => {
+      const { edges } = layoutLineage(data, { orientation }, allTables);
+      expect(edges).toHaveLength(3);
+      edges.forEach(edge => expect(edge.path).toMatch(/^M /));
+    });
+  });
+});
+
+describe('collapsed tables', () => {
+  it('draws field edges into a collapsed table as one aggregated edge per field or table pair', () => {
+    const { edges } = layoutLineage(data, {}, new Set(['orders', 'customers']));
+    expect(edges.map(edge => [edge.id, edge.source, edge.target, edge.aggregated, edge.edges.length])).toEqual([
+      ['aggregate:orders:amount->revenue', 'orders:amount', 'revenue', true, 1],
+      ['aggregate:orders:id->revenue', 'orders:id', 'revenue', true, 1],
+      ['aggregate:customers:region->revenue', 'customers:region', 'revenue', true, 1],
+    ]);
+  });
+
+  it('joins every edge between two collapsed tables into one', () => {
+    const { edges } = layoutLineage(data, {}, new Set());
+    expect(edges.map(edge => [edge.id, edge.edges.length])).toEqual([
+      ['aggregate:orders->revenue', 2],
+      ['aggregate:customers->revenue', 1],
+    ]);
+  });
+
+  it('leaves out edges within a collapsed table', () => {
+    const withInternalEdge: GraphProp = { ...data, edges: [...data.edges, { source: 'orders:id', target: 'orders:amount' }] };
+    const collapsed = layoutLineage(withInternalEdge, {}, new Set());
+    expect(collapsed.edges.some(edge => edge.source === edge.target)).toBe(false);
+    const expanded = layoutLineage(withInternalEdge, {}, allTables);
+    expect(expanded.edges.map(edge => edge.id)).toContain('orders:id->orders:amount');
+  });
+
+  it('makes collapsed tables only as tall as their header', () => {
+    const { tableRects } = layoutLineage(data, { tableHeight: 40 }, new Set(['orders']));
+    expect(tableRects.get('revenue')!.height).toBe(40);
+    expect(tableRects.get('orders')!.height).toBeGreaterThan(40);
+  });
+});
+
+describe('table relationships', () => {
+  it('infers one table edge per related pair of tables', () => {
+    expect(inferTableEdges(normalizeGraph(data)).map(edge => edge.id)).toEqual([
+      'table-orders->revenue',
+      'table-customers->revenue',
+    ]);
+  });
+
+  it('puts tables one level after the tables feeding them and unconnected tables first', () => {
+    const levels = computeTableLevels(normalizeGraph({ ...data, nodes: [...data.nodes, ...table('audit', ['note'])] }));
+    expect(levels.map(level => [level.id, level.level])).toEqual([
+      ['audit', 0],
+      ['orders', 1],
+      ['customers', 1],
+      ['revenue', 2],
+    ]);
+  });
+});
+
+describe('edge metadata', () => {
+  const rendered = (edges: Partial<Edge>[]): RenderedEdge => ({
+    id: 'r', source: 'a', target: 'b', aggregated: edges.length > 1, path: '',
+    edges: edges.map((edge, i) => ({ id: `e${i}`, source: 'a', target: 'b', ...edge })),
+  });
+
+  it('gives a drawn edge the kind all of its field edges share', () => {
+    expect(getEdgeKind(rendered([{ kind: 'join' }, { kind: 'join' }]))).toBe('join');
+    expect(getEdgeKind(rendered([{ kind: 'join' }, { kind: 'filter' }]))).toBeNull();
+    expect(getEdgeKind(rendered([{}]))).toBeNull();
+  });
+
+  it('measures the bounds of a path including its control points', () => {
+    expect(getPathBounds('M 0,10 Q 50,-20 100,10')).toEqual({ x: 0, y: -20, width: 100, height: 30 });
+    expect(getPathBounds('')).toBeNull();
+  });
+
+  it('finds the point halfway along a path for its label', () => {
+    expect(getPathMidpoint('M 0,0 L 100,0 L 100,100')).toEqual({ x: 100, y: 0 });
+    expect(getPathMidpoint('M 0,0 L 0,40')).toEqual({ x: 0, y: 20 });
+    expect(getPathMidpoint('')).toBeNull();
+  });
+});
@@ -0,0 +1,131 @@
+// @vitest-environment jsdom
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { LineageMap } from '../src/LineageMap';
+import { isTransparent, unionBounds } from '../src/export';
+import { normalizeGraph } from '../src/normalize';
+import { darkTheme } from '../src/theme';
+import { GraphProp } from '../src/types';
+
+const data: GraphProp = {
+  nodes: [
+    { id: 'orders', type: 'table', name: 'orders' },
+    { id: 'orders:amount', type: 'field', name: 'amount' },
+    { id: 'revenue', type: 'table', name: 'revenue' },
+    { id: 'revenue:total', type: 'field', name: 'total' },
+  ],
+  edges: [{ source: 'orders:amount', target: 'revenue:total' }],
+};
+
+// Parsed as HTML, which doesn't mind the doubled xmlns attribute jsdom's serializer writes
+const parseExport = (svg: string) => new DOMParser().parseFromString(svg, 'text/html').querySelector('svg')!;
+const exportBackground = (svg: string) => parseExport(svg).querySelector(':scope > .export-background');
+
+describe('exportSVG', () => {
+  let container: HTMLDivElement;
+
+  beforeAll(() => {
+    // jsdom does no layout, so every element measures the same
+    const getBBox = (): DOMRect => DOMRect.fromRect({ x: 0, y: 0, width: 400, height: 200 });
+    Object.defineProperty(SVGElement.prototype, 'getBBox', { value: getBBox, configurable: true });
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  const renderMap = (theme: 'light' | 'dark') => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    const map = new LineageMap(container, { theme });
+    map.renderBase(normalizeGraph(data));
+    return map;
+  };
+
+  it('draws the dark theme background behind the graph', () => {
+    const background = exportBackground(renderMap('dark').exportSVG());
+    expect(background?.getAttribute('fill')).toBe(darkTheme.colors.background);
+    expect(background?.getAttribute('width')).toBe('440');
+  });
+
+  it('leaves themes without a background transparent', () => {
+    expect(exportBackground(renderMap('light').exportSVG())).toBeNull();
+  });
+
+  it('uses an explicit background, or none for null', () => {
+    const map = renderMap('dark');
+    expect(exportBackground(map.exportSVG({ background: '#123456' }))?.getAttribute('fill')).toBe('#123456');
+    expect(exportBackground(map.exportSVG({ background: null }))).toBeNull();
+  });
+});
+
+describe('exportSVG output', () => {
+  let container: HTMLDivElement;
+
+  beforeAll(() => {
+    const getBBox = (): DOMRect => DOMRect.fromRect({ x: 10, y: 30, width: 400, height: 200 });
+    const getComputedTextLength = (): number => 50;
+    Object.defineProperty(SVGElement.prototype, 'getBBox', { value: getBBox, configurable: true });
+    // Popups wrap their text by measuring it
+    Object.defineProperty(SVGElement.prototype, 'getComputedTextLength', { value: getComputedTextLength, configurable: true });
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  const renderMap = () => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    const map = new LineageMap(container, {});
+    const nodes = data.nodes.map(node => node.id === 'revenue:total' ? { ...node, transformation: 'SUM(amount)' } : node);
+    map.renderBase(normalizeGraph({ ...data, nodes }));
+    return map;
+  };
+
+  it('is a standalone SVG sized to the graph plus padding', () => {
+    const svg = parseExport(renderMap().exportSVG({ padding: 10 }));
+    expect(svg.getAttribute('xmlns')).toBe('http://www.w3.org/2000/svg');
+    expect(svg.getAttribute('viewBox')).toBe('0 20 420 220');
+    expect(svg.getAttribute('width')).toBe('420');
+    expect(svg.querySelector(':scope > g')!.getAttribute('transform')).toBeNull();
+  });
+
+  it('contains the drawn nodes and edges but not the popups unless asked', () => {
+    const map = renderMap();
+    map.selectField('revenue:total');
+    const without = parseExport(map.exportSVG());
+    expect(without.querySelectorAll('.node')).toHaveLength(data.nodes.length);
+    expect(without.querySelectorAll('.edge')).toHaveLength(1);
+    expect(without.querySelector('.transformation-popup')).toBeNull();
+
+    expect(container.querySelector('.transformation-popup .popup-button')).not.toBeNull();
+    const withPopup = parseExport(map.exportSVG({ includePopup: true }));
+    expect(withPopup.querySelector('.transformation-popup')).not.toBeNull();
+    expect(withPopup.querySelector('.popup-button, .copy-button')).toBeNull();
+  });
+
+  it('leaves the map on screen as it was', () => {
+    const map = renderMap();
+    const before = container.innerHTML;
+    map.exportSVG();
+    expect(container.innerHTML).toBe(before);
+  });
+});
+
+describe('export helpers', () => {
+  it('joins boxes, skipping empty ones', () => {
+    expect(unionBounds([
+      { x: 0, y: 10, width: 50, height: 20 },
+      { x: 0, y: 0, width: 0, height: 0 },
+      { x: 40, y: -5, width: 20, height: 10 },
+    ])).toEqual({ x: 0, y: -5, width: 60, height: 35 });
+    expect(unionBounds([])).toBeNull();
+  });
+
+  it('recognizes colors that paint nothing', () => {
+    expect(isTransparent(null)).toBe(true);
+    expect(isTransparent('transparent')).toBe(true);
+    expect(isTransparent('none')).toBe(true);
+    expect(isTransparent('#ffffff')).toBe(false);
+  });
+});
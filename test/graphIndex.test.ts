@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { getEdges, getFields, getGraphIndex, getStructureKey, traverseLineage } from '../src/graphIndex';
+import { normalizeGraph } from '../src/normalize';
+import { GraphProp } from '../src/types';
+
+const data: GraphProp = {
+  nodes: [
+    { id: 'orders', type: 'table', name: 'orders' },
+    { id: 'orders:id', type: 'field', name: 'id' },
+    { id: 'orders:amount', type: 'field', name: 'amount', dataType: 'decimal' },
+    { id: 'revenue', type: 'table', name: 'revenue' },
+    { id: 'revenue:total', type: 'field', name: 'total' },
+  ],
+  edges: [{ source: 'orders:amount', target: 'revenue:total' }],
+};
+
+describe('getGraphIndex', () => {
+  it('indexes fields by table and edges by both ends', () => {
+    const index = getGraphIndex(normalizeGraph(data));
+    expect(getFields(index, 'orders').map(field => field.id)).toEqual(['orders:id', 'orders:amount']);
+    expect(getEdges(index, 'revenue:total', 'upstream')).toHaveLength(1);
+    expect(getEdges(index, 'orders:id', 'downstream')).toEqual([]);
+    expect(traverseLineage(index, 'revenue:total', 'upstream')).toEqual(new Set(['revenue:total', 'orders:amount']));
+  });
+});
+
+describe('getStructureKey', () => {
+  it('is equal for a new graph object with the same tables, fields and edges', () => {
+    const copy: GraphProp = JSON.parse(JSON.stringify(data));
+    copy.nodes[2] = { ...copy.nodes[2], description: 'Order total', dataType: 'numeric' };
+    expect(getStructureKey(normalizeGraph(copy))).toBe(getStructureKey(normalizeGraph(data)));
+  });
+
+  it('changes when a field or edge is added', () => {
+    const key = getStructureKey(normalizeGraph(data));
+    const withField = { ...data, nodes: [...data.nodes, { id: 'revenue:count', type: 'field' as const, name: 'count' }] };
+    const withEdge = { ...data, edges: [...data.edges, { source: 'orders:id', target: 'revenue:total' }] };
+    expect(getStructureKey(normalizeGraph(withField))).not.toBe(key);
+    expect(getStructureKey(normalizeGraph(withEdge))).not.toBe(key);
+  });
+});
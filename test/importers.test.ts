@@ -0,0 +1,208 @@
+import { describe, expect, it } from 'vitest';
+import { GraphBuilder, toTableId } from '../src/importers/GraphBuilder';
+import { DbtManifest, fromDbtManifest } from '../src/importers/dbt';
+import { OpenLineageRunEvent, fromOpenLineage } from '../src/importers/openLineage';
+
+describe('GraphBuilder', () => {
+  it('lets later field details win and keeps earlier ones that are not repeated', () => {
+    const builder = new GraphBuilder();
+    builder.addTable('orders', 'orders', 'Order events');
+    builder.addField('orders', 'amount', { note: 'In cents', dataType: 'int' });
+    builder.addField('orders', 'amount', { dataType: 'bigint' });
+    builder.addTable('orders', 'orders');
+
+    expect(builder.build().graph.nodes).toEqual([
+      { id: 'orders', type: 'table', name: 'orders', note: 'Order events' },
+      { id: 'orders:amount', type: 'field', name: 'amount', tableId: 'orders', note: 'In cents', transformation: undefined, dataType: 'bigint' },
+    ]);
+  });
+
+  it('keeps the first details of an edge added twice', () => {
+    const builder = new GraphBuilder();
+    builder.addEdge('a:x', 'b:y', { kind: 'direct' });
+    builder.addEdge('a:x', 'b:y', { kind: 'derived', label: 'sum' });
+
+    expect(builder.build().graph.edges).toEqual([
+      { source: 'a:x', target: 'b:y', kind: 'direct', label: 'sum', note: undefined, transformation: undefined },
+    ]);
+  });
+
+  it('lists every table directly followed by its fields', () => {
+    const builder = new GraphBuilder();
+    builder.addTable('a', 'a');
+    builder.addTable('b', 'b');
+    builder.addField('b', 'y');
+    builder.addField('a', 'x');
+    expect(builder.build().graph.nodes.map(node => node.id)).toEqual(['a', 'a:x', 'b', 'b:y']);
+  });
+
+  it('replaces colons in table ids', () => {
+    expect(toTableId('model.shop:orders')).toBe('model.shop_orders');
+  });
+});
+
+describe('fromDbtManifest', () => {
+  const manifest: DbtManifest = {
+    nodes: {
+      'model.shop.orders': {
+        unique_id: 'model.shop.orders',
+        resource_type: 'model',
+        name: 'orders',
+        description: 'Cleaned orders',
+        columns: { id: { name: 'id', description: 'Order id' }, amount: { name: 'AMOUNT' } },
+        depends_on: { nodes: ['source.shop.raw.orders', 'model.shop.missing'] },
+      },
+      'test.shop.not_null': { unique_id: 'test.shop.not_null', resource_type: 'test', name: 'not_null' },
+      'analysis.shop.adhoc': { unique_id: 'analysis.shop.adhoc', resource_type: 'analysis', name: 'adhoc' },
+    },
+    sources: {
+      'source.shop.raw.orders': {
+        unique_id: 'source.shop.raw.orders',
+        resource_type: 'source',
+        source_name: 'raw',
+        name: 'orders',
+        columns: { id: { name: 'id' }, amount: { name: 'amount', data_type: 'int' } },
+      },
+    },
+  };
+
+  it('imports models and sources as tables with their columns', () => {
+    const { graph } = fromDbtManifest(manifest);
+    expect(graph.nodes.filter(node => node.type === 'table').map(node => [node.id, node.name])).toEqual([
+      ['model.shop.orders', 'orders'],
+      ['source.shop.raw.orders', 'raw.orders'],
+    ]);
+    expect(graph.nodes.find(node => node.id === 'model.shop.orders:id')?.note).toBe('Order id');
+  });
+
+  it('connects columns to same-named parent columns, ignoring case', () => {
+    const { graph } = fromDbtManifest(manifest);
+    expect(graph.edges.map(edge => `${edge.source} -> ${edge.target}`)).toEqual([
+      'source.shop.raw.orders:id -> model.shop.orders:id',
+      'source.shop.raw.orders:amount -> model.shop.orders:AMOUNT',
+    ]);
+    expect(fromDbtManifest(manifest, undefined, { inferColumnEdges: false }).graph.edges).toEqual([]);
+  });
+
+  it('takes undocumented columns and types from the catalog', () => {
+    const { graph, warnings } = fromDbtManifest(manifest, {
+      nodes: {
+        'model.shop.orders': {
+          columns: { amount: { name: 'amount', type: 'numeric' }, status: { name: 'status', type: 'text', comment: 'Order status' } },
+        },
+      },
+    });
+    const fields = graph.nodes.filter(node => node.type === 'field' && node.tableId === 'model.shop.orders');
+    expect(fields).toEqual([
+      expect.objectContaining({ name: 'id', dataType: undefined, note: 'Order id' }),
+      expect.objectContaining({ name: 'AMOUNT', dataType: 'numeric', note: undefined }),
+      expect.objectContaining({ name: 'status', dataType: 'text', note: 'Order status' }),
+    ]);
+    expect(warnings.map(warning => warning.code)).not.toContain('missing-catalog-entry');
+  });
+
+  it('warns about skipped resources, missing catalog entries and missing parents', () => {
+    const { warnings } = fromDbtManifest(manifest, { nodes: {} });
+    expect(warnings.map(warning => `${warning.code} ${warning.subject}`)).toEqual([
+      'missing-catalog-entry model.shop.orders',
+      'unsupported-resource analysis.shop.adhoc',
+      'missing-parent model.shop.orders',
+    ]);
+  });
+
+  it('warns about columns no parent has', () => {
+    const { warnings } = fromDbtManifest({
+      nodes: {
+        ...manifest.nodes,
+        'model.shop.revenue': {
+          unique_id: 'model.shop.revenue',
+          resource_type: 'model',
+          name: 'revenue',
+          columns: { id: { name: 'id' }, total: { name: 'total' } },
+          depends_on: { nodes: ['model.shop.orders'] },
+        },
+      },
+    });
+    expect(warnings.filter(warning => warning.code === 'unmatched-column').map(warning => warning.subject))
+      .toEqual(['model.shop.revenue:total']);
+  });
+});
+
+describe('fromOpenLineage', () => {
+  const event: OpenLineageRunEvent = {
+    job: { namespace: 'etl', name: 'daily_revenue' },
+    inputs: [{
+      namespace: 'warehouse',
+      name: 'orders',
+      facets: { schema: { fields: [{ name: 'amount', type: 'decimal' }, { name: 'region', type: 'text' }] } },
+    }],
+    outputs: [{
+      namespace: 'warehouse',
+      name: 'revenue',
+      facets: {
+        documentation: { description: 'Revenue by region' },
+        columnLineage: {
+          fields: {
+            total: {
+              inputFields: [{
+                namespace: 'warehouse',
+                name: 'orders',
+                field: 'amount',
+                transformations: [{ type: 'DIRECT', subtype: 'AGGREGATION', description: 'SUM(amount)' }],
+              }],
+            },
+            region: { inputFields: [{ namespace: 'warehouse', name: 'orders', field: 'region' }] },
+          },
+        },
+      },
+    }],
+  };
+
+  it('turns datasets into tables and column lineage into edges', () => {
+    const { graph, warnings } = fromOpenLineage(event);
+    expect(graph.nodes.map(node => node.id)).toEqual(['orders', 'orders:amount', 'orders:region', 'revenue', 'revenue:total', 'revenue:region']);
+    expect(graph.nodes.find(node => node.id === 'revenue:total')).toMatchObject({ transformation: 'SUM(amount)' });
+    expect(graph.edges).toEqual([
+      expect.objectContaining({ source: 'orders:amount', target: 'revenue:total', kind: 'derived' }),
+      expect.objectContaining({ source: 'orders:region', target: 'revenue:region', kind: undefined }),
+    ]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('prefixes table ids with the namespace when asked', () => {
+    const { graph } = fromOpenLineage(event, { includeNamespace: true });
+    expect(graph.edges[0].source).toBe('warehouse/orders:amount');
+  });
+
+  it('lets later events override transformations', () => {
+    const later: OpenLineageRunEvent = {
+      ...event,
+      outputs: [{
+        namespace: 'warehouse',
+        name: 'revenue',
+        facets: { columnLineage: { fields: { total: { inputFields: [], transformationDescription: 'SUM(amount) - refunds' } } } },
+      }],
+    };
+    const { graph } = fromOpenLineage([event, later]);
+    expect(graph.nodes.find(node => node.id === 'revenue:total')).toMatchObject({ transformation: 'SUM(amount) - refunds' });
+    expect(graph.edges).toHaveLength(2);
+  });
+
+  it('warns about outputs without column lineage and undeclared inputs', () => {
+    const { warnings } = fromOpenLineage({
+      outputs: [
+        { namespace: 'warehouse', name: 'empty' },
+        {
+          namespace: 'warehouse',
+          name: 'report',
+          facets: { columnLineage: { fields: { value: { inputFields: [{ namespace: 'warehouse', name: 'ledger', field: 'amount' }] } } } },
+        },
+      ],
+    });
+    expect(warnings.map(warning => `${warning.code} ${warning.subject}`)).toEqual([
+      'missing-column-lineage empty',
+      'undeclared-dataset ledger',
+      'undeclared-field ledger:amount',
+    ]);
+  });
+});
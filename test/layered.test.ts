@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { LayeredLink, LayeredNode, layeredLayout } from '../src/layout/layered';
+
+const node = (id: string, level: number, height = 40): LayeredNode => ({ id, level, height });
+const link = (source: string, target: string, sourceOffset = 20, targetOffset = 20): LayeredLink => ({
+  source, sourceOffset, target, targetOffset,
+});
+
+// Pairs of links between the same two levels whose ends are in opposite order
+const countCrossings = (tops: Map<string, number>, nodes: LayeredNode[], links: LayeredLink[]) => {
+  const levelOf = new Map(nodes.map(n => [n.id, n.level]));
+  const ends = links.map(l => ({
+    key: `${levelOf.get(l.source)}-${levelOf.get(l.target)}`,
+    from: tops.get(l.source)! + l.sourceOffset,
+    to: tops.get(l.target)! + l.targetOffset,
+  }));
+  let crossings = 0;
+  ends.forEach((a, i) => ends.slice(i + 1).forEach(b => {
+    if (a.key === b.key && (a.from - b.from) * (a.to - b.to) < 0) crossings++;
+  }));
+  return crossings;
+};
+
+const overlaps = (tops: Map<string, number>, nodes: LayeredNode[], spacing: number) => nodes.some(a => nodes.some(b => (
+  a !== b && a.level === b.level && tops.get(a.id)! <= tops.get(b.id)! && tops.get(a.id)! + a.height + spacing > tops.get(b.id)!
+)));
+
+describe('layeredLayout', () => {
+  it('reorders a level to remove crossings', () => {
+    const nodes = [node('a', 0), node('b', 0), node('c', 1), node('d', 1)];
+    const links = [link('a', 'd'), link('b', 'c')];
+    const tops = layeredLayout(nodes, links, 10);
+    expect(countCrossings(tops, nodes, links)).toBe(0);
+    expect(tops.get('d')!).toBeLessThan(tops.get('c')!);
+  });
+
+  it('untangles crossings across several levels', () => {
+    const nodes = [
+      node('a', 0), node('b', 0), node('c', 0),
+      node('d', 1), node('e', 1), node('f', 1),
+      node('g', 2), node('h', 2),
+    ];
+    const links = [
+      link('a', 'f'), link('b', 'e'), link('c', 'd'),
+      link('d', 'h'), link('f', 'g'),
+    ];
+    const tops = layeredLayout(nodes, links, 10);
+    expect(countCrossings(tops, nodes, links)).toBe(0);
+    expect(overlaps(tops, nodes, 10)).toBe(false);
+  });
+
+  it('lines connected rows up', () => {
+    const nodes = [node('a', 0, 100), node('b', 1, 40)];
+    const tops = layeredLayout(nodes, [link('a', 'b', 70, 10)], 10);
+    expect(tops.get('b')! - tops.get('a')!).toBe(60);
+  });
+
+  it('keeps nodes of a level apart and the highest node at 0', () => {
+    const nodes = [node('a', 0, 200), node('b', 1, 60), node('c', 1, 60)];
+    const tops = layeredLayout(nodes, [link('a', 'b', 100), link('a', 'c', 100)], 16);
+    expect(overlaps(tops, nodes, 16)).toBe(false);
+    expect(Math.min(...tops.values())).toBe(0);
+  });
+
+  it('ignores links within a level and to unknown nodes', () => {
+    const nodes = [node('a', 0), node('b', 0)];
+    const tops = layeredLayout(nodes, [link('a', 'b'), link('a', 'missing')], 10);
+    expect(tops).toEqual(new Map([['a', 0], ['b', 50]]));
+  });
+
+  it('returns no positions for no nodes', () => {
+    expect(layeredLayout([], [], 10).size).toBe(0);
+  });
+});
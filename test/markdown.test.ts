@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { isSafeLink, parseInline } from '../src/markdown';
+
+describe('isSafeLink', () => {
+  it('allows http, https, mailto and relative links', () => {
+    expect(isSafeLink('https://example.com/docs')).toBe(true);
+    expect(isSafeLink('http://example.com')).toBe(true);
+    expect(isSafeLink('mailto:data@example.com')).toBe(true);
+    expect(isSafeLink('/docs/orders')).toBe(true);
+    expect(isSafeLink('orders.html#amount')).toBe(true);
+  });
+
+  it('rejects other schemes, however they are disguised', () => {
+    expect(isSafeLink('javascript:alert(1)')).toBe(false);
+    expect(isSafeLink('JavaScript:alert(1)')).toBe(false);
+    expect(isSafeLink('\u0001javascript:alert(1)')).toBe(false);
+    expect(isSafeLink('java\tscript:alert(1)')).toBe(false);
+    expect(isSafeLink('data:text/html,<script>alert(1)</script>')).toBe(false);
+  });
+
+  it('rejects hrefs that do not parse', () => {
+    expect(isSafeLink('http://[invalid')).toBe(false);
+  });
+});
+
+describe('parseInline', () => {
+  it('keeps the text of unsafe links without making them clickable', () => {
+    expect(parseInline('[x](\u0001javascript:alert(1))')).toEqual([{ text: 'x' }]);
+  });
+
+  it('links safe hrefs', () => {
+    expect(parseInline('see [docs](https://example.com)')).toEqual([
+      { text: 'see ' },
+      { text: 'docs', href: 'https://example.com' },
+    ]);
+  });
+});
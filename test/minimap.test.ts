@@ -0,0 +1,67 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Minimap } from '../src/minimap';
+
+let container: HTMLDivElement;
+
+beforeEach(() => {
+  container = document.createElement('div');
+  document.body.appendChild(container);
+});
+
+afterEach(() => {
+  container.remove();
+});
+
+const overlay = () => container.querySelector<HTMLDivElement>('.lineage-minimap')!;
+const content = () => overlay().querySelector('svg > g')!;
+
+describe('Minimap', () => {
+  it('sits in the bottom right corner by default', () => {
+    new Minimap(container, true, () => {});
+    expect(overlay().style.bottom).toBe('12px');
+    expect(overlay().style.right).toBe('12px');
+    expect(overlay().style.top).toBe('auto');
+    expect(overlay().style.width).toBe('200px');
+  });
+
+  it('follows the position and size options', () => {
+    const minimap = new Minimap(container, { position: 'top-left', width: 300, height: 100 }, () => {});
+    expect(overlay().style.top).toBe('12px');
+    expect(overlay().style.left).toBe('12px');
+    expect(overlay().querySelector('svg')!.getAttribute('height')).toBe('100');
+
+    minimap.setOptions({ position: 'bottom-left' });
+    expect(overlay().style.top).toBe('auto');
+    expect(overlay().style.bottom).toBe('12px');
+  });
+
+  it('draws the tables scaled to fit and centered', () => {
+    const minimap = new Minimap(container, { width: 312, height: 212 }, () => {});
+    minimap.update([
+      { x: 100, y: 0, width: 100, height: 50 },
+      { x: 300, y: 50, width: 100, height: 50 },
+    ]);
+    expect(overlay().querySelectorAll('.minimap-table')).toHaveLength(2);
+    // 300 × 100 of tables in 300 × 200 after padding: the width sets the scale, the height is centered
+    expect(content().getAttribute('transform')).toBe('translate(-94,56) scale(1)');
+
+    minimap.update([]);
+    expect(overlay().querySelectorAll('.minimap-table')).toHaveLength(0);
+    expect(content().getAttribute('transform')).toBeNull();
+  });
+
+  it('keeps the viewport above the tables', () => {
+    const minimap = new Minimap(container, true, () => {});
+    minimap.update([{ x: 0, y: 0, width: 100, height: 50 }]);
+    minimap.setViewport({ x: 10, y: 20, width: 300, height: -5 });
+    const viewport = content().lastElementChild!;
+    expect(viewport.getAttribute('class')).toBe('minimap-viewport');
+    expect([viewport.getAttribute('x'), viewport.getAttribute('width'), viewport.getAttribute('height')]).toEqual(['10', '300', '0']);
+  });
+
+  it('removes itself when destroyed', () => {
+    new Minimap(container, true, () => {}).destroy();
+    expect(overlay()).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { findLineagePaths } from '../src/paths';
+import { normalizeGraph } from '../src/normalize';
+import { EdgeProp, NodeProp } from '../src/types';
+
+const fields = (ids: string[]): NodeProp[] => [
+  { id: 't', type: 'table', name: 't' },
+  ...ids.map((id): NodeProp => ({ id: `t:${id}`, type: 'field', name: id })),
+];
+const edge = (source: string, target: string, transformation?: string): EdgeProp => ({
+  id: `${source}-${target}`, source: `t:${source}`, target: `t:${target}`, transformation,
+});
+
+// a → b → d, a → c → d and the shortcut a → d; d feeds e and b loops back to a
+const graph = normalizeGraph({
+  nodes: fields(['a', 'b', 'c', 'd', 'e', 'x']),
+  edges: [
+    edge('a', 'b'), edge('b', 'd', 'b + 1'), edge('a', 'c'), edge('c', 'd'),
+    edge('a', 'd'), edge('d', 'e'), edge('b', 'a'),
+  ],
+});
+
+const hops = (path: { source: string; target: string }[]) => path.map(step => step.target.slice(2)).join(' ');
+
+describe('findLineagePaths', () => {
+  it('lists every path from source to target, shortest first', () => {
+    const result = findLineagePaths(graph, 't:a', 't:d');
+    expect(result.paths.map(hops)).toEqual(['d', 'b d', 'c d']);
+    expect(result.nodeIds).toEqual(['t:a', 't:b', 't:c', 't:d']);
+    expect(result.edgeIds.sort()).toEqual(['a-b', 'a-c', 'a-d', 'b-d', 'c-d']);
+    expect(result.truncated).toBe(false);
+  });
+
+  it('leaves out edges beyond the target and back to the source', () => {
+    const result = findLineagePaths(graph, 't:a', 't:d');
+    expect(result.edgeIds).not.toContain('d-e');
+    expect(result.edgeIds).not.toContain('b-a');
+  });
+
+  it('keeps only the shortest paths when asked', () => {
+    const result = findLineagePaths(graph, 't:a', 't:e', { shortestOnly: true });
+    expect(result.paths.map(hops)).toEqual(['d e']);
+    expect(result.nodeIds).toEqual(['t:a', 't:d', 't:e']);
+  });
+
+  it('describes each hop with the transformation of its edge', () => {
+    const path = findLineagePaths(graph, 't:b', 't:d').paths[0];
+    expect(path).toEqual([{ edgeId: 'b-d', source: 't:b', target: 't:d', transformation: 'b + 1' }]);
+  });
+
+  it('falls back to the transformation of the target field', () => {
+    const withFieldTransformation = normalizeGraph({
+      nodes: [{ id: 't', type: 'table', name: 't' }, { id: 't:a', type: 'field', name: 'a' },
+        { id: 't:b', type: 'field', name: 'b', transformation: 'UPPER(a)' }],
+      edges: [{ source: 't:a', target: 't:b' }],
+    });
+    expect(findLineagePaths(withFieldTransformation, 't:a', 't:b').paths[0][0].transformation).toBe('UPPER(a)');
+  });
+
+  it('stops listing paths at the limit', () => {
+    const result = findLineagePaths(graph, 't:a', 't:d', { maxPaths: 2 });
+    expect(result.paths).toHaveLength(2);
+    expect(result.truncated).toBe(true);
+    // Every edge on a path is still highlighted
+    expect(result.edgeIds).toHaveLength(5);
+  });
+
+  it('finds nothing between unconnected, unknown or identical fields', () => {
+    const empty = { nodeIds: [], edgeIds: [], paths: [], truncated: false };
+    expect(findLineagePaths(graph, 't:d', 't:a')).toEqual({ source: 't:d', target: 't:a', ...empty });
+    expect(findLineagePaths(graph, 't:a', 't:x').paths).toEqual([]);
+    expect(findLineagePaths(graph, 't:a', 't:missing').paths).toEqual([]);
+    expect(findLineagePaths(graph, 't:a', 't:a').paths).toEqual([]);
+  });
+});
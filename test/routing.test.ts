@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { FramePoint, RoutingBand, fromFrame, orthogonalPath, routeEdges, toFrame } from '../src/layout/routing';
+import { LayoutOrientation } from '../src/types';
+
+const options = { outerChannel: 40, spacing: 6, margin: 8 };
+
+// Three levels of tables 100 wide with 100 between them
+const bands: RoutingBand[] = [
+  { start: 0, end: 100, obstacles: [[0, 60], [100, 160]] },
+  { start: 200, end: 300, obstacles: [[0, 70], [90, 200]] },
+  { start: 400, end: 500, obstacles: [[0, 60]] },
+];
+
+const isOrthogonal = (points: FramePoint[]) => points.slice(1).every((point, i) => (
+  point.main === points[i].main || point.cross === points[i].cross
+));
+
+describe('frame conversion', () => {
+  it('maps every orientation to the frame and back', () => {
+    (['LR', 'RL', 'TB', 'BT'] as LayoutOrientation[]).forEach(orientation => {
+      const frame = toFrame({ x: 12, y: 34 }, orientation);
+      expect(fromFrame(frame, orientation)).toEqual({ x: 12, y: 34 });
+    });
+    expect(toFrame({ x: 12, y: 34 }, 'TB')).toEqual({ main: 34, cross: 12 });
+    expect(toFrame({ x: 12, y: 34 }, 'RL')).toEqual({ main: -12, cross: 34 });
+  });
+});
+
+describe('routeEdges', () => {
+  it('turns once in the channel between adjacent levels', () => {
+    const routes = routeEdges(bands, [
+      { id: 'e', from: { main: 100, cross: 30 }, fromBand: 0, to: { main: 200, cross: 50 }, toBand: 1 },
+    ], options);
+    expect(routes.get('e')).toEqual([
+      { main: 100, cross: 30 },
+      { main: 150, cross: 30 },
+      { main: 150, cross: 50 },
+      { main: 200, cross: 50 },
+    ]);
+  });
+
+  it('gives parallel edges in a channel their own tracks', () => {
+    const routes = routeEdges(bands, [
+      { id: 'a', from: { main: 100, cross: 30 }, fromBand: 0, to: { main: 200, cross: 50 }, toBand: 1 },
+      { id: 'b', from: { main: 100, cross: 40 }, fromBand: 0, to: { main: 200, cross: 60 }, toBand: 1 },
+    ], options);
+    const trackA = routes.get('a')![1].main;
+    const trackB = routes.get('b')![1].main;
+    expect(Math.abs(trackA - trackB)).toBe(options.spacing);
+  });
+
+  it('passes levels in between through the gap between their tables', () => {
+    const routes = routeEdges(bands, [
+      { id: 'e', from: { main: 100, cross: 40 }, fromBand: 0, to: { main: 400, cross: 110 }, toBand: 2 },
+    ], options);
+    const points = routes.get('e')!;
+    expect(isOrthogonal(points)).toBe(true);
+    // The straight run across the middle level
+    const run = points.slice(1).findIndex((point, i) => points[i].main <= 200 && point.main >= 300);
+    const cross = points[run].cross;
+    expect(cross).toBeGreaterThanOrEqual(70 + options.margin);
+    expect(cross).toBeLessThanOrEqual(90 - options.margin);
+  });
+
+  it('sends backward edges around every table of the levels they span', () => {
+    const routes = routeEdges(bands, [
+      { id: 'back', from: { main: 500, cross: 30 }, fromBand: 2, to: { main: 0, cross: 30 }, toBand: 0 },
+    ], options);
+    const points = routes.get('back')!;
+    expect(isOrthogonal(points)).toBe(true);
+    const lane = Math.max(...points.map(point => point.cross));
+    expect(lane).toBeGreaterThanOrEqual(200 + options.margin * 2);
+    // Leaves after the last level and comes back before the first
+    expect(Math.max(...points.map(point => point.main))).toBeGreaterThan(500);
+    expect(Math.min(...points.map(point => point.main))).toBeLessThan(0);
+  });
+});
+
+describe('orthogonalPath', () => {
+  it('draws straight runs as lines and rounds corners', () => {
+    expect(orthogonalPath([{ x: 0, y: 0 }, { x: 10, y: 0 }])).toBe('M 0,0 L 10,0');
+    expect(orthogonalPath([{ x: 0, y: 0 }, { x: 20, y: 0 }, { x: 20, y: 20 }], 4))
+      .toBe('M 0,0 L 16,0 Q 20,0 20,4 L 20,20');
+    expect(orthogonalPath([])).toBe('');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { fuzzyScore, searchGraph } from '../src/search';
+import { normalizeGraph } from '../src/normalize';
+import { GraphProp } from '../src/types';
+
+describe('fuzzyScore', () => {
+  it('ranks exact matches over word starts over other substrings', () => {
+    const exact = fuzzyScore('amount', 'amount')!;
+    const wordStart = fuzzyScore('amount', 'order_amount')!;
+    const inside = fuzzyScore('mount', 'order_amount')!;
+    expect(exact).toBe(1);
+    expect(wordStart).toBeLessThan(exact);
+    expect(inside).toBeLessThan(wordStart);
+  });
+
+  it('ignores case', () => {
+    expect(fuzzyScore('AMOUNT', 'amount')).toBe(1);
+  });
+
+  it('matches characters in order, scoring spread out ones lower', () => {
+    const close = fuzzyScore('cst', 'cust_id')!;
+    const spread = fuzzyScore('cid', 'cust_id')!;
+    expect(close).toBeGreaterThan(spread);
+    expect(close).toBeLessThan(fuzzyScore('cust', 'cust_id')!);
+    expect(fuzzyScore('tsc', 'cust_id')).toBeNull();
+  });
+
+  it('matches subsequences only when allowed', () => {
+    expect(fuzzyScore('cst', 'cust_id', false)).toBeNull();
+    expect(fuzzyScore('cust', 'cust_id', false)).not.toBeNull();
+  });
+
+  it('requires every word of the query to match', () => {
+    expect(fuzzyScore('order amount', 'order_amount')).not.toBeNull();
+    expect(fuzzyScore('order total', 'order_amount')).toBeNull();
+    expect(fuzzyScore('   ', 'order_amount')).toBeNull();
+    expect(fuzzyScore('order', '')).toBeNull();
+  });
+});
+
+describe('searchGraph', () => {
+  const graph = normalizeGraph({
+    nodes: [
+      { id: 'orders', type: 'table', name: 'orders', note: 'Raw order events' },
+      { id: 'orders:amount', type: 'field', name: 'amount', description: 'Order total in cents' },
+      { id: 'revenue', type: 'table', name: 'revenue' },
+      { id: 'revenue:total', type: 'field', name: 'total', transformation: 'SUM(orders:amount)' },
+      { id: 'revenue:count', type: 'field', name: 'count' },
+    ],
+    edges: [],
+  } satisfies GraphProp);
+
+  it('ranks name matches above matches in transformations and notes', () => {
+    const results = searchGraph(graph, 'amount');
+    expect(results.map(result => [result.nodeId, result.matchedIn])).toEqual([
+      ['orders:amount', 'name'],
+      ['revenue:total', 'transformation'],
+    ]);
+  });
+
+  it('keeps the best match per node', () => {
+    const [result] = searchGraph(graph, 'total');
+    expect(result).toEqual({ nodeId: 'revenue:total', score: 1, matchedIn: 'name' });
+  });
+
+  it('matches free text only as a substring', () => {
+    expect(searchGraph(graph, 'order events').map(result => result.nodeId)).toEqual(['orders']);
+    expect(searchGraph(graph, 'rwe').map(result => result.nodeId)).toEqual([]);
+  });
+
+  it('finds names and ids by subsequence', () => {
+    expect(searchGraph(graph, 'rvcnt').map(result => result.nodeId)).toEqual(['revenue:count']);
+  });
+
+  it('returns nothing for an empty query', () => {
+    expect(searchGraph(graph, '  ')).toEqual([]);
+  });
+});
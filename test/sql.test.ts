@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSqlLineage, applyInferredEdges } from '../src/sql/lineage';
+import { GraphProp, NodeProp } from '../src/types';
+
+const table = (id: string, fields: string[], note?: string): NodeProp[] => [
+  { id, type: 'table', name: id, note },
+  ...fields.map((name): NodeProp => ({ id: `${id}:${name}`, type: 'field', name })),
+];
+
+const source: NodeProp[] = [
+  ...table('orders', ['id', 'customer_id', 'amount']),
+  ...table('customers', ['id', 'name', 'region']),
+];
+
+const withTarget = (transformation: string, edges: GraphProp['edges'] = []): GraphProp => ({
+  nodes: [
+    ...source,
+    { id: 'report', type: 'table', name: 'report' },
+    { id: 'report:value', type: 'field', name: 'value', transformation },
+  ],
+  edges,
+});
+
+const sourcesOf = (graph: GraphProp, fieldId = 'report:value') =>
+  (analyzeSqlLineage(graph).references[fieldId] || []).slice().sort();
+
+describe('analyzeSqlLineage', () => {
+  it('resolves table aliases', () => {
+    const graph = withTarget('SELECT o.amount * 2 AS value FROM orders o');
+    expect(sourcesOf(graph)).toEqual(['orders:amount']);
+  });
+
+  it('resolves columns of joined tables, qualified or unique', () => {
+    const graph = withTarget(
+      'SELECT c.region, amount FROM orders AS o JOIN customers c ON o.customer_id = c.id'
+    );
+    expect(sourcesOf(graph)).toEqual(['customers:region', 'orders:amount']);
+  });
+
+  it('reports columns that several joined tables have as ambiguous', () => {
+    const analysis = analyzeSqlLineage(withTarget('SELECT id FROM orders JOIN customers ON 1 = 1'));
+    expect(analysis.unresolved).toEqual([
+      { fieldId: 'report:value', reference: 'id', reason: 'Column is ambiguous between several joined tables.' },
+    ]);
+  });
+
+  it('follows CTE columns back to their tables', () => {
+    const graph = withTarget(`
+      WITH totals AS (SELECT customer_id, SUM(amount) AS total FROM orders GROUP BY customer_id)
+      SELECT t.total AS value FROM totals t`);
+    expect(sourcesOf(graph)).toEqual(['orders:amount']);
+  });
+
+  it('reads ---startsql blocks in field and table notes', () => {
+    const graph: GraphProp = {
+      nodes: [
+        ...source,
+        ...table('summary', ['region', 'revenue'], `Built nightly.
+          ---startsql
+          SELECT c.region, SUM(o.amount) AS revenue
+          FROM orders o JOIN customers c ON o.customer_id = c.id
+          ---endsql`),
+        { id: 'summary:label', type: 'field', name: 'label', note: `Display name.
+          ---startsql
+          SELECT name AS label FROM customers
+          ---endsql` },
+      ],
+      edges: [],
+    };
+    expect(sourcesOf(graph, 'summary:region')).toEqual(['customers:region']);
+    expect(sourcesOf(graph, 'summary:revenue')).toEqual(['orders:amount']);
+    expect(sourcesOf(graph, 'summary:label')).toEqual(['customers:name']);
+  });
+
+  it('resolves bare expressions against the tables feeding the field', () => {
+    const graph = withTarget('CAST(amount AS INT) * 2', [{ source: 'orders:id', target: 'report:value' }]);
+    expect(sourcesOf(graph)).toEqual(['orders:amount']);
+    expect(analyzeSqlLineage(graph).edges).toEqual([{ source: 'orders:amount', target: 'report:value' }]);
+  });
+
+  it("falls back to the field's own table for bare expressions", () => {
+    const graph: GraphProp = {
+      nodes: [
+        ...table('orders', ['amount']),
+        { id: 'orders:amount_cents', type: 'field', name: 'amount_cents', transformation: 'amount * 100' },
+      ],
+      edges: [],
+    };
+    expect(sourcesOf(graph, 'orders:amount_cents')).toEqual(['orders:amount']);
+  });
+
+  it('reports unresolved columns with a reason', () => {
+    const analysis = analyzeSqlLineage(withTarget('discount + missing.amount'));
+    expect(analysis.references['report:value']).toEqual([]);
+    expect(analysis.unresolved).toEqual([
+      {
+        fieldId: 'report:value',
+        reference: 'discount',
+        reason: "Neither the field's upstream tables nor its own table have this column.",
+      },
+      { fieldId: 'report:value', reference: 'missing.amount', reason: 'Table "missing" is not in the graph.' },
+    ]);
+  });
+
+  it('adds only the edges the graph is missing', () => {
+    const graph = withTarget('SELECT o.amount, o.id FROM orders o', [{ source: 'orders:id', target: 'report:value' }]);
+    const applied = applyInferredEdges(graph);
+    expect(applied.edges).toEqual([
+      { source: 'orders:id', target: 'report:value' },
+      { source: 'orders:amount', target: 'report:value' },
+    ]);
+    expect(graph.edges).toHaveLength(1);
+  });
+});
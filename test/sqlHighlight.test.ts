@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { formatSql, highlightSqlLines } from '../src/sql/highlight';
+
+const sql = (lines: string[]) => lines.join('\n');
+
+describe('highlightSqlLines', () => {
+  it('types keywords, identifiers, strings, numbers and comments', () => {
+    const [line] = highlightSqlLines('SELECT "Total", 42 FROM t -- done');
+    expect(line.filter(token => token.type !== 'plain')).toEqual([
+      { type: 'keyword', text: 'SELECT' },
+      { type: 'identifier', text: '"Total"' },
+      { type: 'number', text: '42' },
+      { type: 'keyword', text: 'FROM' },
+      { type: 'identifier', text: 't' },
+      { type: 'comment', text: '-- done' },
+    ]);
+  });
+
+  it('treats table:field ids as identifiers', () => {
+    expect(highlightSqlLines('orders:amount * 2')[0][0]).toEqual({ type: 'identifier', text: 'orders:amount' });
+  });
+
+  it('splits strings and comments that span lines', () => {
+    const lines = highlightSqlLines("select 'a\nb' /* one\ntwo */\nfrom t");
+    expect(lines).toHaveLength(4);
+    expect(lines[0][lines[0].length - 1]).toEqual({ type: 'string', text: "'a" });
+    expect(lines[1][0]).toEqual({ type: 'string', text: "b'" });
+    expect(lines[2][0]).toEqual({ type: 'comment', text: 'two */' });
+    expect(lines[3][0]).toEqual({ type: 'keyword', text: 'from' });
+  });
+
+  it('keeps empty lines', () => {
+    expect(highlightSqlLines('select 1\n\nfrom t')[1]).toEqual([]);
+  });
+});
+
+describe('formatSql', () => {
+  it('puts clauses and joins on their own lines with conditions indented', () => {
+    expect(formatSql(
+      'select id, sum(amount) as total from orders o left join customers c on o.cid = c.id and c.active ' +
+      'where amount between 1 and 5 and x = 1 group by id'
+    )).toBe(sql([
+      'SELECT id,',
+      '  sum(amount) AS total',
+      'FROM orders o',
+      'LEFT JOIN customers c ON o.cid = c.id',
+      '  AND c.active',
+      'WHERE amount BETWEEN 1 AND 5',
+      '  AND x = 1',
+      'GROUP BY id',
+    ]));
+  });
+
+  it('lays out subqueries clause by clause and keeps other parentheses inline', () => {
+    expect(formatSql('select * from (select id from t) s where id in (1, 2) -- end')).toBe(sql([
+      'SELECT *',
+      'FROM (',
+      '  SELECT id',
+      '  FROM t',
+      ') s',
+      'WHERE id IN (1, 2) -- end',
+    ]));
+  });
+
+  it('keeps the text of identifiers, strings and comments', () => {
+    expect(formatSql("select \"Mixed\", 'Mixed' /* Mixed */ from T")).toBe(sql([
+      "SELECT \"Mixed\",",
+      "  'Mixed' /* Mixed */",
+      'FROM T',
+    ]));
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { layoutLineage } from '../src/layout/engine';
+import { renderToSVGString } from '../src/svgString';
+import { GraphProp } from '../src/types';
+
+// Graph props as the component takes them: fields name their table only through the id prefix
+const data: GraphProp = {
+  nodes: [
+    { id: 'orders', type: 'table', name: 'orders' },
+    { id: 'orders:id', type: 'field', name: 'id' },
+    { id: 'orders:amount', type: 'field', name: 'amount' },
+    { id: 'revenue', type: 'table', name: 'revenue' },
+    { id: 'revenue:total', type: 'field', name: 'total' },
+  ],
+  edges: [
+    { source: 'orders:amount', target: 'revenue:total' },
+    { source: 'orders:id', target: 'revenue:total' },
+  ],
+};
+
+const count = (svg: string, pattern: RegExp) => (svg.match(pattern) || []).length;
+
+describe('renderToSVGString', () => {
+  it('draws the fields and edges of graph props without tableId', () => {
+    const svg = renderToSVGString(data);
+    expect(count(svg, /class="table-node"/g)).toBe(2);
+    expect(count(svg, /class="field-group"/g)).toBe(3);
+    expect(count(svg, /class="edge"/g)).toBe(2);
+  });
+
+  it('leaves the input unchanged', () => {
+    const copy = JSON.parse(JSON.stringify(data));
+    renderToSVGString(data);
+    expect(data).toEqual(copy);
+  });
+});
+
+describe('layoutLineage', () => {
+  it('places fields of graph props under their table', () => {
+    const layout = layoutLineage(data, {}, new Set(['orders', 'revenue']));
+    const table = layout.positions.get('orders')!;
+    const field = layout.positions.get('orders:amount')!;
+    expect(field.x).toBe(table.x);
+    expect(field.y).toBeGreaterThan(table.y);
+    expect(layout.edges).toHaveLength(2);
+  });
+});
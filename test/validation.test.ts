@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { normalizeGraph } from '../src/normalize';
+import { getHighestSeverity, groupIssuesByNode, runValidation } from '../src/validation/validate';
+import { GraphProp, ValidationRule } from '../src/types';
+
+const data: GraphProp = {
+  nodes: [
+    { id: 'orders', type: 'table', name: 'orders' },
+    { id: 'orders:id', type: 'field', name: 'id' },
+    { id: 'orders:amount', type: 'field', name: 'amount', dataType: 'decimal' },
+    { id: 'orders:created_at', type: 'field', name: 'created_at', dataType: 'timestamp' },
+    { id: 'revenue', type: 'table', name: 'revenue' },
+    { id: 'revenue:total', type: 'field', name: 'total', dataType: 'decimal', transformation: 'SUM(orders:amount)' },
+    { id: 'revenue:is_paid', type: 'field', name: 'is_paid', dataType: 'boolean' },
+    { id: 'audit', type: 'table', name: 'audit' },
+    { id: 'audit:note', type: 'field', name: 'note' },
+  ],
+  edges: [
+    { source: 'orders:amount', target: 'revenue:total' },
+    { source: 'orders:created_at', target: 'revenue:is_paid' },
+  ],
+};
+
+const validate = (graph: GraphProp, options = {}) => runValidation(normalizeGraph(graph), options);
+const codes = (graph: GraphProp, options = {}) => validate(graph, options).map(issue => `${issue.code} ${issue.nodeId}`);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('built-in rules', () => {
+  it('flag edges that are missing from or unused by a transformation', () => {
+    const graph: GraphProp = {
+      ...data,
+      edges: [...data.edges, { source: 'orders:id', target: 'revenue:total' }],
+    };
+    expect(validate(graph).filter(issue => issue.code === 'transformation-edge-mismatch')).toEqual([
+      expect.objectContaining({ nodeId: 'revenue:total', severity: 'warning', message: expect.stringContaining('"orders:id"') }),
+    ]);
+  });
+
+  it('flag dangling edges, duplicate ids, missing tables and self loops', () => {
+    const graph: GraphProp = {
+      nodes: [
+        ...data.nodes,
+        { id: 'orders:id', type: 'field', name: 'id' },
+        { id: 'ghost:col', type: 'field', name: 'col' },
+      ],
+      edges: [
+        { source: 'orders:id', target: 'nowhere:col' },
+        { source: 'audit:note', target: 'audit:note' },
+      ],
+    };
+    expect(codes(graph)).toEqual(expect.arrayContaining([
+      'dangling-edge orders:id',
+      'duplicate-node-id orders:id',
+      'missing-table ghost:col',
+      'self-loop audit:note',
+    ]));
+  });
+
+  it('flag edges between incompatible data types', () => {
+    expect(codes(data)).toContain('incompatible-types revenue:is_paid');
+    expect(codes(data)).not.toContain('incompatible-types revenue:total');
+  });
+
+  it('flag unused fields only in tables that feed other fields', () => {
+    const unused = codes(data).filter(code => code.startsWith('unused-source-field'));
+    expect(unused).toEqual(['unused-source-field orders:id']);
+  });
+});
+
+describe('runValidation', () => {
+  it('skips disabled rules', () => {
+    expect(codes(data, { disabledRules: ['incompatible-types', 'unused-source-field'] })).toEqual([]);
+  });
+
+  it('applies severity overrides by code', () => {
+    const issues = validate(data, { severities: { 'incompatible-types': 'error' } });
+    expect(issues.find(issue => issue.code === 'incompatible-types')?.severity).toBe('error');
+    expect(issues.find(issue => issue.code === 'unused-source-field')?.severity).toBe('info');
+  });
+
+  it('runs custom rules after the built-in ones, with their own codes and severities', () => {
+    const missingNoteRule: ValidationRule = {
+      code: 'missing-note',
+      severity: 'info',
+      validate: ({ graph }) => graph.nodes
+        .filter(node => node.id === 'audit:note')
+        .flatMap(node => [
+          { nodeId: node.id, message: 'Field has no documentation.' },
+          { nodeId: node.id, message: 'Field is not described.', code: 'missing-description', severity: 'warning' as const },
+        ]),
+    };
+    const issues = validate(data, { rules: [missingNoteRule], severities: { 'missing-description': 'error' } });
+    expect(issues.slice(-2)).toEqual([
+      { nodeId: 'audit:note', message: 'Field has no documentation.', code: 'missing-note', severity: 'info' },
+      { nodeId: 'audit:note', message: 'Field is not described.', code: 'missing-description', severity: 'error' },
+    ]);
+  });
+
+  it('reports a failing custom rule without dropping the other issues', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const brokenRule: ValidationRule = {
+      code: 'broken',
+      severity: 'error',
+      validate: () => { throw new Error('boom'); },
+    };
+    expect(codes(data, { rules: [brokenRule] })).toContain('incompatible-types revenue:is_paid');
+    expect(warn).toHaveBeenCalledWith('Validation rule "broken" failed', expect.any(Error));
+  });
+});
+
+describe('grouping issues', () => {
+  it('groups issues by node, most severe first', () => {
+    const issues = validate(data, { severities: { 'unused-source-field': 'warning' } });
+    const byNode = groupIssuesByNode([
+      ...issues,
+      { code: 'custom', severity: 'error', nodeId: 'orders:id', message: 'Broken.' },
+    ]);
+    expect(byNode.get('orders:id')!.map(issue => issue.severity)).toEqual(['error', 'warning']);
+    expect(getHighestSeverity(byNode.get('orders:id')!)).toBe('error');
+    expect(getHighestSeverity([])).toBeNull();
+  });
+});